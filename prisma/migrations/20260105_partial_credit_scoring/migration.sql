@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ScoringPolicy" AS ENUM ('ALL_OR_NOTHING', 'PROPORTIONAL', 'RIGHT_MINUS_WRONG');
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "scoringPolicy" "ScoringPolicy" NOT NULL DEFAULT 'ALL_OR_NOTHING';
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "scoringPolicy" "ScoringPolicy";
+
+-- AlterTable
+ALTER TABLE "Attempt" ALTER COLUMN "score" SET DATA TYPE DOUBLE PRECISION;
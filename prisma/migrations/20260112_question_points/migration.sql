@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "wrongAnswerPenalty" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "points" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN     "maxScore" DOUBLE PRECISION;
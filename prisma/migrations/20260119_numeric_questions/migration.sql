@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "QuestionType" ADD VALUE 'NUMERIC';
+
+-- CreateEnum
+CREATE TYPE "NumericMode" AS ENUM ('EXACT', 'ABSOLUTE', 'RELATIVE', 'RANGE');
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "numericAnswer" DOUBLE PRECISION,
+ADD COLUMN     "numericMax" DOUBLE PRECISION,
+ADD COLUMN     "numericMin" DOUBLE PRECISION,
+ADD COLUMN     "numericMode" "NumericMode",
+ADD COLUMN     "numericTolerance" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Answer" ADD COLUMN     "numericValue" DOUBLE PRECISION;
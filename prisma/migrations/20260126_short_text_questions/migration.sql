@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "QuestionType" ADD VALUE 'SHORT_TEXT';
+
+-- AlterTable
+ALTER TABLE "Answer" ADD COLUMN     "textValue" TEXT;
+
+-- CreateTable
+CREATE TABLE "AcceptedAnswer" (
+    "id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "isRegex" BOOLEAN NOT NULL DEFAULT false,
+    "order" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "questionId" TEXT NOT NULL,
+
+    CONSTRAINT "AcceptedAnswer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AcceptedAnswer_questionId_idx" ON "AcceptedAnswer"("questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AcceptedAnswer_questionId_order_key" ON "AcceptedAnswer"("questionId", "order");
+
+-- AddForeignKey
+ALTER TABLE "AcceptedAnswer" ADD CONSTRAINT "AcceptedAnswer_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "QuestionType" ADD VALUE 'ORDERING';
+
+-- AlterTable
+ALTER TABLE "Answer" ADD COLUMN     "orderedChoiceIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
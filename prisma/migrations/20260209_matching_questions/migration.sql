@@ -0,0 +1,51 @@
+-- AlterEnum
+ALTER TYPE "QuestionType" ADD VALUE 'MATCHING';
+
+-- AlterTable
+ALTER TABLE "Choice" ADD COLUMN     "matchTargetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "MatchTarget" (
+    "id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "questionId" TEXT NOT NULL,
+
+    CONSTRAINT "MatchTarget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AnswerMatch" (
+    "id" TEXT NOT NULL,
+    "answerId" TEXT NOT NULL,
+    "choiceId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+
+    CONSTRAINT "AnswerMatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MatchTarget_questionId_idx" ON "MatchTarget"("questionId");
+
+-- CreateIndex
+CREATE INDEX "AnswerMatch_answerId_idx" ON "AnswerMatch"("answerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnswerMatch_answerId_choiceId_key" ON "AnswerMatch"("answerId", "choiceId");
+
+-- AddForeignKey
+ALTER TABLE "Choice" ADD CONSTRAINT "Choice_matchTargetId_fkey" FOREIGN KEY ("matchTargetId") REFERENCES "MatchTarget"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchTarget" ADD CONSTRAINT "MatchTarget_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnswerMatch" ADD CONSTRAINT "AnswerMatch_answerId_fkey" FOREIGN KEY ("answerId") REFERENCES "Answer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnswerMatch" ADD CONSTRAINT "AnswerMatch_choiceId_fkey" FOREIGN KEY ("choiceId") REFERENCES "Choice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnswerMatch" ADD CONSTRAINT "AnswerMatch_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "MatchTarget"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "RevealPolicy" AS ENUM ('NEVER', 'AFTER_SUBMISSION', 'AFTER_CLOSE', 'IMMEDIATE');
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "revealPolicy" "RevealPolicy" NOT NULL DEFAULT 'AFTER_SUBMISSION';
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "FinalScorePolicy" AS ENUM ('BEST', 'LATEST', 'AVERAGE', 'FIRST');
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "attemptCooldownSeconds" INTEGER,
+ADD COLUMN     "finalScorePolicy" "FinalScorePolicy" NOT NULL DEFAULT 'BEST',
+ADD COLUMN     "maxAttempts" INTEGER;
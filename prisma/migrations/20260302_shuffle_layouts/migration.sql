@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN     "shuffleSeed" TEXT;
+
+-- AlterTable
+ALTER TABLE "Choice" ADD COLUMN     "isAnchored" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "shuffleChoices" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "shuffleQuestions" BOOLEAN NOT NULL DEFAULT false;
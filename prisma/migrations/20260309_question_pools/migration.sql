@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN     "questionIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "poolGroup" TEXT;
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "drawCount" INTEGER;
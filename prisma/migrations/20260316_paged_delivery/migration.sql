@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "DeliveryMode" AS ENUM ('ALL_AT_ONCE', 'PAGED');
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN     "flaggedQuestionIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "allowBackNavigation" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "deliveryMode" "DeliveryMode" NOT NULL DEFAULT 'ALL_AT_ONCE';
@@ -0,0 +1,14 @@
+-- DropIndex
+DROP INDEX "Attempt_userId_quizId_attemptNo_key";
+
+-- AlterTable
+ALTER TABLE "Answer" ADD COLUMN     "checkedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN     "isPractice" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "allowPractice" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attempt_userId_quizId_isPractice_attemptNo_key" ON "Attempt"("userId", "quizId", "isPractice", "attemptNo");
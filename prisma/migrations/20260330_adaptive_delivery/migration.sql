@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "DeliveryMode" ADD VALUE 'ADAPTIVE';
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "difficulty" INTEGER NOT NULL DEFAULT 3;
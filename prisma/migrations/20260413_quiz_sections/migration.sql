@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN     "sectionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "sectionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Section" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "instructions" TEXT,
+    "order" INTEGER NOT NULL,
+    "timeLimitSeconds" INTEGER,
+    "allowReturn" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "quizId" TEXT NOT NULL,
+
+    CONSTRAINT "Section_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AttemptSection" (
+    "id" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" TIMESTAMP(3),
+    "attemptId" TEXT NOT NULL,
+    "sectionId" TEXT NOT NULL,
+
+    CONSTRAINT "AttemptSection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Section_quizId_idx" ON "Section"("quizId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Section_quizId_order_key" ON "Section"("quizId", "order");
+
+-- CreateIndex
+CREATE INDEX "AttemptSection_attemptId_idx" ON "AttemptSection"("attemptId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AttemptSection_attemptId_sectionId_key" ON "AttemptSection"("attemptId", "sectionId");
+
+-- CreateIndex
+CREATE INDEX "Question_sectionId_idx" ON "Question"("sectionId");
+
+-- AddForeignKey
+ALTER TABLE "Section" ADD CONSTRAINT "Section_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Question" ADD CONSTRAINT "Question_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "Section"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttemptSection" ADD CONSTRAINT "AttemptSection_attemptId_fkey" FOREIGN KEY ("attemptId") REFERENCES "Attempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttemptSection" ADD CONSTRAINT "AttemptSection_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "Section"("id") ON DELETE CASCADE ON UPDATE CASCADE;
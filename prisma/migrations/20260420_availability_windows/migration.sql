@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "closesAt" TIMESTAMPTZ(3),
+ADD COLUMN     "opensAt" TIMESTAMPTZ(3);
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "QuizVisibility" AS ENUM ('PUBLIC', 'UNLISTED', 'ACCESS_CODE');
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "accessCodeHash" TEXT,
+ADD COLUMN     "visibility" "QuizVisibility" NOT NULL DEFAULT 'PUBLIC';
@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "passPercent" INTEGER;
+
+-- CreateTable
+CREATE TABLE "QuizPrerequisite" (
+    "quizId" TEXT NOT NULL,
+    "requiredQuizId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuizPrerequisite_pkey" PRIMARY KEY ("quizId","requiredQuizId")
+);
+
+-- CreateTable
+CREATE TABLE "LearningPath" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "isPublished" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LearningPath_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LearningPathStep" (
+    "id" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "pathId" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+
+    CONSTRAINT "LearningPathStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuizPrerequisite_requiredQuizId_idx" ON "QuizPrerequisite"("requiredQuizId");
+
+-- CreateIndex
+CREATE INDEX "LearningPath_isPublished_idx" ON "LearningPath"("isPublished");
+
+-- CreateIndex
+CREATE INDEX "LearningPathStep_quizId_idx" ON "LearningPathStep"("quizId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LearningPathStep_pathId_order_key" ON "LearningPathStep"("pathId", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LearningPathStep_pathId_quizId_key" ON "LearningPathStep"("pathId", "quizId");
+
+-- AddForeignKey
+ALTER TABLE "QuizPrerequisite" ADD CONSTRAINT "QuizPrerequisite_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizPrerequisite" ADD CONSTRAINT "QuizPrerequisite_requiredQuizId_fkey" FOREIGN KEY ("requiredQuizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LearningPathStep" ADD CONSTRAINT "LearningPathStep_pathId_fkey" FOREIGN KEY ("pathId") REFERENCES "LearningPath"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LearningPathStep" ADD CONSTRAINT "LearningPathStep_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,101 @@
+-- CreateTable
+CREATE TABLE "QuizVersion" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "quizId" TEXT NOT NULL,
+
+    CONSTRAINT "QuizVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "versionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN     "versionId" TEXT;
+
+-- Backfill: quizzes that are published or have attempts get version 1 with their
+-- current questions, which existing answers already point at. Every quiz gets a draft.
+INSERT INTO "QuizVersion" ("id", "number", "publishedAt", "quizId")
+SELECT 'v1_' || q."id", 1, CURRENT_TIMESTAMP, q."id"
+FROM "Quiz" q
+WHERE q."isPublished" OR EXISTS (SELECT 1 FROM "Attempt" a WHERE a."quizId" = q."id");
+
+INSERT INTO "QuizVersion" ("id", "number", "quizId")
+SELECT 'draft_' || "id", 0, "id" FROM "Quiz";
+
+UPDATE "Question" SET "versionId" = 'v1_' || "quizId"
+WHERE EXISTS (SELECT 1 FROM "QuizVersion" v WHERE v."id" = 'v1_' || "Question"."quizId");
+
+UPDATE "Question" SET "versionId" = 'draft_' || "quizId" WHERE "versionId" IS NULL;
+
+UPDATE "Attempt" SET "versionId" = 'v1_' || "quizId";
+
+-- The drafts of versioned quizzes start as copies of version 1.
+INSERT INTO "Question" (
+    "id", "prompt", "hint", "rationale", "type", "order", "scoringPolicy", "points", "poolGroup", "difficulty",
+    "numericMode", "numericAnswer", "numericTolerance", "numericMin", "numericMax", "createdAt", "updatedAt",
+    "quizId", "sectionId", "versionId"
+)
+SELECT
+    'd' || md5("id"), "prompt", "hint", "rationale", "type", "order", "scoringPolicy", "points", "poolGroup",
+    "difficulty", "numericMode", "numericAnswer", "numericTolerance", "numericMin", "numericMax", "createdAt",
+    "updatedAt", "quizId", "sectionId", 'draft_' || "quizId"
+FROM "Question"
+WHERE "versionId" = 'v1_' || "quizId";
+
+INSERT INTO "MatchTarget" ("id", "text", "order", "createdAt", "updatedAt", "questionId")
+SELECT 'd' || md5(t."id"), t."text", t."order", t."createdAt", t."updatedAt", 'd' || md5(t."questionId")
+FROM "MatchTarget" t
+JOIN "Question" q ON q."id" = t."questionId"
+WHERE q."versionId" = 'v1_' || q."quizId";
+
+INSERT INTO "Choice" (
+    "id", "text", "isCorrect", "isAnchored", "order", "createdAt", "updatedAt", "questionId", "matchTargetId"
+)
+SELECT
+    'd' || md5(c."id"), c."text", c."isCorrect", c."isAnchored", c."order", c."createdAt", c."updatedAt",
+    'd' || md5(c."questionId"), CASE WHEN c."matchTargetId" IS NULL THEN NULL ELSE 'd' || md5(c."matchTargetId") END
+FROM "Choice" c
+JOIN "Question" q ON q."id" = c."questionId"
+WHERE q."versionId" = 'v1_' || q."quizId";
+
+INSERT INTO "AcceptedAnswer" ("id", "text", "isRegex", "order", "createdAt", "updatedAt", "questionId")
+SELECT 'd' || md5(a."id"), a."text", a."isRegex", a."order", a."createdAt", a."updatedAt", 'd' || md5(a."questionId")
+FROM "AcceptedAnswer" a
+JOIN "Question" q ON q."id" = a."questionId"
+WHERE q."versionId" = 'v1_' || q."quizId";
+
+-- AlterTable
+ALTER TABLE "Question" ALTER COLUMN "versionId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Attempt" ALTER COLUMN "versionId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Question_quizId_order_key";
+
+-- CreateIndex
+CREATE INDEX "QuizVersion_quizId_idx" ON "QuizVersion"("quizId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizVersion_quizId_number_key" ON "QuizVersion"("quizId", "number");
+
+-- CreateIndex
+CREATE INDEX "Question_versionId_idx" ON "Question"("versionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Question_versionId_order_key" ON "Question"("versionId", "order");
+
+-- CreateIndex
+CREATE INDEX "Attempt_versionId_idx" ON "Attempt"("versionId");
+
+-- AddForeignKey
+ALTER TABLE "QuizVersion" ADD CONSTRAINT "QuizVersion_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Question" ADD CONSTRAINT "Question_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "QuizVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attempt" ADD CONSTRAINT "Attempt_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "QuizVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
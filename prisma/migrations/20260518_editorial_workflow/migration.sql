@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "EditorialStatus" AS ENUM ('DRAFT', 'IN_REVIEW', 'APPROVED', 'PUBLISHED');
+
+-- CreateEnum
+CREATE TYPE "QuizActivityType" AS ENUM ('SUBMITTED', 'CHANGES_REQUESTED', 'APPROVED', 'PUBLISHED', 'UNPUBLISHED', 'COMMENTED');
+
+-- AlterTable
+ALTER TABLE "Quiz" ADD COLUMN     "editorialStatus" "EditorialStatus" NOT NULL DEFAULT 'DRAFT';
+
+-- Backfill: quizzes with a published version start out PUBLISHED; their drafts are
+-- still copies of it.
+UPDATE "Quiz" SET "editorialStatus" = 'PUBLISHED'
+WHERE EXISTS (SELECT 1 FROM "QuizVersion" v WHERE v."quizId" = "Quiz"."id" AND v."number" > 0);
+
+-- CreateTable
+CREATE TABLE "QuizActivity" (
+    "id" TEXT NOT NULL,
+    "type" "QuizActivityType" NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "quizId" TEXT NOT NULL,
+    "actorId" TEXT,
+
+    CONSTRAINT "QuizActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuestionComment" (
+    "id" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "questionId" TEXT NOT NULL,
+    "authorId" TEXT,
+
+    CONSTRAINT "QuestionComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuizActivity_quizId_createdAt_idx" ON "QuizActivity"("quizId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "QuestionComment_questionId_createdAt_idx" ON "QuestionComment"("questionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "QuizActivity" ADD CONSTRAINT "QuizActivity_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizActivity" ADD CONSTRAINT "QuizActivity_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionComment" ADD CONSTRAINT "QuestionComment_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionComment" ADD CONSTRAINT "QuestionComment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "QuizVersion" ADD COLUMN     "allowBackNavigation" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "deliveryMode" "DeliveryMode" NOT NULL DEFAULT 'ALL_AT_ONCE',
+ADD COLUMN     "drawCount" INTEGER,
+ADD COLUMN     "scoringPolicy" "ScoringPolicy" NOT NULL DEFAULT 'ALL_OR_NOTHING',
+ADD COLUMN     "timeLimitSeconds" INTEGER,
+ADD COLUMN     "wrongAnswerPenalty" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: existing versions keep the settings their attempts have been taken under.
+UPDATE "QuizVersion" v
+SET "allowBackNavigation" = q."allowBackNavigation",
+    "deliveryMode" = q."deliveryMode",
+    "drawCount" = q."drawCount",
+    "scoringPolicy" = q."scoringPolicy",
+    "timeLimitSeconds" = q."timeLimitSeconds",
+    "wrongAnswerPenalty" = q."wrongAnswerPenalty"
+FROM "Quiz" q
+WHERE q."id" = v."quizId";
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "QuizVersion" ADD COLUMN     "shuffleChoices" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "shuffleQuestions" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill: existing attempts keep being laid out as they were.
+UPDATE "QuizVersion" v
+SET "shuffleChoices" = q."shuffleChoices",
+    "shuffleQuestions" = q."shuffleQuestions"
+FROM "Quiz" q
+WHERE q."id" = v."quizId";
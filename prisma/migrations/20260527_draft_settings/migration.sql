@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "QuizVersion" ADD COLUMN     "accessCodeHash" TEXT,
+ADD COLUMN     "allowPractice" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "attemptCooldownSeconds" INTEGER,
+ADD COLUMN     "closesAt" TIMESTAMPTZ(3),
+ADD COLUMN     "finalScorePolicy" "FinalScorePolicy" NOT NULL DEFAULT 'BEST',
+ADD COLUMN     "maxAttempts" INTEGER,
+ADD COLUMN     "opensAt" TIMESTAMPTZ(3),
+ADD COLUMN     "passPercent" INTEGER,
+ADD COLUMN     "revealPolicy" "RevealPolicy" NOT NULL DEFAULT 'AFTER_SUBMISSION',
+ADD COLUMN     "visibility" "QuizVisibility" NOT NULL DEFAULT 'PUBLIC';
+
+-- Backfill: every version gets the quiz's current rules. Drafts take all of its
+-- settings, as edits have gone to the quiz until now.
+UPDATE "QuizVersion" v
+SET "accessCodeHash" = q."accessCodeHash",
+    "allowPractice" = q."allowPractice",
+    "attemptCooldownSeconds" = q."attemptCooldownSeconds",
+    "closesAt" = q."closesAt",
+    "finalScorePolicy" = q."finalScorePolicy",
+    "maxAttempts" = q."maxAttempts",
+    "opensAt" = q."opensAt",
+    "passPercent" = q."passPercent",
+    "revealPolicy" = q."revealPolicy",
+    "visibility" = q."visibility"
+FROM "Quiz" q
+WHERE q."id" = v."quizId";
+
+UPDATE "QuizVersion" v
+SET "allowBackNavigation" = q."allowBackNavigation",
+    "deliveryMode" = q."deliveryMode",
+    "drawCount" = q."drawCount",
+    "scoringPolicy" = q."scoringPolicy",
+    "shuffleChoices" = q."shuffleChoices",
+    "shuffleQuestions" = q."shuffleQuestions",
+    "timeLimitSeconds" = q."timeLimitSeconds",
+    "wrongAnswerPenalty" = q."wrongAnswerPenalty"
+FROM "Quiz" q
+WHERE q."id" = v."quizId" AND v."number" = 0;
+
+-- The quiz itself now carries the live version's settings, which differ from its own
+-- where they were edited since the last publish.
+UPDATE "Quiz" q
+SET "allowBackNavigation" = v."allowBackNavigation",
+    "deliveryMode" = v."deliveryMode",
+    "drawCount" = v."drawCount",
+    "scoringPolicy" = v."scoringPolicy",
+    "shuffleChoices" = v."shuffleChoices",
+    "shuffleQuestions" = v."shuffleQuestions",
+    "timeLimitSeconds" = v."timeLimitSeconds",
+    "wrongAnswerPenalty" = v."wrongAnswerPenalty"
+FROM "QuizVersion" v
+WHERE v."quizId" = q."id"
+  AND v."number" = (SELECT MAX(l."number") FROM "QuizVersion" l WHERE l."quizId" = q."id");
@@ -18,6 +18,11 @@ export default function AdminHomePage() {
           <div className="font-medium">Quizzes</div>
           <div className="mt-1 text-sm text-neutral-600">Create quizzes and edit questions.</div>
         </Link>
+
+        <Link className="rounded-md border border-neutral-200 bg-white p-4" href="/admin/paths">
+          <div className="font-medium">Learning paths</div>
+          <div className="mt-1 text-sm text-neutral-600">Group quizzes into ordered paths.</div>
+        </Link>
       </div>
     </main>
   );
@@ -0,0 +1,299 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import Link from "next/link";
+
+type QuizOption = { id: string; title: string; isPublished: boolean };
+
+type Path = {
+  id: string;
+  title: string;
+  description: string | null;
+  isPublished: boolean;
+  steps: Array<{ order: number; quiz: QuizOption }>;
+};
+
+type ListPathsResponse = { ok: true; paths: Path[] };
+
+type ListQuizzesResponse = { ok: true; quizzes: QuizOption[] };
+
+type ApiError = { ok: false; error: { message: string } };
+
+type PathUpdate = { id: string; isPublished?: boolean; quizIds?: string[] };
+
+async function apiJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "content-type": "application/json", ...(init?.headers ?? {}) },
+  });
+  const json = (await res.json().catch(() => null)) as T | ApiError | null;
+  if (!res.ok) {
+    const msg = (json as ApiError | null)?.error?.message ?? "Request failed";
+    throw new Error(msg);
+  }
+  return json as T;
+}
+
+// Moves the item at index by delta, keeping the rest in order.
+function moveItem<T>(items: T[], index: number, delta: number) {
+  const next = items.slice();
+  const [item] = next.splice(index, 1);
+  next.splice(index + delta, 0, item);
+  return next;
+}
+
+export default function AdminPathsPage() {
+  const qc = useQueryClient();
+
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+
+  const pathsQuery = useQuery({
+    queryKey: ["admin", "paths"],
+    queryFn: () => apiJson<ListPathsResponse>("/api/admin/path"),
+  });
+
+  const quizzesQuery = useQuery({
+    queryKey: ["admin", "quizzes"],
+    queryFn: () => apiJson<ListQuizzesResponse>("/api/admin/quiz"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiJson<{ ok: true }>("/api/admin/path", {
+        method: "POST",
+        body: JSON.stringify({ title, description: description || null }),
+      }),
+    onSuccess: async () => {
+      setTitle("");
+      setDescription("");
+      await qc.invalidateQueries({ queryKey: ["admin", "paths"] });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (payload: PathUpdate) =>
+      apiJson<{ ok: true }>("/api/admin/path", {
+        method: "PUT",
+        body: JSON.stringify(payload),
+      }),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["admin", "paths"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiJson<{ ok: true }>("/api/admin/path", {
+        method: "DELETE",
+        body: JSON.stringify({ id }),
+      }),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["admin", "paths"] });
+    },
+  });
+
+  const quizzes = quizzesQuery.data?.quizzes ?? [];
+
+  return (
+    <main className="mx-auto w-full max-w-3xl p-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold">Learning paths</h1>
+          <p className="mt-1 text-sm text-neutral-600">
+            Ordered runs of quizzes. Steps unlock through each quiz&apos;s prerequisites.
+          </p>
+        </div>
+        <Link className="text-sm underline" href="/admin">
+          Back
+        </Link>
+      </div>
+
+      <section className="mt-6 rounded-md border border-neutral-200 bg-white p-4">
+        <h2 className="text-sm font-semibold">Create path</h2>
+
+        <div className="mt-3 grid gap-3">
+          <label className="block">
+            <span className="text-sm">Title</span>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm">Description</span>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              rows={2}
+            />
+          </label>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !title.trim()}
+          className="mt-4 rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+        >
+          {createMutation.isPending ? "Creating…" : "Create"}
+        </button>
+
+        {createMutation.isError ? (
+          <p className="mt-3 text-sm text-red-700">{String(createMutation.error.message)}</p>
+        ) : null}
+      </section>
+
+      <section className="mt-6">
+        <h2 className="text-sm font-semibold">Existing</h2>
+
+        {pathsQuery.isLoading ? (
+          <p className="mt-2 text-sm text-neutral-600">Loading…</p>
+        ) : pathsQuery.isError ? (
+          <p className="mt-2 text-sm text-red-700">{String(pathsQuery.error.message)}</p>
+        ) : (
+          <div className="mt-3 space-y-3">
+            {(pathsQuery.data?.paths ?? []).map((p) => (
+              <PathCard
+                key={p.id}
+                path={p}
+                quizzes={quizzes}
+                isBusy={updateMutation.isPending || deleteMutation.isPending}
+                onUpdate={(update) => updateMutation.mutate({ id: p.id, ...update })}
+                onDelete={() => {
+                  if (!confirm("Delete this path? Its quizzes are kept.")) return;
+                  deleteMutation.mutate(p.id);
+                }}
+              />
+            ))}
+
+            {updateMutation.isError ? (
+              <p className="text-sm text-red-700">{String(updateMutation.error.message)}</p>
+            ) : null}
+            {deleteMutation.isError ? (
+              <p className="text-sm text-red-700">{String(deleteMutation.error.message)}</p>
+            ) : null}
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
+
+function PathCard(props: {
+  path: Path;
+  quizzes: QuizOption[];
+  isBusy: boolean;
+  onUpdate: (update: Omit<PathUpdate, "id">) => void;
+  onDelete: () => void;
+}) {
+  const { path } = props;
+  const [addQuizId, setAddQuizId] = useState("");
+  const quizIds = path.steps.map((s) => s.quiz.id);
+  const addable = props.quizzes.filter((q) => !quizIds.includes(q.id));
+
+  return (
+    <div className="rounded-md border border-neutral-200 bg-white p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium">{path.title}</div>
+          {path.description ? <div className="mt-1 text-sm text-neutral-600">{path.description}</div> : null}
+        </div>
+        <Link className="text-sm underline" href={`/paths?id=${encodeURIComponent(path.id)}`}>
+          View
+        </Link>
+      </div>
+
+      {path.steps.length ? (
+        <ol className="mt-3 space-y-2">
+          {path.steps.map((s, index) => (
+            <li key={s.quiz.id} className="flex items-center justify-between gap-3 text-sm">
+              <span>
+                {index + 1}. {s.quiz.title}
+                {s.quiz.isPublished ? null : <span className="text-neutral-600"> (unpublished, hidden)</span>}
+              </span>
+              <span className="flex items-center gap-2 text-xs">
+                <button
+                  type="button"
+                  disabled={props.isBusy || index === 0}
+                  onClick={() => props.onUpdate({ quizIds: moveItem(quizIds, index, -1) })}
+                  className="rounded-md border border-neutral-300 px-2 py-1 disabled:opacity-40"
+                >
+                  Up
+                </button>
+                <button
+                  type="button"
+                  disabled={props.isBusy || index === quizIds.length - 1}
+                  onClick={() => props.onUpdate({ quizIds: moveItem(quizIds, index, 1) })}
+                  className="rounded-md border border-neutral-300 px-2 py-1 disabled:opacity-40"
+                >
+                  Down
+                </button>
+                <button
+                  type="button"
+                  disabled={props.isBusy}
+                  onClick={() => props.onUpdate({ quizIds: quizIds.filter((id) => id !== s.quiz.id) })}
+                  className="rounded-md border border-red-300 px-2 py-1 text-red-700 disabled:opacity-40"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="mt-3 text-sm text-neutral-600">No steps yet.</p>
+      )}
+
+      <div className="mt-3 flex items-center gap-2">
+        <select
+          value={addQuizId}
+          onChange={(e) => setAddQuizId(e.target.value)}
+          className="min-w-0 flex-1 rounded-md border border-neutral-300 px-3 py-2 text-sm"
+        >
+          <option value="">Add a quiz…</option>
+          {addable.map((q) => (
+            <option key={q.id} value={q.id}>
+              {q.title}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={props.isBusy || !addQuizId}
+          onClick={() => {
+            props.onUpdate({ quizIds: [...quizIds, addQuizId] });
+            setAddQuizId("");
+          }}
+          className="rounded-md border border-neutral-300 px-3 py-2 text-sm disabled:opacity-60"
+        >
+          Add step
+        </button>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={path.isPublished}
+            onChange={(e) => props.onUpdate({ isPublished: e.target.checked })}
+          />
+          Published
+        </label>
+
+        <button
+          type="button"
+          disabled={props.isBusy}
+          onClick={props.onDelete}
+          className="rounded-md border border-neutral-300 px-3 py-2 text-sm disabled:opacity-60"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+
+import { actorName, type Actor } from "./ReviewPanel";
+
+export type QuestionComment = {
+  id: string;
+  questionId: string;
+  body: string;
+  createdAt: string;
+  author: Actor;
+};
+
+// A question's review comments, with a box for adding one.
+export function CommentThread(props: {
+  comments: QuestionComment[];
+  isBusy: boolean;
+  onComment: (body: string, onPosted: () => void) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [body, setBody] = useState("");
+
+  return (
+    <div className="mt-3 border-t border-neutral-100 pt-3">
+      <button type="button" onClick={() => setOpen((v) => !v)} className="text-sm underline">
+        {props.comments.length ? `Comments (${props.comments.length})` : "Comment"}
+      </button>
+
+      {open ? (
+        <div className="mt-2 grid gap-2">
+          {props.comments.map((c) => (
+            <div key={c.id} className="rounded-md bg-neutral-50 px-3 py-2 text-sm">
+              <div className="text-xs text-neutral-600">
+                {actorName(c.author)} · {new Date(c.createdAt).toLocaleString()}
+              </div>
+              <p className="mt-0.5 whitespace-pre-wrap">{c.body}</p>
+            </div>
+          ))}
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Add a comment"
+            className="w-full rounded-md border border-neutral-300 px-3 py-2 text-sm"
+            rows={2}
+          />
+          <div>
+            <button
+              type="button"
+              disabled={props.isBusy || !body.trim()}
+              onClick={() => props.onComment(body, () => setBody(""))}
+              className="rounded-md border border-neutral-300 px-3 py-2 text-sm disabled:opacity-60"
+            >
+              Post comment
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+
+export type ImportFormat = "CSV" | "JSON" | "GIFT" | "AIKEN";
+
+export type ImportRequest = { format: ImportFormat; content: string; dryRun: boolean };
+
+type RowError = { row: number; line?: number; message: string };
+
+export type ImportResult =
+  | { ok: true; rowCount: number; validCount: number; errors: RowError[]; newSections: string[] }
+  | { ok: true; importedCount: number }
+  | { ok: false; error: { message: string }; errors: RowError[] };
+
+const PLACEHOLDERS: Record<ImportFormat, string> = {
+  CSV: "type,prompt,choice1,choice2,choice3,correct\nSINGLE_CHOICE,2 + 2 = ?,3,4,5,2",
+  JSON: '{ "questions": [{ "prompt": "…", "choices": [] }] }',
+  GIFT: "// Shown as the rationale\n2 + 2 = ? {\n  ~3\n  =4\n  ~5\n}",
+  AIKEN: "2 + 2 = ?\nA. 3\nB. 4\nC. 5\nANSWER: B",
+};
+
+function rowLabel(e: RowError) {
+  return `Question ${e.row}${e.line ? ` (line ${e.line})` : ""}`;
+}
+
+export function ImportPanel(props: {
+  isBusy: boolean;
+  error: string | null;
+  result: ImportResult | null;
+  onRun: (request: ImportRequest) => void;
+}) {
+  const [format, setFormat] = useState<ImportFormat>("CSV");
+  const [content, setContent] = useState("");
+  const { result } = props;
+
+  return (
+    <section className="mt-6 rounded-md border border-neutral-200 bg-white p-4">
+      <h2 className="text-sm font-semibold">Import questions</h2>
+      <p className="mt-1 text-xs text-neutral-600">
+        Paste or upload CSV, JSON, GIFT or Aiken. Questions are added after the existing ones, and only if every
+        question is valid.
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ImportFormat)}
+          className="rounded-md border border-neutral-300 px-3 py-2 text-sm"
+        >
+          <option value="CSV">CSV</option>
+          <option value="JSON">JSON</option>
+          <option value="GIFT">GIFT</option>
+          <option value="AIKEN">Aiken</option>
+        </select>
+        <input
+          type="file"
+          accept=".csv,.json,.gift,.txt,text/csv,application/json,text/plain"
+          className="text-sm"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            if (/\.json$/i.test(file.name)) setFormat("JSON");
+            else if (/\.csv$/i.test(file.name)) setFormat("CSV");
+            else if (/\.gift(\.txt)?$/i.test(file.name)) setFormat("GIFT");
+            else if (/\.aiken(\.txt)?$/i.test(file.name)) setFormat("AIKEN");
+            setContent(await file.text());
+          }}
+        />
+      </div>
+
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={PLACEHOLDERS[format]}
+        className="mt-3 w-full rounded-md border border-neutral-300 px-3 py-2 font-mono text-xs"
+        rows={8}
+      />
+
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          type="button"
+          disabled={props.isBusy || !content.trim()}
+          onClick={() => props.onRun({ format, content, dryRun: true })}
+          className="rounded-md border border-neutral-300 px-3 py-2 text-sm disabled:opacity-60"
+        >
+          Dry run
+        </button>
+        <button
+          type="button"
+          disabled={props.isBusy || !content.trim()}
+          onClick={() => props.onRun({ format, content, dryRun: false })}
+          className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+        >
+          {props.isBusy ? "Working…" : "Import"}
+        </button>
+      </div>
+
+      {props.error ? <p className="mt-3 text-sm text-red-700">{props.error}</p> : null}
+
+      {result && "importedCount" in result ? (
+        <p className="mt-3 text-sm text-green-800">
+          Imported {result.importedCount} question{result.importedCount === 1 ? "" : "s"}.
+        </p>
+      ) : null}
+      {result && "rowCount" in result ? (
+        <p className="mt-3 text-sm">
+          {result.validCount} of {result.rowCount} row{result.rowCount === 1 ? "" : "s"} valid.
+          {result.newSections.length ? ` New sections: ${result.newSections.join(", ")}.` : null}
+        </p>
+      ) : null}
+      {result && !result.ok ? <p className="mt-3 text-sm text-red-700">{result.error.message}</p> : null}
+      {result && "errors" in result && result.errors.length ? (
+        <ul className="mt-2 space-y-1 text-sm text-red-700">
+          {result.errors.map((e) => (
+            <li key={`${e.row}:${e.message}`}>
+              {rowLabel(e)}: {e.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
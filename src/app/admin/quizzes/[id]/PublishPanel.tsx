@@ -0,0 +1,51 @@
+"use client";
+
+import type { EditorialStatus } from "./ReviewPanel";
+
+export type VersionStatus = {
+  live: { number: number; publishedAt: string } | null;
+  hasUnpublishedChanges: boolean;
+};
+
+// Question edits go to the draft; learners get them once the draft is published as a
+// new version, which takes an approved review. Attempts already started keep the
+// version they began on.
+export function PublishPanel(props: {
+  versions: VersionStatus;
+  status: EditorialStatus;
+  isBusy: boolean;
+  error: string | null;
+  onPublish: () => void;
+}) {
+  const { live, hasUnpublishedChanges } = props.versions;
+  const isApproved = props.status === "APPROVED";
+
+  return (
+    <section className="mt-6 flex items-center justify-between gap-3 rounded-md border border-neutral-200 bg-white p-4">
+      <div className="text-sm">
+        {live ? (
+          <p>
+            Learners get version {live.number}, published {new Date(live.publishedAt).toLocaleString()}.
+          </p>
+        ) : (
+          <p>Not published yet. Publishing the quiz makes these questions version 1 and lists it.</p>
+        )}
+        <p className="mt-1 text-xs text-neutral-600">
+          {hasUnpublishedChanges
+            ? "The questions and settings here have changes learners don't see yet."
+            : "The questions and settings here match what learners get."}
+          {hasUnpublishedChanges && !isApproved ? " They can be published once a review approves them." : null}
+        </p>
+        {props.error ? <p className="mt-1 text-sm text-red-700">{props.error}</p> : null}
+      </div>
+      <button
+        type="button"
+        disabled={props.isBusy || !isApproved}
+        onClick={props.onPublish}
+        className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+      >
+        {props.isBusy ? "Publishing…" : live ? "Publish changes" : "Publish"}
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,448 @@
+"use client";
+
+import { useState } from "react";
+
+export type ScoringPolicy = "ALL_OR_NOTHING" | "PROPORTIONAL" | "RIGHT_MINUS_WRONG";
+
+export const SCORING_POLICY_LABELS: Record<ScoringPolicy, string> = {
+  ALL_OR_NOTHING: "All or nothing",
+  PROPORTIONAL: "Proportional (partial credit)",
+  RIGHT_MINUS_WRONG: "Right minus wrong",
+};
+
+export type RevealPolicy = "NEVER" | "AFTER_SUBMISSION" | "AFTER_CLOSE" | "IMMEDIATE";
+
+export const REVEAL_POLICY_LABELS: Record<RevealPolicy, string> = {
+  AFTER_SUBMISSION: "After the learner submits",
+  AFTER_CLOSE: "After the quiz is closed",
+  IMMEDIATE: "Immediately (practice)",
+  NEVER: "Never",
+};
+
+export type FinalScorePolicy = "BEST" | "LATEST" | "AVERAGE" | "FIRST";
+
+export const FINAL_SCORE_POLICY_LABELS: Record<FinalScorePolicy, string> = {
+  BEST: "Best attempt",
+  LATEST: "Latest attempt",
+  AVERAGE: "Average of attempts",
+  FIRST: "First attempt",
+};
+
+export type DeliveryMode = "ALL_AT_ONCE" | "PAGED" | "ADAPTIVE";
+
+export const DELIVERY_MODE_LABELS: Record<DeliveryMode, string> = {
+  ALL_AT_ONCE: "All questions on one page",
+  PAGED: "One question at a time",
+  ADAPTIVE: "Adaptive (difficulty follows the learner)",
+};
+
+export type QuizVisibility = "PUBLIC" | "UNLISTED" | "ACCESS_CODE";
+
+export const VISIBILITY_LABELS: Record<QuizVisibility, string> = {
+  PUBLIC: "Public (listed)",
+  UNLISTED: "Unlisted (anyone with the link)",
+  ACCESS_CODE: "Access code required",
+};
+
+const ACCESS_CODE_MIN_LENGTH = 4;
+
+export type QuizSettings = {
+  scoringPolicy: ScoringPolicy;
+  wrongAnswerPenalty: number;
+  revealPolicy: RevealPolicy;
+  maxAttempts: number | null;
+  attemptCooldownSeconds: number | null;
+  finalScorePolicy: FinalScorePolicy;
+  shuffleQuestions: boolean;
+  shuffleChoices: boolean;
+  drawCount: number | null;
+  deliveryMode: DeliveryMode;
+  allowBackNavigation: boolean;
+  allowPractice: boolean;
+  // ISO timestamps; null leaves that end of the window open.
+  opensAt: string | null;
+  closesAt: string | null;
+  visibility: QuizVisibility;
+  // Whether an access code is set; the code itself can only be replaced.
+  hasAccessCode: boolean;
+  // Percentage of the points needed to pass; null passes any graded attempt.
+  passPercent: number | null;
+  // Quizzes to pass before this one can be started.
+  prerequisiteQuizIds: string[];
+};
+
+export type QuizSettingsUpdate = Omit<QuizSettings, "hasAccessCode"> & { accessCode?: string };
+
+// Blank means "no limit"; anything else is rounded down to a whole number.
+function parseOptionalCount(value: string, scale = 1) {
+  if (!value.trim()) return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n * scale) : null;
+}
+
+// <input type="datetime-local"> works in the browser's time zone, without an offset.
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function fromLocalInput(value: string) {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+export function QuizSettingsForm(props: {
+  settings: QuizSettings;
+  // Candidates for prerequisites: every other quiz.
+  otherQuizzes: { id: string; title: string }[];
+  isSaving: boolean;
+  error: string | null;
+  onSave: (settings: QuizSettingsUpdate) => void;
+}) {
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy>(props.settings.scoringPolicy);
+  const [wrongAnswerPenalty, setWrongAnswerPenalty] = useState(String(props.settings.wrongAnswerPenalty));
+  const [revealPolicy, setRevealPolicy] = useState<RevealPolicy>(props.settings.revealPolicy);
+  const [maxAttempts, setMaxAttempts] = useState(props.settings.maxAttempts?.toString() ?? "");
+  const [cooldownMinutes, setCooldownMinutes] = useState(
+    props.settings.attemptCooldownSeconds ? String(props.settings.attemptCooldownSeconds / 60) : ""
+  );
+  const [finalScorePolicy, setFinalScorePolicy] = useState<FinalScorePolicy>(props.settings.finalScorePolicy);
+  const [shuffleQuestions, setShuffleQuestions] = useState(props.settings.shuffleQuestions);
+  const [shuffleChoices, setShuffleChoices] = useState(props.settings.shuffleChoices);
+  const [drawCount, setDrawCount] = useState(props.settings.drawCount?.toString() ?? "");
+  const [deliveryMode, setDeliveryMode] = useState<DeliveryMode>(props.settings.deliveryMode);
+  const [allowBackNavigation, setAllowBackNavigation] = useState(props.settings.allowBackNavigation);
+  const [allowPractice, setAllowPractice] = useState(props.settings.allowPractice);
+  const [opensAt, setOpensAt] = useState(toLocalInput(props.settings.opensAt));
+  const [closesAt, setClosesAt] = useState(toLocalInput(props.settings.closesAt));
+  const [visibility, setVisibility] = useState<QuizVisibility>(props.settings.visibility);
+  const [accessCode, setAccessCode] = useState("");
+  const [passPercent, setPassPercent] = useState(props.settings.passPercent?.toString() ?? "");
+  const [prerequisiteQuizIds, setPrerequisiteQuizIds] = useState(props.settings.prerequisiteQuizIds);
+  const [timeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+  // A protected quiz needs a code before it can be saved; a set code is only replaced when one is typed.
+  const needsAccessCode = visibility === "ACCESS_CODE" && !props.settings.hasAccessCode;
+  const accessCodeTooShort =
+    visibility === "ACCESS_CODE" &&
+    (accessCode.trim() ? accessCode.trim().length < ACCESS_CODE_MIN_LENGTH : needsAccessCode);
+
+  return (
+    <section className="mt-6 rounded-md border border-neutral-200 bg-white p-4">
+      <h2 className="text-sm font-semibold">Settings</h2>
+      <p className="mt-1 text-xs text-neutral-600">
+        Once the quiz is published, changes here reach learners with its next version. Prerequisites change straight
+        away.
+      </p>
+
+      <div className="mt-3 grid gap-3">
+        <label className="block">
+          <span className="text-sm">Multiple-choice scoring</span>
+          <select
+            value={scoringPolicy}
+            onChange={(e) => setScoringPolicy(e.target.value as ScoringPolicy)}
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          >
+            {(Object.keys(SCORING_POLICY_LABELS) as ScoringPolicy[]).map((p) => (
+              <option key={p} value={p}>
+                {SCORING_POLICY_LABELS[p]}
+              </option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs text-neutral-600">
+            Individual questions can override this.
+          </span>
+        </label>
+
+        <label className="block">
+          <span className="text-sm">Wrong-answer penalty</span>
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={wrongAnswerPenalty}
+            onChange={(e) => setWrongAnswerPenalty(e.target.value)}
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          />
+          <span className="mt-1 block text-xs text-neutral-600">
+            Fraction of a question&apos;s points deducted for a wrong answer (0 disables negative marking).
+          </span>
+        </label>
+
+        <label className="block">
+          <span className="text-sm">Show answers and rationales</span>
+          <select
+            value={revealPolicy}
+            onChange={(e) => setRevealPolicy(e.target.value as RevealPolicy)}
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          >
+            {(Object.keys(REVEAL_POLICY_LABELS) as RevealPolicy[]).map((p) => (
+              <option key={p} value={p}>
+                {REVEAL_POLICY_LABELS[p]}
+              </option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs text-neutral-600">
+            A quiz counts as closed once it is unpublished.
+          </span>
+        </label>
+
+        <label className="block">
+          <span className="text-sm">Maximum attempts</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={maxAttempts}
+            onChange={(e) => setMaxAttempts(e.target.value)}
+            placeholder="Unlimited"
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-sm">Cooldown between attempts (minutes)</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={cooldownMinutes}
+            onChange={(e) => setCooldownMinutes(e.target.value)}
+            placeholder="None"
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          />
+          <span className="mt-1 block text-xs text-neutral-600">
+            Measured from the learner&apos;s last submission.
+          </span>
+        </label>
+
+        <label className="block">
+          <span className="text-sm">Score that counts</span>
+          <select
+            value={finalScorePolicy}
+            onChange={(e) => setFinalScorePolicy(e.target.value as FinalScorePolicy)}
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          >
+            {(Object.keys(FINAL_SCORE_POLICY_LABELS) as FinalScorePolicy[]).map((p) => (
+              <option key={p} value={p}>
+                {FINAL_SCORE_POLICY_LABELS[p]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-sm">Questions per attempt</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={drawCount}
+            onChange={(e) => setDrawCount(e.target.value)}
+            placeholder="All"
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          />
+          <span className="mt-1 block text-xs text-neutral-600">
+            Each attempt draws this many questions at random, spread across pool groups. Adaptive quizzes stop after
+            this many.
+          </span>
+        </label>
+
+        <label className="block">
+          <span className="text-sm">Delivery</span>
+          <select
+            value={deliveryMode}
+            onChange={(e) => setDeliveryMode(e.target.value as DeliveryMode)}
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          >
+            {(Object.keys(DELIVERY_MODE_LABELS) as DeliveryMode[]).map((m) => (
+              <option key={m} value={m}>
+                {DELIVERY_MODE_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {deliveryMode === "PAGED" ? (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={allowBackNavigation}
+              onChange={(e) => setAllowBackNavigation(e.target.checked)}
+            />
+            Allow going back to earlier questions
+          </label>
+        ) : null}
+
+        <fieldset>
+          <legend className="text-sm">Shuffling</legend>
+          <label className="mt-1 flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={shuffleQuestions} onChange={(e) => setShuffleQuestions(e.target.checked)} />
+            Shuffle question order
+          </label>
+          <label className="mt-1 flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={shuffleChoices} onChange={(e) => setShuffleChoices(e.target.checked)} />
+            Shuffle choices
+          </label>
+          <span className="mt-1 block text-xs text-neutral-600">
+            Each attempt gets its own order. Anchored choices stay where they are.
+          </span>
+        </fieldset>
+
+        <label className="block">
+          <span className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={allowPractice} onChange={(e) => setAllowPractice(e.target.checked)} />
+            Allow practice mode
+          </span>
+          <span className="mt-1 block text-xs text-neutral-600">
+            Learners can check each answer as they go. Practice attempts don&apos;t count towards attempt limits or
+            scores.
+          </span>
+        </label>
+
+        <fieldset>
+          <legend className="text-sm">Availability ({timeZone})</legend>
+          <div className="mt-1 grid gap-3 sm:grid-cols-2">
+            <label className="block">
+              <span className="text-xs text-neutral-600">Opens</span>
+              <input
+                type="datetime-local"
+                value={opensAt}
+                onChange={(e) => setOpensAt(e.target.value)}
+                className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-neutral-600">Closes</span>
+              <input
+                type="datetime-local"
+                value={closesAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+                className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              />
+            </label>
+          </div>
+          <span className="mt-1 block text-xs text-neutral-600">
+            Leave blank for no limit. Before it opens the quiz is listed but can&apos;t be started; once it closes,
+            attempts in progress are submitted and no new ones start.
+          </span>
+        </fieldset>
+
+        <label className="block">
+          <span className="text-sm">Visibility</span>
+          <select
+            value={visibility}
+            onChange={(e) => setVisibility(e.target.value as QuizVisibility)}
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          >
+            {(Object.keys(VISIBILITY_LABELS) as QuizVisibility[]).map((v) => (
+              <option key={v} value={v}>
+                {VISIBILITY_LABELS[v]}
+              </option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs text-neutral-600">
+            Unlisted and code-protected quizzes are left off the quiz list; share the quiz link instead.
+          </span>
+        </label>
+
+        {visibility === "ACCESS_CODE" ? (
+          <label className="block">
+            <span className="text-sm">{props.settings.hasAccessCode ? "New access code" : "Access code"}</span>
+            <input
+              value={accessCode}
+              onChange={(e) => setAccessCode(e.target.value)}
+              placeholder={props.settings.hasAccessCode ? "Leave blank to keep the current code" : ""}
+              autoComplete="off"
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+            <span className="mt-1 block text-xs text-neutral-600">
+              At least {ACCESS_CODE_MIN_LENGTH} characters, not case-sensitive. Learners enter it before starting; it
+              is stored hashed and can&apos;t be shown again.
+            </span>
+          </label>
+        ) : null}
+
+        <label className="block">
+          <span className="text-sm">Pass mark (%)</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={passPercent}
+            onChange={(e) => setPassPercent(e.target.value)}
+            placeholder="Any score"
+            className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          />
+          <span className="mt-1 block text-xs text-neutral-600">
+            Quizzes that have this one as a prerequisite unlock once a learner reaches this mark.
+          </span>
+        </label>
+
+        <fieldset>
+          <legend className="text-sm">Prerequisites</legend>
+          {props.otherQuizzes.length ? (
+            <div className="mt-1 max-h-48 overflow-auto rounded-md border border-neutral-200 p-2">
+              {props.otherQuizzes.map((q) => (
+                <label key={q.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={prerequisiteQuizIds.includes(q.id)}
+                    onChange={(e) =>
+                      setPrerequisiteQuizIds((prev) =>
+                        e.target.checked ? [...prev, q.id] : prev.filter((id) => id !== q.id)
+                      )
+                    }
+                  />
+                  {q.title}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-1 text-xs text-neutral-600">There are no other quizzes yet.</p>
+          )}
+          <span className="mt-1 block text-xs text-neutral-600">
+            Learners must pass each of these, at its own pass mark, before starting this quiz.
+          </span>
+        </fieldset>
+      </div>
+
+      <button
+        type="button"
+        disabled={props.isSaving || accessCodeTooShort}
+        onClick={() =>
+          props.onSave({
+            scoringPolicy,
+            wrongAnswerPenalty: Number(wrongAnswerPenalty) || 0,
+            revealPolicy,
+            maxAttempts: parseOptionalCount(maxAttempts) || null,
+            attemptCooldownSeconds: parseOptionalCount(cooldownMinutes, 60) || null,
+            finalScorePolicy,
+            shuffleQuestions,
+            shuffleChoices,
+            drawCount: parseOptionalCount(drawCount) || null,
+            deliveryMode,
+            allowBackNavigation,
+            allowPractice,
+            opensAt: fromLocalInput(opensAt),
+            closesAt: fromLocalInput(closesAt),
+            visibility,
+            ...(visibility === "ACCESS_CODE" && accessCode.trim() ? { accessCode } : {}),
+            passPercent: passPercent.trim() ? Math.min(100, parseOptionalCount(passPercent) ?? 0) : null,
+            prerequisiteQuizIds,
+          })
+        }
+        className="mt-4 rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+      >
+        {props.isSaving ? "Saving…" : "Save settings"}
+      </button>
+
+      {props.error ? <p className="mt-3 text-sm text-red-700">{props.error}</p> : null}
+    </section>
+  );
+}
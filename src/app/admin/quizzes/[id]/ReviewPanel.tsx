@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+
+export type EditorialStatus = "DRAFT" | "IN_REVIEW" | "APPROVED" | "PUBLISHED";
+
+export type ReviewAction = "SUBMIT" | "REQUEST_CHANGES" | "APPROVE";
+
+export type Actor = { id: string; name: string | null; email: string } | null;
+
+export type Activity = {
+  id: string;
+  type: "SUBMITTED" | "CHANGES_REQUESTED" | "APPROVED" | "PUBLISHED" | "UNPUBLISHED" | "COMMENTED";
+  note: string | null;
+  createdAt: string;
+  actor: Actor;
+};
+
+export const EDITORIAL_STATUS_LABELS: Record<EditorialStatus, string> = {
+  DRAFT: "Draft",
+  IN_REVIEW: "In review",
+  APPROVED: "Approved",
+  PUBLISHED: "Published",
+};
+
+const STATUS_HINTS: Record<EditorialStatus, string> = {
+  DRAFT: "Submit the draft for review when it is ready. A reviewer has to approve it before it can be published.",
+  IN_REVIEW: "Questions, sections and settings are locked while a reviewer looks at them. Comments stay open.",
+  APPROVED: "Approved and ready to publish. Requesting changes unlocks the quiz again.",
+  PUBLISHED: "Learners have the latest approved draft. Editing a question starts a new draft.",
+};
+
+const ACTIVITY_LABELS: Record<Activity["type"], string> = {
+  SUBMITTED: "submitted the draft for review",
+  CHANGES_REQUESTED: "requested changes",
+  APPROVED: "approved the draft",
+  PUBLISHED: "published the quiz",
+  UNPUBLISHED: "unpublished the quiz",
+  COMMENTED: "commented",
+};
+
+export function actorName(actor: Actor) {
+  return actor ? (actor.name ?? actor.email) : "A deleted user";
+}
+
+// Review status, the actions open in it, and the quiz's activity timeline.
+export function ReviewPanel(props: {
+  status: EditorialStatus;
+  activity: Activity[];
+  isBusy: boolean;
+  error: string | null;
+  onAction: (action: ReviewAction, note: string) => void;
+}) {
+  const { status } = props;
+  const [note, setNote] = useState("");
+
+  const act = (action: ReviewAction) => {
+    props.onAction(action, note);
+    setNote("");
+  };
+
+  return (
+    <section className="mt-6 rounded-md border border-neutral-200 bg-white p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold">Review</h2>
+        <span className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-medium">
+          {EDITORIAL_STATUS_LABELS[status]}
+        </span>
+      </div>
+      <p className="mt-1 text-xs text-neutral-600">{STATUS_HINTS[status]}</p>
+
+      {status !== "PUBLISHED" ? (
+        <div className="mt-3 grid gap-2">
+          <label className="block">
+            <span className="text-sm">Note (required when requesting changes)</span>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              rows={2}
+            />
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {status === "DRAFT" ? (
+              <button
+                type="button"
+                disabled={props.isBusy}
+                onClick={() => act("SUBMIT")}
+                className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+              >
+                Submit for review
+              </button>
+            ) : null}
+            {status === "IN_REVIEW" ? (
+              <button
+                type="button"
+                disabled={props.isBusy}
+                onClick={() => act("APPROVE")}
+                className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+              >
+                Approve
+              </button>
+            ) : null}
+            {status === "IN_REVIEW" || status === "APPROVED" ? (
+              <button
+                type="button"
+                disabled={props.isBusy || !note.trim()}
+                onClick={() => act("REQUEST_CHANGES")}
+                className="rounded-md border border-neutral-300 px-4 py-2 text-sm disabled:opacity-60"
+              >
+                Request changes
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+      {props.error ? <p className="mt-2 text-sm text-red-700">{props.error}</p> : null}
+
+      <h3 className="mt-4 text-xs font-semibold uppercase tracking-wide text-neutral-600">Activity</h3>
+      {props.activity.length ? (
+        <ol className="mt-2 space-y-2 border-l border-neutral-200 pl-3">
+          {props.activity.map((entry) => (
+            <li key={entry.id} className="text-sm">
+              <div>
+                <span className="font-medium">{actorName(entry.actor)}</span> {ACTIVITY_LABELS[entry.type]}
+                <span className="text-xs text-neutral-600"> · {new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              {entry.note ? <p className="mt-0.5 whitespace-pre-wrap text-neutral-700">{entry.note}</p> : null}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="mt-2 text-sm text-neutral-600">Nothing yet.</p>
+      )}
+    </section>
+  );
+}
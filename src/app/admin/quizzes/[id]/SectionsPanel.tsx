@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+
+export type Section = {
+  id: string;
+  title: string;
+  instructions: string | null;
+  order: number;
+  timeLimitSeconds: number | null;
+  allowReturn: boolean;
+  _count: { questions: number };
+};
+
+export type SectionDraft = {
+  title: string;
+  instructions: string | null;
+  timeLimitSeconds: number | null;
+  allowReturn: boolean;
+};
+
+// Blank means "untimed"; minutes are stored as whole seconds.
+function parseTimeLimit(minutes: string) {
+  if (!minutes.trim()) return null;
+  const n = Number(minutes);
+  return Number.isFinite(n) && n > 0 ? Math.round(n * 60) : null;
+}
+
+function SectionFields(props: {
+  initial: SectionDraft;
+  submitLabel: string;
+  isBusy: boolean;
+  onSubmit: (draft: SectionDraft) => void;
+}) {
+  const [title, setTitle] = useState(props.initial.title);
+  const [instructions, setInstructions] = useState(props.initial.instructions ?? "");
+  const [minutes, setMinutes] = useState(
+    props.initial.timeLimitSeconds ? String(props.initial.timeLimitSeconds / 60) : ""
+  );
+  const [allowReturn, setAllowReturn] = useState(props.initial.allowReturn);
+
+  return (
+    <div className="grid gap-3">
+      <label className="block">
+        <span className="text-sm">Title</span>
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Part A"
+          className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-sm">Instructions (optional)</span>
+        <textarea
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+          rows={2}
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-sm">Time limit (minutes)</span>
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={minutes}
+          onChange={(e) => setMinutes(e.target.value)}
+          placeholder="None"
+          className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+        />
+        <span className="mt-1 block text-xs text-neutral-600">
+          Starts when the learner first opens the section and keeps running if they leave it.
+        </span>
+      </label>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={allowReturn} onChange={(e) => setAllowReturn(e.target.checked)} />
+        Allow coming back to this section after moving on
+      </label>
+
+      <div>
+        <button
+          type="button"
+          disabled={props.isBusy || !title.trim()}
+          onClick={() =>
+            props.onSubmit({
+              title,
+              instructions: instructions.trim() ? instructions : null,
+              timeLimitSeconds: parseTimeLimit(minutes),
+              allowReturn,
+            })
+          }
+          className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+        >
+          {props.submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const EMPTY_SECTION: SectionDraft = { title: "", instructions: null, timeLimitSeconds: null, allowReturn: true };
+
+export function SectionsPanel(props: {
+  sections: Section[];
+  isBusy: boolean;
+  error: string | null;
+  onCreate: (draft: SectionDraft) => void;
+  onUpdate: (id: string, draft: SectionDraft) => void;
+  onMove: (id: string, direction: "UP" | "DOWN") => void;
+  onDelete: (id: string) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Remounts the add form once a section is created, clearing it.
+  const [createKey, setCreateKey] = useState(0);
+  const { sections } = props;
+
+  return (
+    <section className="mt-6 rounded-md border border-neutral-200 bg-white p-4">
+      <h2 className="text-sm font-semibold">Sections</h2>
+      <p className="mt-1 text-xs text-neutral-600">
+        Split the quiz into parts taken one after another. Questions outside every section come last. Learners see a new
+        section once questions in it are published.
+      </p>
+
+      {sections.length ? (
+        <ol className="mt-3 space-y-2">
+          {sections.map((s, index) => (
+            <li key={s.id} className="rounded-md border border-neutral-200 p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-medium">{s.title}</p>
+                  <p className="mt-1 text-xs text-neutral-600">
+                    {s._count.questions} question{s._count.questions === 1 ? "" : "s"} ·{" "}
+                    {s.timeLimitSeconds ? `${Math.round(s.timeLimitSeconds / 60)} min` : "untimed"} ·{" "}
+                    {s.allowReturn ? "can return" : "no return"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <button
+                    type="button"
+                    disabled={props.isBusy || index === 0}
+                    onClick={() => props.onMove(s.id, "UP")}
+                    className="rounded-md border border-neutral-300 px-2 py-1 disabled:opacity-40"
+                  >
+                    Up
+                  </button>
+                  <button
+                    type="button"
+                    disabled={props.isBusy || index === sections.length - 1}
+                    onClick={() => props.onMove(s.id, "DOWN")}
+                    className="rounded-md border border-neutral-300 px-2 py-1 disabled:opacity-40"
+                  >
+                    Down
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(editingId === s.id ? null : s.id)}
+                    className="rounded-md border border-neutral-300 px-2 py-1"
+                  >
+                    {editingId === s.id ? "Close" : "Edit"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={props.isBusy}
+                    onClick={() => {
+                      if (!confirm("Delete this section? Its questions are kept, outside any section.")) return;
+                      props.onDelete(s.id);
+                    }}
+                    className="rounded-md border border-red-300 px-2 py-1 text-red-700 disabled:opacity-40"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {editingId === s.id ? (
+                <div className="mt-3">
+                  <SectionFields
+                    initial={s}
+                    submitLabel="Save section"
+                    isBusy={props.isBusy}
+                    onSubmit={(draft) => {
+                      props.onUpdate(s.id, draft);
+                      setEditingId(null);
+                    }}
+                  />
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      ) : null}
+
+      <div className="mt-4">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-neutral-600">Add section</h3>
+        <div className="mt-2">
+          <SectionFields
+            key={createKey}
+            initial={EMPTY_SECTION}
+            submitLabel="Add section"
+            isBusy={props.isBusy}
+            onSubmit={(draft) => {
+              props.onCreate(draft);
+              setCreateKey((k) => k + 1);
+            }}
+          />
+        </div>
+      </div>
+
+      {props.error ? <p className="mt-3 text-sm text-red-700">{props.error}</p> : null}
+    </section>
+  );
+}
@@ -4,9 +4,38 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useMemo, useState } from "react";
 import Link from "next/link";
 
-type QuestionType = "SINGLE_CHOICE" | "MULTIPLE_CHOICE";
+import {
+  QuizSettingsForm,
+  SCORING_POLICY_LABELS,
+  type QuizSettings,
+  type QuizSettingsUpdate,
+  type ScoringPolicy,
+} from "./QuizSettingsForm";
+import { ImportPanel, type ImportRequest, type ImportResult } from "./ImportPanel";
+import { CommentThread, type QuestionComment } from "./CommentThread";
+import { PublishPanel, type VersionStatus } from "./PublishPanel";
+import { ReviewPanel, type Activity, type EditorialStatus, type ReviewAction } from "./ReviewPanel";
+import { SectionsPanel, type Section, type SectionDraft } from "./SectionsPanel";
 
-type Choice = { id: string; text: string; isCorrect: boolean; order: number };
+type QuestionType = "SINGLE_CHOICE" | "MULTIPLE_CHOICE" | "NUMERIC" | "SHORT_TEXT" | "ORDERING" | "MATCHING";
+
+type NumericMode = "EXACT" | "ABSOLUTE" | "RELATIVE" | "RANGE";
+
+type Choice = {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+  isAnchored: boolean;
+  order: number;
+  matchTargetId: string | null;
+};
+
+type MatchTarget = { id: string; text: string; order: number };
+
+// Editor row; `match` is the right-hand text for MATCHING items.
+type ChoiceDraft = { id?: string; text: string; isCorrect: boolean; isAnchored?: boolean; match?: string };
+
+type AcceptedAnswer = { text: string; isRegex: boolean };
 
 type Question = {
   id: string;
@@ -15,13 +44,34 @@ type Question = {
   order: number;
   hint: string | null;
   rationale: string | null;
+  scoringPolicy: ScoringPolicy | null;
+  points: number;
+  poolGroup: string | null;
+  difficulty: number;
+  sectionId: string | null;
+  numericMode: NumericMode | null;
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  numericMin: number | null;
+  numericMax: number | null;
   choices: Choice[];
+  acceptedAnswers: Array<AcceptedAnswer & { id: string; order: number }>;
+  matchTargets: MatchTarget[];
 };
 
-type Quiz = { id: string; title: string };
+type Quiz = QuizSettings & { id: string; title: string; updatedAt: string; editorialStatus: EditorialStatus };
 
 type ApiError = { ok: false; error: { message: string } };
 
+// Adaptive quizzes step through these levels.
+const DIFFICULTY_LABELS: Record<number, string> = {
+  1: "1 – Easiest",
+  2: "2 – Easy",
+  3: "3 – Medium",
+  4: "4 – Hard",
+  5: "5 – Hardest",
+};
+
 function getIdFromPathname(): string {
   // /admin/quizzes/<id>
   const parts = window.location.pathname.split("/").filter(Boolean);
@@ -41,21 +91,174 @@ async function apiJson<T>(url: string, init?: RequestInit): Promise<T> {
   return json as T;
 }
 
-function normalizeChoices(raw: Array<{ id?: string; text: string; isCorrect: boolean }>): Array<{ id?: string; text: string; isCorrect: boolean }> {
+function isChoiceType(type: QuestionType) {
+  return type === "SINGLE_CHOICE" || type === "MULTIPLE_CHOICE";
+}
+
+// ORDERING keeps its key in the choice list itself: the saved order is the answer.
+// MATCHING uses the choices as left-hand items.
+function usesChoices(type: QuestionType) {
+  return isChoiceType(type) || type === "ORDERING" || type === "MATCHING";
+}
+
+// Types whose partial credit follows a scoring policy.
+function hasScoringPolicy(type: QuestionType) {
+  return type === "MULTIPLE_CHOICE" || type === "ORDERING" || type === "MATCHING";
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+function normalizeChoices(raw: ChoiceDraft[]): ChoiceDraft[] {
   return raw
-    .map((c) => ({ id: c.id, text: c.text.trim(), isCorrect: !!c.isCorrect }))
+    .map((c) => ({
+      id: c.id,
+      text: c.text.trim(),
+      isCorrect: !!c.isCorrect,
+      isAnchored: !!c.isAnchored,
+      match: c.match?.trim(),
+    }))
     .filter((c) => c.text.length > 0);
 }
 
-function validateQuestion(type: QuestionType, prompt: string, choices: Array<{ text: string; isCorrect: boolean }>): string | null {
+function choicesFromQuestion(q: Question): ChoiceDraft[] {
+  const targetText = new Map(q.matchTargets.map((t) => [t.id, t.text] as const));
+  return q.choices
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .map((c) => ({
+      id: c.id,
+      text: c.text,
+      isCorrect: c.isCorrect,
+      isAnchored: c.isAnchored,
+      ...(q.type === "MATCHING" ? { match: targetText.get(c.matchTargetId ?? "") ?? "" } : {}),
+    }));
+}
+
+// Distractors are edited one per line.
+function distractorsFromQuestion(q: Question): string {
+  const linked = new Set(q.choices.map((c) => c.matchTargetId));
+  return q.matchTargets
+    .filter((t) => !linked.has(t.id))
+    .map((t) => t.text)
+    .join("\n");
+}
+
+function parseDistractors(raw: string): string[] {
+  return raw
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+// Form state for a NUMERIC answer key; inputs stay as strings until saved.
+type NumericKeyDraft = { mode: NumericMode; answer: string; tolerance: string; min: string; max: string };
+
+type NumericKeyPayload = {
+  numericMode: NumericMode;
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  numericMin: number | null;
+  numericMax: number | null;
+};
+
+const EMPTY_NUMERIC_KEY: NumericKeyDraft = { mode: "EXACT", answer: "", tolerance: "", min: "", max: "" };
+
+function numericKeyFromQuestion(q: Question): NumericKeyDraft {
+  const str = (v: number | null) => (v == null ? "" : String(v));
+  return {
+    mode: q.numericMode ?? "EXACT",
+    answer: str(q.numericAnswer),
+    tolerance: str(q.numericTolerance),
+    min: str(q.numericMin),
+    max: str(q.numericMax),
+  };
+}
+
+function numericKeyPayload(key: NumericKeyDraft): NumericKeyPayload {
+  const num = (v: string) => (v.trim() === "" ? null : Number(v));
+  return {
+    numericMode: key.mode,
+    numericAnswer: num(key.answer),
+    numericTolerance: num(key.tolerance),
+    numericMin: num(key.min),
+    numericMax: num(key.max),
+  };
+}
+
+function validateNumericKey(key: NumericKeyDraft): string | null {
+  const isNum = (v: string) => v.trim() !== "" && Number.isFinite(Number(v));
+  if (key.mode === "RANGE") {
+    if (!isNum(key.min) || !isNum(key.max)) return "Range needs a minimum and a maximum";
+    if (Number(key.min) > Number(key.max)) return "Range minimum must not exceed the maximum";
+    return null;
+  }
+  if (!isNum(key.answer)) return "Correct value is required";
+  if (key.mode !== "EXACT" && (!isNum(key.tolerance) || Number(key.tolerance) < 0)) {
+    return "Tolerance must be a non-negative number";
+  }
+  return null;
+}
+
+const EMPTY_ACCEPTED_ANSWERS: AcceptedAnswer[] = [{ text: "", isRegex: false }];
+
+function normalizeAcceptedAnswers(raw: AcceptedAnswer[]): AcceptedAnswer[] {
+  return raw.map((a) => ({ text: a.text.trim(), isRegex: a.isRegex })).filter((a) => a.text.length > 0);
+}
+
+function validateAcceptedAnswers(answers: AcceptedAnswer[]): string | null {
+  if (answers.length < 1) return "Add at least 1 accepted answer";
+  for (const a of answers) {
+    if (!a.isRegex) continue;
+    try {
+      new RegExp(a.text, "iu");
+    } catch {
+      return `Invalid pattern: ${a.text}`;
+    }
+  }
+  return null;
+}
+
+function validateQuestion(
+  type: QuestionType,
+  prompt: string,
+  choices: ChoiceDraft[],
+  numericKey: NumericKeyDraft,
+  acceptedAnswers: AcceptedAnswer[]
+): string | null {
   if (prompt.trim().length === 0) return "Prompt is required";
+  if (type === "NUMERIC") return validateNumericKey(numericKey);
+  if (type === "SHORT_TEXT") return validateAcceptedAnswers(acceptedAnswers);
   if (choices.length < 2) return "At least 2 choices are required";
+  if (type === "ORDERING") return null;
+  if (type === "MATCHING") return choices.every((c) => c.match) ? null : "Every item needs a match";
   const correctCount = choices.filter((c) => c.isCorrect).length;
   if (correctCount < 1) return "Mark at least 1 correct choice";
   if (type === "SINGLE_CHOICE" && correctCount !== 1) return "Single choice must have exactly 1 correct choice";
   return null;
 }
 
+type QuestionUpdatePayload = Partial<NumericKeyPayload> & {
+  id: string;
+  prompt: string;
+  type: QuestionType;
+  hint: string | null;
+  rationale: string | null;
+  scoringPolicy: ScoringPolicy | null;
+  points: number;
+  poolGroup: string | null;
+  difficulty: number;
+  sectionId: string | null;
+  choices: ChoiceDraft[];
+  acceptedAnswers?: AcceptedAnswer[];
+  distractors?: string[];
+};
+
 export default function AdminQuizEditorPage() {
   const quizId = useMemo(() => getIdFromPathname(), []);
   const qc = useQueryClient();
@@ -63,16 +266,25 @@ export default function AdminQuizEditorPage() {
   const [prompt, setPrompt] = useState("");
   const [type, setType] = useState<QuestionType>("SINGLE_CHOICE");
   const [hint, setHint] = useState("");
+  const [poolGroup, setPoolGroup] = useState("");
+  const [difficulty, setDifficulty] = useState(3);
+  const [sectionId, setSectionId] = useState("");
   const [rationale, setRationale] = useState("");
-  const [choices, setChoices] = useState<Array<{ text: string; isCorrect: boolean }>>([
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy | "">("");
+  const [points, setPoints] = useState("1");
+  const [numericKey, setNumericKey] = useState<NumericKeyDraft>(EMPTY_NUMERIC_KEY);
+  const [acceptedAnswers, setAcceptedAnswers] = useState<AcceptedAnswer[]>(EMPTY_ACCEPTED_ANSWERS);
+  const [choices, setChoices] = useState<ChoiceDraft[]>([
     { text: "", isCorrect: true },
     { text: "", isCorrect: false },
   ]);
+  const [distractors, setDistractors] = useState("");
 
   const quizQuery = useQuery({
     queryKey: ["admin", "quiz", quizId],
     enabled: !!quizId,
-    queryFn: () => apiJson<{ ok: true; quiz: Quiz }>(`/api/admin/quiz?id=${encodeURIComponent(quizId)}`),
+    queryFn: () =>
+      apiJson<{ ok: true; quiz: Quiz; versions: VersionStatus }>(`/api/admin/quiz?id=${encodeURIComponent(quizId)}`),
   });
 
   const questionsQuery = useQuery({
@@ -81,10 +293,38 @@ export default function AdminQuizEditorPage() {
     queryFn: () => apiJson<{ ok: true; questions: Question[] }>(`/api/admin/question?quizId=${encodeURIComponent(quizId)}`),
   });
 
+  const quizzesQuery = useQuery({
+    queryKey: ["admin", "quizzes"],
+    queryFn: () => apiJson<{ ok: true; quizzes: Array<{ id: string; title: string }> }>("/api/admin/quiz"),
+  });
+
+  const sectionsQuery = useQuery({
+    queryKey: ["admin", "sections", quizId],
+    enabled: !!quizId,
+    queryFn: () => apiJson<{ ok: true; sections: Section[] }>(`/api/admin/section?quizId=${encodeURIComponent(quizId)}`),
+  });
+
+  const activityQuery = useQuery({
+    queryKey: ["admin", "activity", quizId],
+    enabled: !!quizId,
+    queryFn: () =>
+      apiJson<{ ok: true; activity: Activity[] }>(`/api/admin/quiz/review?id=${encodeURIComponent(quizId)}`),
+  });
+
+  const commentsQuery = useQuery({
+    queryKey: ["admin", "comments", quizId],
+    enabled: !!quizId,
+    queryFn: () =>
+      apiJson<{ ok: true; comments: QuestionComment[] }>(
+        `/api/admin/question/comment?quizId=${encodeURIComponent(quizId)}`
+      ),
+  });
+
   const createQuestionMutation = useMutation({
     mutationFn: async () => {
       const normalized = normalizeChoices(choices);
-      const err = validateQuestion(type, prompt, normalized);
+      const normalizedAccepted = normalizeAcceptedAnswers(acceptedAnswers);
+      const err = validateQuestion(type, prompt, normalized, numericKey, normalizedAccepted);
       if (err) throw new Error(err);
 
       return apiJson<{ ok: true; question: Question }>("/api/admin/question", {
@@ -95,38 +335,98 @@ export default function AdminQuizEditorPage() {
           type,
           hint: hint.trim() ? hint : null,
           rationale: rationale.trim() ? rationale : null,
-          choices: normalized,
+          scoringPolicy: hasScoringPolicy(type) && scoringPolicy ? scoringPolicy : null,
+          points: Number(points),
+          poolGroup: poolGroup.trim() || null,
+          difficulty,
+          sectionId: sectionId || null,
+          ...(type === "NUMERIC" ? numericKeyPayload(numericKey) : {}),
+          ...(type === "SHORT_TEXT" ? { acceptedAnswers: normalizedAccepted } : {}),
+          ...(type === "MATCHING" ? { distractors: parseDistractors(distractors) } : {}),
+          choices: usesChoices(type) ? normalized : [],
         }),
       });
     },
     onSuccess: async () => {
       setPrompt("");
       setHint("");
+      setPoolGroup("");
+      setDifficulty(3);
       setRationale("");
+      setScoringPolicy("");
+      setPoints("1");
+      setNumericKey(EMPTY_NUMERIC_KEY);
+      setAcceptedAnswers(EMPTY_ACCEPTED_ANSWERS);
+      setDistractors("");
       setType("SINGLE_CHOICE");
       setChoices([
         { text: "", isCorrect: true },
         { text: "", isCorrect: false },
       ]);
       await qc.invalidateQueries({ queryKey: ["admin", "questions", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "sections", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
     },
   });
 
   const updateQuestionMutation = useMutation({
-    mutationFn: (payload: {
-      id: string;
-      prompt: string;
-      type: QuestionType;
-      hint: string | null;
-      rationale: string | null;
-      choices: Array<{ id?: string; text: string; isCorrect: boolean }>;
-    }) =>
+    mutationFn: (payload: QuestionUpdatePayload) =>
       apiJson<{ ok: true; question: Question }>("/api/admin/question", {
         method: "PUT",
         body: JSON.stringify(payload),
       }),
     onSuccess: async () => {
       await qc.invalidateQueries({ queryKey: ["admin", "questions", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
+    },
+  });
+
+  const updateQuizMutation = useMutation({
+    mutationFn: (settings: QuizSettingsUpdate) =>
+      apiJson<{ ok: true; quiz: Quiz }>("/api/admin/quiz", {
+        method: "PUT",
+        body: JSON.stringify({ id: quizId, ...settings }),
+      }),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "activity", quizId] });
+    },
+  });
+
+  // Freezes the approved draft's questions as the next version; a first publish also lists the quiz.
+  const publishMutation = useMutation({
+    mutationFn: (isFirst: boolean) =>
+      apiJson<{ ok: true; quiz: Quiz }>("/api/admin/quiz", {
+        method: "PUT",
+        body: JSON.stringify({ id: quizId, publish: true, ...(isFirst ? { isPublished: true } : {}) }),
+      }),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "activity", quizId] });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: (payload: { action: ReviewAction; note: string }) =>
+      apiJson<{ ok: true; status: EditorialStatus }>("/api/admin/quiz/review", {
+        method: "POST",
+        body: JSON.stringify({ id: quizId, ...payload }),
+      }),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "activity", quizId] });
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: (payload: { questionId: string; body: string }) =>
+      apiJson<{ ok: true; comment: QuestionComment }>("/api/admin/question/comment", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      }),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["admin", "comments", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "activity", quizId] });
     },
   });
 
@@ -138,6 +438,54 @@ export default function AdminQuizEditorPage() {
       }),
     onSuccess: async () => {
       await qc.invalidateQueries({ queryKey: ["admin", "questions", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
+    },
+  });
+
+  // Sections change which questions belong where, so both lists are refreshed.
+  const sectionMutation = useMutation({
+    mutationFn: (
+      payload:
+        | { action: "create"; draft: SectionDraft }
+        | { action: "update"; id: string; draft: SectionDraft }
+        | { action: "move"; id: string; direction: "UP" | "DOWN" }
+        | { action: "delete"; id: string }
+    ) => {
+      const [method, body] =
+        payload.action === "create"
+          ? ["POST", { quizId, ...payload.draft }]
+          : payload.action === "update"
+            ? ["PUT", { id: payload.id, ...payload.draft }]
+            : payload.action === "move"
+              ? ["PUT", { id: payload.id, move: payload.direction }]
+              : ["DELETE", { id: payload.id }];
+      return apiJson<{ ok: true }>("/api/admin/section", { method, body: JSON.stringify(body) });
+    },
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["admin", "sections", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "questions", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (payload: ImportRequest) => {
+      const res = await fetch("/api/admin/question/import", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ quizId, ...payload }),
+      });
+      const json = (await res.json().catch(() => null)) as ImportResult | ApiError | null;
+      // A rejected import still lists the rows at fault.
+      if (json && "errors" in json) return json;
+      if (!res.ok) throw new Error((json as ApiError | null)?.error?.message ?? "Request failed");
+      return json as ImportResult;
+    },
+    onSuccess: async (result) => {
+      if (!("importedCount" in result)) return;
+      await qc.invalidateQueries({ queryKey: ["admin", "sections", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "questions", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
     },
   });
 
@@ -149,18 +497,23 @@ export default function AdminQuizEditorPage() {
       }),
     onSuccess: async () => {
       await qc.invalidateQueries({ queryKey: ["admin", "questions", quizId] });
+      await qc.invalidateQueries({ queryKey: ["admin", "quiz", quizId] });
     },
   });
 
-  const quizTitle = quizQuery.data?.quiz?.title ?? "Quiz";
+  const quiz = quizQuery.data?.quiz;
+  const versions = quizQuery.data?.versions;
+  const quizTitle = quiz?.title ?? "Quiz";
   const questions = (questionsQuery.data?.questions ?? []).slice().sort((a, b) => a.order - b.order);
+  const sections = sectionsQuery.data?.sections ?? [];
+  const comments = commentsQuery.data?.comments ?? [];
 
   return (
     <main className="mx-auto w-full max-w-4xl p-6">
       <div className="flex items-start justify-between gap-4">
         <div>
           <h1 className="text-xl font-semibold">{quizTitle}</h1>
-          <p className="mt-1 text-sm text-neutral-600">Edit questions (hint/rationale supported).</p>
+          <p className="mt-1 text-sm text-neutral-600">Edit questions in the draft (hint/rationale supported).</p>
         </div>
         <div className="flex items-center gap-3">
           <Link className="text-sm underline" href="/admin/quizzes">
@@ -173,9 +526,72 @@ export default function AdminQuizEditorPage() {
           >
             Preview
           </button>
+          <span className="text-sm text-neutral-600">
+            Export:{" "}
+            {(["JSON", "CSV", "GIFT", "AIKEN", "QTI"] as const).map((format, i) => (
+              <span key={format}>
+                {i > 0 ? " · " : null}
+                <a
+                  className="underline"
+                  href={`/api/admin/quiz/export?id=${encodeURIComponent(quizId)}&format=${format}`}
+                  download
+                >
+                  {format}
+                </a>
+              </span>
+            ))}
+          </span>
         </div>
       </div>
 
+      {quiz && activityQuery.data ? (
+        <ReviewPanel
+          status={quiz.editorialStatus}
+          activity={activityQuery.data.activity}
+          isBusy={reviewMutation.isPending}
+          error={reviewMutation.isError ? String(reviewMutation.error.message) : null}
+          onAction={(action, note) => reviewMutation.mutate({ action, note })}
+        />
+      ) : null}
+
+      {quiz && versions ? (
+        <PublishPanel
+          versions={versions}
+          status={quiz.editorialStatus}
+          isBusy={publishMutation.isPending}
+          error={publishMutation.isError ? String(publishMutation.error.message) : null}
+          onPublish={() => publishMutation.mutate(!versions.live)}
+        />
+      ) : null}
+
+      {quiz ? (
+        <QuizSettingsForm
+          key={quiz.updatedAt}
+          settings={quiz}
+          otherQuizzes={(quizzesQuery.data?.quizzes ?? []).filter((q) => q.id !== quizId)}
+          isSaving={updateQuizMutation.isPending}
+          error={updateQuizMutation.isError ? String(updateQuizMutation.error.message) : null}
+          onSave={(settings) => updateQuizMutation.mutate(settings)}
+        />
+      ) : null}
+
+      <SectionsPanel
+        sections={sections}
+        isBusy={sectionMutation.isPending}
+        error={sectionMutation.isError ? String(sectionMutation.error.message) : null}
+        onCreate={(draft) => sectionMutation.mutate({ action: "create", draft })}
+        onUpdate={(id, draft) => sectionMutation.mutate({ action: "update", id, draft })}
+        onMove={(id, direction) => sectionMutation.mutate({ action: "move", id, direction })}
+        onDelete={(id) => sectionMutation.mutate({ action: "delete", id })}
+      />
+
+      <ImportPanel
+        isBusy={importMutation.isPending}
+        error={importMutation.isError ? String(importMutation.error.message) : null}
+        result={importMutation.data ?? null}
+        onRun={(request) => importMutation.mutate(request)}
+      />
+
       <section className="mt-6 rounded-md border border-neutral-200 bg-white p-4">
         <h2 className="text-sm font-semibold">Add question</h2>
 
@@ -200,9 +616,43 @@ export default function AdminQuizEditorPage() {
             >
               <option value="SINGLE_CHOICE">Single choice</option>
               <option value="MULTIPLE_CHOICE">Multiple choice</option>
+              <option value="NUMERIC">Numeric</option>
+              <option value="SHORT_TEXT">Short text</option>
+              <option value="ORDERING">Ordering</option>
+              <option value="MATCHING">Matching</option>
             </select>
           </label>
 
+          {hasScoringPolicy(type) ? (
+            <label className="block">
+              <span className="text-sm">Scoring</span>
+              <select
+                value={scoringPolicy}
+                onChange={(e) => setScoringPolicy(e.target.value as ScoringPolicy | "")}
+                className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              >
+                <option value="">Quiz default</option>
+                {(Object.keys(SCORING_POLICY_LABELS) as ScoringPolicy[]).map((p) => (
+                  <option key={p} value={p}>
+                    {SCORING_POLICY_LABELS[p]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          <label className="block">
+            <span className="text-sm">Points</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={points}
+              onChange={(e) => setPoints(e.target.value)}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+          </label>
+
           <label className="block">
             <span className="text-sm">Prompt</span>
             <textarea
@@ -213,59 +663,188 @@ export default function AdminQuizEditorPage() {
             />
           </label>
 
-          <div className="grid gap-2">
-            <div className="flex items-center justify-between">
-              <div className="text-sm font-medium">Choices</div>
-              <button
-                type="button"
-                className="rounded-md border border-neutral-300 px-3 py-1.5 text-sm"
-                onClick={() => setChoices((prev) => [...prev, { text: "", isCorrect: false }])}
-              >
-                Add choice
-              </button>
-            </div>
-
-            {choices.map((c, idx) => (
-              <div key={idx} className="flex items-center gap-2">
-                <input
-                  type={type === "SINGLE_CHOICE" ? "radio" : "checkbox"}
-                  name="correct"
-                  checked={c.isCorrect}
-                  onChange={(e) => {
-                    const checked = e.target.checked;
-                    setChoices((prev) =>
-                      prev.map((x, i) => {
-                        if (type === "SINGLE_CHOICE") return { ...x, isCorrect: i === idx };
-                        return i === idx ? { ...x, isCorrect: checked } : x;
-                      })
-                    );
-                  }}
-                />
-                <input
-                  value={c.text}
-                  onChange={(e) => {
-                    const v = e.target.value;
-                    setChoices((prev) => prev.map((x, i) => (i === idx ? { ...x, text: v } : x)));
-                  }}
-                  className="w-full rounded-md border border-neutral-300 px-3 py-2"
-                  placeholder={`Choice ${idx + 1}`}
-                />
+          {type === "NUMERIC" ? (
+            <NumericKeyFields value={numericKey} onChange={setNumericKey} />
+          ) : type === "SHORT_TEXT" ? (
+            <AcceptedAnswersFields value={acceptedAnswers} onChange={setAcceptedAnswers} />
+          ) : (
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium">
+                  {type === "ORDERING" ? "Items (in the correct order)" : type === "MATCHING" ? "Pairs" : "Choices"}
+                </div>
                 <button
                   type="button"
-                  className="rounded-md border border-neutral-300 px-3 py-2 text-sm"
-                  onClick={() =>
-                    setChoices((prev) => {
-                      const next = prev.filter((_, i) => i !== idx);
-                      if (next.length >= 2) return next;
-                      return prev;
-                    })
-                  }
+                  className="rounded-md border border-neutral-300 px-3 py-1.5 text-sm"
+                  onClick={() => setChoices((prev) => [...prev, { text: "", isCorrect: false }])}
                 >
-                  Remove
+                  Add choice
                 </button>
               </div>
-            ))}
-          </div>
+
+              {type === "ORDERING" ? (
+                <p className="text-xs text-neutral-600">Learners see these items shuffled and must restore this order.</p>
+              ) : null}
+
+              {choices.map((c, idx) => (
+                <div key={idx} className="flex items-center gap-2">
+                  {type === "ORDERING" ? (
+                    <span className="w-6 shrink-0 text-right text-sm text-neutral-600">{idx + 1}.</span>
+                  ) : type === "MATCHING" ? null : (
+                    <input
+                      type={type === "SINGLE_CHOICE" ? "radio" : "checkbox"}
+                      name="correct"
+                      checked={c.isCorrect}
+                      onChange={(e) => {
+                        const checked = e.target.checked;
+                        setChoices((prev) =>
+                          prev.map((x, i) => {
+                            if (type === "SINGLE_CHOICE") return { ...x, isCorrect: i === idx };
+                            return i === idx ? { ...x, isCorrect: checked } : x;
+                          })
+                        );
+                      }}
+                    />
+                  )}
+                  <input
+                    value={c.text}
+                    onChange={(e) => {
+                      const v = e.target.value;
+                      setChoices((prev) => prev.map((x, i) => (i === idx ? { ...x, text: v } : x)));
+                    }}
+                    className="w-full rounded-md border border-neutral-300 px-3 py-2"
+                    placeholder={`Choice ${idx + 1}`}
+                  />
+                  {type === "SINGLE_CHOICE" || type === "MULTIPLE_CHOICE" ? (
+                    <label
+                      className="flex shrink-0 items-center gap-1 text-xs text-neutral-700"
+                      title="Keep this choice in place when choices are shuffled"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={Boolean(c.isAnchored)}
+                        onChange={(e) => {
+                          const checked = e.target.checked;
+                          setChoices((prev) => prev.map((x, i) => (i === idx ? { ...x, isAnchored: checked } : x)));
+                        }}
+                      />
+                      Anchor
+                    </label>
+                  ) : null}
+                  {type === "MATCHING" ? (
+                    <input
+                      value={c.match ?? ""}
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        setChoices((prev) => prev.map((x, i) => (i === idx ? { ...x, match: v } : x)));
+                      }}
+                      aria-label={`Match for item ${idx + 1}`}
+                      className="w-full rounded-md border border-neutral-300 px-3 py-2"
+                      placeholder="Matches…"
+                    />
+                  ) : null}
+                  {type === "ORDERING" ? (
+                    <>
+                      <button
+                        type="button"
+                        disabled={idx === 0}
+                        aria-label={`Move item ${idx + 1} up`}
+                        onClick={() => setChoices((prev) => moveItem(prev, idx, idx - 1))}
+                        className="rounded-md border border-neutral-300 px-3 py-2 text-sm disabled:opacity-60"
+                      >
+                        Up
+                      </button>
+                      <button
+                        type="button"
+                        disabled={idx === choices.length - 1}
+                        aria-label={`Move item ${idx + 1} down`}
+                        onClick={() => setChoices((prev) => moveItem(prev, idx, idx + 1))}
+                        className="rounded-md border border-neutral-300 px-3 py-2 text-sm disabled:opacity-60"
+                      >
+                        Down
+                      </button>
+                    </>
+                  ) : null}
+                  <button
+                    type="button"
+                    className="rounded-md border border-neutral-300 px-3 py-2 text-sm"
+                    onClick={() =>
+                      setChoices((prev) => {
+                        const next = prev.filter((_, i) => i !== idx);
+                        if (next.length >= 2) return next;
+                        return prev;
+                      })
+                    }
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+
+              {type === "MATCHING" ? (
+                <label className="block">
+                  <span className="text-sm">Distractors (optional, one per line)</span>
+                  <textarea
+                    value={distractors}
+                    onChange={(e) => setDistractors(e.target.value)}
+                    className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+                    rows={2}
+                  />
+                  <span className="mt-1 block text-xs text-neutral-600">
+                    Extra right-hand options that match nothing.
+                  </span>
+                </label>
+              ) : null}
+            </div>
+          )}
+
+          {sections.length ? (
+            <label className="block">
+              <span className="text-sm">Section</span>
+              <select
+                value={sectionId}
+                onChange={(e) => setSectionId(e.target.value)}
+                className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              >
+                <option value="">No section (after all sections)</option>
+                {sections.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          <label className="block">
+            <span className="text-sm">Pool group (optional)</span>
+            <input
+              value={poolGroup}
+              onChange={(e) => setPoolGroup(e.target.value)}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+            <span className="mt-1 block text-xs text-neutral-600">
+              When the quiz draws a subset, each group contributes in proportion to its size.
+            </span>
+          </label>
+
+          <label className="block">
+            <span className="text-sm">Difficulty</span>
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(Number(e.target.value))}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            >
+              {Object.entries(DIFFICULTY_LABELS).map(([level, label]) => (
+                <option key={level} value={level}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <span className="mt-1 block text-xs text-neutral-600">
+              Adaptive quizzes serve harder questions after correct answers and easier ones after misses.
+            </span>
+          </label>
 
           <label className="block">
             <span className="text-sm">Hint (optional)</span>
@@ -316,6 +895,7 @@ export default function AdminQuizEditorPage() {
               <QuestionCard
                 key={q.id}
                 question={q}
+                sections={sections}
                 index={index}
                 total={questions.length}
                 onDelete={() => {
@@ -325,6 +905,11 @@ export default function AdminQuizEditorPage() {
                 onMoveUp={() => reorderMutation.mutate({ id: q.id, direction: "UP" })}
                 onMoveDown={() => reorderMutation.mutate({ id: q.id, direction: "DOWN" })}
                 onSave={(payload) => updateQuestionMutation.mutate(payload)}
+                comments={comments.filter((c) => c.questionId === q.id)}
+                isCommenting={commentMutation.isPending}
+                onComment={(body, onPosted) =>
+                  commentMutation.mutate({ questionId: q.id, body }, { onSuccess: onPosted })
+                }
                 isBusy={
                   updateQuestionMutation.isPending || deleteQuestionMutation.isPending || reorderMutation.isPending
                 }
@@ -340,6 +925,9 @@ export default function AdminQuizEditorPage() {
             {reorderMutation.isError ? (
               <p className="text-sm text-red-700">{String(reorderMutation.error.message)}</p>
             ) : null}
+            {commentMutation.isError ? (
+              <p className="text-sm text-red-700">{String(commentMutation.error.message)}</p>
+            ) : null}
           </div>
         )}
       </section>
@@ -349,20 +937,17 @@ export default function AdminQuizEditorPage() {
 
 function QuestionCard(props: {
   question: Question;
+  sections: Section[];
   index: number;
   total: number;
   isBusy: boolean;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
-  onSave: (payload: {
-    id: string;
-    prompt: string;
-    type: QuestionType;
-    hint: string | null;
-    rationale: string | null;
-    choices: Array<{ id?: string; text: string; isCorrect: boolean }>;
-  }) => void;
+  onSave: (payload: QuestionUpdatePayload) => void;
+  comments: QuestionComment[];
+  isCommenting: boolean;
+  onComment: (body: string, onPosted: () => void) => void;
 }) {
   const { question, index, total } = props;
 
@@ -370,19 +955,35 @@ function QuestionCard(props: {
   const [prompt, setPrompt] = useState(question.prompt);
   const [type, setType] = useState<QuestionType>(question.type);
   const [hint, setHint] = useState(question.hint ?? "");
+  const [poolGroup, setPoolGroup] = useState(question.poolGroup ?? "");
+  const [difficulty, setDifficulty] = useState(question.difficulty);
+  const [sectionId, setSectionId] = useState(question.sectionId ?? "");
   const [rationale, setRationale] = useState(question.rationale ?? "");
-  const [choices, setChoices] = useState<Array<{ id?: string; text: string; isCorrect: boolean }>>(
-    question.choices
-      .slice()
-      .sort((a, b) => a.order - b.order)
-      .map((c) => ({ id: c.id, text: c.text, isCorrect: c.isCorrect }))
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy | "">(question.scoringPolicy ?? "");
+  const [points, setPoints] = useState(String(question.points));
+  const [numericKey, setNumericKey] = useState<NumericKeyDraft>(numericKeyFromQuestion(question));
+  const [acceptedAnswers, setAcceptedAnswers] = useState<AcceptedAnswer[]>(
+    question.acceptedAnswers.length
+      ? question.acceptedAnswers.map((a) => ({ text: a.text, isRegex: a.isRegex }))
+      : EMPTY_ACCEPTED_ANSWERS
+  );
+  const [distractors, setDistractors] = useState(distractorsFromQuestion(question));
+  const [choices, setChoices] = useState<ChoiceDraft[]>(
+    question.choices.length
+      ? choicesFromQuestion(question)
+      : [
+          { text: "", isCorrect: true },
+          { text: "", isCorrect: false },
+        ]
   );
 
   return (
     <div className="rounded-md border border-neutral-200 bg-white p-4">
       <div className="flex items-start justify-between gap-3">
         <div>
-          <div className="text-sm text-neutral-600">Question {index + 1}</div>
+          <div className="text-sm text-neutral-600">
+            Question {index + 1} · {question.points} {question.points === 1 ? "point" : "points"}
+          </div>
           {!editing ? <div className="mt-1 font-medium">{question.prompt}</div> : null}
         </div>
         <div className="flex items-center gap-2">
@@ -442,9 +1043,43 @@ function QuestionCard(props: {
             >
               <option value="SINGLE_CHOICE">Single choice</option>
               <option value="MULTIPLE_CHOICE">Multiple choice</option>
+              <option value="NUMERIC">Numeric</option>
+              <option value="SHORT_TEXT">Short text</option>
+              <option value="ORDERING">Ordering</option>
+              <option value="MATCHING">Matching</option>
             </select>
           </label>
 
+          {hasScoringPolicy(type) ? (
+            <label className="block">
+              <span className="text-sm">Scoring</span>
+              <select
+                value={scoringPolicy}
+                onChange={(e) => setScoringPolicy(e.target.value as ScoringPolicy | "")}
+                className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              >
+                <option value="">Quiz default</option>
+                {(Object.keys(SCORING_POLICY_LABELS) as ScoringPolicy[]).map((p) => (
+                  <option key={p} value={p}>
+                    {SCORING_POLICY_LABELS[p]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          <label className="block">
+            <span className="text-sm">Points</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={points}
+              onChange={(e) => setPoints(e.target.value)}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+          </label>
+
           <label className="block">
             <span className="text-sm">Prompt</span>
             <textarea
@@ -455,58 +1090,181 @@ function QuestionCard(props: {
             />
           </label>
 
-          <div className="grid gap-2">
-            <div className="flex items-center justify-between">
-              <div className="text-sm font-medium">Choices</div>
-              <button
-                type="button"
-                className="rounded-md border border-neutral-300 px-3 py-1.5 text-sm"
-                onClick={() => setChoices((prev) => [...prev, { text: "", isCorrect: false }])}
-              >
-                Add choice
-              </button>
-            </div>
-
-            {choices.map((c, idx) => (
-              <div key={idx} className="flex items-center gap-2">
-                <input
-                  type={type === "SINGLE_CHOICE" ? "radio" : "checkbox"}
-                  name={`correct-${question.id}`}
-                  checked={c.isCorrect}
-                  onChange={(e) => {
-                    const checked = e.target.checked;
-                    setChoices((prev) =>
-                      prev.map((x, i) => {
-                        if (type === "SINGLE_CHOICE") return { ...x, isCorrect: i === idx };
-                        return i === idx ? { ...x, isCorrect: checked } : x;
-                      })
-                    );
-                  }}
-                />
-                <input
-                  value={c.text}
-                  onChange={(e) => {
-                    const v = e.target.value;
-                    setChoices((prev) => prev.map((x, i) => (i === idx ? { ...x, text: v } : x)));
-                  }}
-                  className="w-full rounded-md border border-neutral-300 px-3 py-2"
-                />
+          {type === "NUMERIC" ? (
+            <NumericKeyFields value={numericKey} onChange={setNumericKey} />
+          ) : type === "SHORT_TEXT" ? (
+            <AcceptedAnswersFields value={acceptedAnswers} onChange={setAcceptedAnswers} />
+          ) : (
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium">
+                  {type === "ORDERING" ? "Items (in the correct order)" : type === "MATCHING" ? "Pairs" : "Choices"}
+                </div>
                 <button
                   type="button"
-                  className="rounded-md border border-neutral-300 px-3 py-2 text-sm"
-                  onClick={() =>
-                    setChoices((prev) => {
-                      const next = prev.filter((_, i) => i !== idx);
-                      if (next.length >= 2) return next;
-                      return prev;
-                    })
-                  }
+                  className="rounded-md border border-neutral-300 px-3 py-1.5 text-sm"
+                  onClick={() => setChoices((prev) => [...prev, { text: "", isCorrect: false }])}
                 >
-                  Remove
+                  Add choice
                 </button>
               </div>
-            ))}
-          </div>
+
+              {type === "ORDERING" ? (
+                <p className="text-xs text-neutral-600">Learners see these items shuffled and must restore this order.</p>
+              ) : null}
+
+              {choices.map((c, idx) => (
+                <div key={idx} className="flex items-center gap-2">
+                  {type === "ORDERING" ? (
+                    <span className="w-6 shrink-0 text-right text-sm text-neutral-600">{idx + 1}.</span>
+                  ) : type === "MATCHING" ? null : (
+                    <input
+                      type={type === "SINGLE_CHOICE" ? "radio" : "checkbox"}
+                      name={`correct-${question.id}`}
+                      checked={c.isCorrect}
+                      onChange={(e) => {
+                        const checked = e.target.checked;
+                        setChoices((prev) =>
+                          prev.map((x, i) => {
+                            if (type === "SINGLE_CHOICE") return { ...x, isCorrect: i === idx };
+                            return i === idx ? { ...x, isCorrect: checked } : x;
+                          })
+                        );
+                      }}
+                    />
+                  )}
+                  <input
+                    value={c.text}
+                    onChange={(e) => {
+                      const v = e.target.value;
+                      setChoices((prev) => prev.map((x, i) => (i === idx ? { ...x, text: v } : x)));
+                    }}
+                    className="w-full rounded-md border border-neutral-300 px-3 py-2"
+                  />
+                  {type === "SINGLE_CHOICE" || type === "MULTIPLE_CHOICE" ? (
+                    <label
+                      className="flex shrink-0 items-center gap-1 text-xs text-neutral-700"
+                      title="Keep this choice in place when choices are shuffled"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={Boolean(c.isAnchored)}
+                        onChange={(e) => {
+                          const checked = e.target.checked;
+                          setChoices((prev) => prev.map((x, i) => (i === idx ? { ...x, isAnchored: checked } : x)));
+                        }}
+                      />
+                      Anchor
+                    </label>
+                  ) : null}
+                  {type === "MATCHING" ? (
+                    <input
+                      value={c.match ?? ""}
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        setChoices((prev) => prev.map((x, i) => (i === idx ? { ...x, match: v } : x)));
+                      }}
+                      aria-label={`Match for item ${idx + 1}`}
+                      className="w-full rounded-md border border-neutral-300 px-3 py-2"
+                      placeholder="Matches…"
+                    />
+                  ) : null}
+                  {type === "ORDERING" ? (
+                    <>
+                      <button
+                        type="button"
+                        disabled={idx === 0}
+                        aria-label={`Move item ${idx + 1} up`}
+                        onClick={() => setChoices((prev) => moveItem(prev, idx, idx - 1))}
+                        className="rounded-md border border-neutral-300 px-3 py-2 text-sm disabled:opacity-60"
+                      >
+                        Up
+                      </button>
+                      <button
+                        type="button"
+                        disabled={idx === choices.length - 1}
+                        aria-label={`Move item ${idx + 1} down`}
+                        onClick={() => setChoices((prev) => moveItem(prev, idx, idx + 1))}
+                        className="rounded-md border border-neutral-300 px-3 py-2 text-sm disabled:opacity-60"
+                      >
+                        Down
+                      </button>
+                    </>
+                  ) : null}
+                  <button
+                    type="button"
+                    className="rounded-md border border-neutral-300 px-3 py-2 text-sm"
+                    onClick={() =>
+                      setChoices((prev) => {
+                        const next = prev.filter((_, i) => i !== idx);
+                        if (next.length >= 2) return next;
+                        return prev;
+                      })
+                    }
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+
+              {type === "MATCHING" ? (
+                <label className="block">
+                  <span className="text-sm">Distractors (optional, one per line)</span>
+                  <textarea
+                    value={distractors}
+                    onChange={(e) => setDistractors(e.target.value)}
+                    className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+                    rows={2}
+                  />
+                  <span className="mt-1 block text-xs text-neutral-600">
+                    Extra right-hand options that match nothing.
+                  </span>
+                </label>
+              ) : null}
+            </div>
+          )}
+
+          {props.sections.length ? (
+            <label className="block">
+              <span className="text-sm">Section</span>
+              <select
+                value={sectionId}
+                onChange={(e) => setSectionId(e.target.value)}
+                className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              >
+                <option value="">No section (after all sections)</option>
+                {props.sections.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          <label className="block">
+            <span className="text-sm">Pool group</span>
+            <input
+              value={poolGroup}
+              onChange={(e) => setPoolGroup(e.target.value)}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm">Difficulty</span>
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(Number(e.target.value))}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            >
+              {Object.entries(DIFFICULTY_LABELS).map(([level, label]) => (
+                <option key={level} value={level}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
 
           <label className="block">
             <span className="text-sm">Hint</span>
@@ -533,7 +1291,8 @@ function QuestionCard(props: {
               disabled={props.isBusy}
               onClick={() => {
                 const normalized = normalizeChoices(choices);
-                const err = validateQuestion(type, prompt, normalized);
+                const normalizedAccepted = normalizeAcceptedAnswers(acceptedAnswers);
+                const err = validateQuestion(type, prompt, normalized, numericKey, normalizedAccepted);
                 if (err) {
                   alert(err);
                   return;
@@ -544,7 +1303,15 @@ function QuestionCard(props: {
                   type,
                   hint: hint.trim() ? hint : null,
                   rationale: rationale.trim() ? rationale : null,
-                  choices: normalized,
+                  scoringPolicy: hasScoringPolicy(type) && scoringPolicy ? scoringPolicy : null,
+                  points: Number(points),
+                  poolGroup: poolGroup.trim() || null,
+                  difficulty,
+                  sectionId: sectionId || null,
+                  ...(type === "NUMERIC" ? numericKeyPayload(numericKey) : {}),
+                  ...(type === "SHORT_TEXT" ? { acceptedAnswers: normalizedAccepted } : {}),
+                  ...(type === "MATCHING" ? { distractors: parseDistractors(distractors) } : {}),
+                  choices: usesChoices(type) ? normalized : [],
                 });
               }}
               className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
@@ -554,6 +1321,141 @@ function QuestionCard(props: {
           </div>
         </div>
       ) : null}
+
+      <CommentThread comments={props.comments} isBusy={props.isCommenting} onComment={props.onComment} />
+    </div>
+  );
+}
+
+function NumericKeyFields(props: { value: NumericKeyDraft; onChange: (value: NumericKeyDraft) => void }) {
+  const { value, onChange } = props;
+
+  return (
+    <div className="grid gap-2">
+      <label className="block">
+        <span className="text-sm">Accept</span>
+        <select
+          value={value.mode}
+          onChange={(e) => onChange({ ...value, mode: e.target.value as NumericMode })}
+          className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+        >
+          <option value="EXACT">Exact value</option>
+          <option value="ABSOLUTE">Value ± absolute tolerance</option>
+          <option value="RELATIVE">Value ± relative tolerance</option>
+          <option value="RANGE">Any value in a range</option>
+        </select>
+      </label>
+
+      {value.mode === "RANGE" ? (
+        <div className="grid gap-2 sm:grid-cols-2">
+          <label className="block">
+            <span className="text-sm">Minimum</span>
+            <input
+              type="number"
+              step="any"
+              value={value.min}
+              onChange={(e) => onChange({ ...value, min: e.target.value })}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm">Maximum</span>
+            <input
+              type="number"
+              step="any"
+              value={value.max}
+              onChange={(e) => onChange({ ...value, max: e.target.value })}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+          </label>
+        </div>
+      ) : (
+        <div className="grid gap-2 sm:grid-cols-2">
+          <label className="block">
+            <span className="text-sm">Correct value</span>
+            <input
+              type="number"
+              step="any"
+              value={value.answer}
+              onChange={(e) => onChange({ ...value, answer: e.target.value })}
+              className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+            />
+          </label>
+          {value.mode !== "EXACT" ? (
+            <label className="block">
+              <span className="text-sm">
+                {value.mode === "RELATIVE" ? "Tolerance (fraction, e.g. 0.05 for 5%)" : "Tolerance (±)"}
+              </span>
+              <input
+                type="number"
+                step="any"
+                min={0}
+                value={value.tolerance}
+                onChange={(e) => onChange({ ...value, tolerance: e.target.value })}
+                className="mt-1 w-full rounded-md border border-neutral-300 px-3 py-2"
+              />
+            </label>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AcceptedAnswersFields(props: { value: AcceptedAnswer[]; onChange: (value: AcceptedAnswer[]) => void }) {
+  const { value, onChange } = props;
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Accepted answers</div>
+        <button
+          type="button"
+          className="rounded-md border border-neutral-300 px-3 py-1.5 text-sm"
+          onClick={() => onChange([...value, { text: "", isRegex: false }])}
+        >
+          Add answer
+        </button>
+      </div>
+      <p className="text-xs text-neutral-600">
+        Matched ignoring case, spacing and punctuation. Patterns are regular expressions that must match the whole
+        response.
+      </p>
+
+      {value.map((a, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <input
+            value={a.text}
+            onChange={(e) => {
+              const v = e.target.value;
+              onChange(value.map((x, i) => (i === idx ? { ...x, text: v } : x)));
+            }}
+            className={`w-full rounded-md border border-neutral-300 px-3 py-2 ${a.isRegex ? "font-mono" : ""}`}
+            placeholder={a.isRegex ? "e.g. colou?r" : `Answer ${idx + 1}`}
+          />
+          <label className="flex shrink-0 items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={a.isRegex}
+              onChange={(e) => {
+                const checked = e.target.checked;
+                onChange(value.map((x, i) => (i === idx ? { ...x, isRegex: checked } : x)));
+              }}
+            />
+            Pattern
+          </label>
+          <button
+            type="button"
+            className="rounded-md border border-neutral-300 px-3 py-2 text-sm"
+            onClick={() => {
+              const next = value.filter((_, i) => i !== idx);
+              if (next.length >= 1) onChange(next);
+            }}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
     </div>
   );
 }
@@ -6,11 +6,21 @@ import Link from "next/link";
 
 type Category = { id: string; name: string; slug: string };
 
+type EditorialStatus = "DRAFT" | "IN_REVIEW" | "APPROVED" | "PUBLISHED";
+
+const EDITORIAL_STATUS_LABELS: Record<EditorialStatus, string> = {
+  DRAFT: "Draft",
+  IN_REVIEW: "In review",
+  APPROVED: "Approved",
+  PUBLISHED: "Published",
+};
+
 type Quiz = {
   id: string;
   title: string;
   description: string | null;
   isPublished: boolean;
+  editorialStatus: EditorialStatus;
   timeLimitSeconds: number | null;
   createdAt: string;
   categoryId: string | null;
@@ -184,6 +194,7 @@ export default function AdminQuizzesPage() {
                     <div className="mt-1 text-sm text-neutral-600">
                       {q.categoryId ? categoriesById.get(q.categoryId)?.name ?? "(category)" : "(no category)"}
                       {q._count ? ` · ${q._count.questions} questions` : ""}
+                      {` · ${EDITORIAL_STATUS_LABELS[q.editorialStatus]}`}
                     </div>
                   </div>
 
@@ -0,0 +1,151 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+type CreateBody = {
+  title: string;
+  description?: string | null;
+  isPublished?: boolean;
+  // The path's quizzes, in step order.
+  quizIds?: string[];
+};
+
+type UpdateBody = {
+  id: string;
+  title?: string;
+  description?: string | null;
+  isPublished?: boolean;
+  // Replaces the steps, in this order.
+  quizIds?: string[];
+};
+
+const pathInclude = {
+  steps: {
+    orderBy: { order: "asc" as const },
+    select: { order: true, quiz: { select: { id: true, title: true, isPublished: true } } },
+  },
+};
+
+// Step lists must name existing quizzes, each at most once.
+async function quizIdsError(quizIds: unknown) {
+  if (!Array.isArray(quizIds) || quizIds.some((id) => typeof id !== "string")) return "Invalid quizIds.";
+  if (new Set(quizIds).size !== quizIds.length) return "A quiz can only appear once in a path.";
+  const found = await prisma.quiz.count({ where: { id: { in: quizIds } } });
+  return found === quizIds.length ? null : "Invalid quizIds.";
+}
+
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `admin:path:get:${admin.userId}:${ip}`, limit: 240, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const paths = await prisma.learningPath.findMany({
+    orderBy: { createdAt: "desc" },
+    include: pathInclude,
+  });
+
+  return jsonOk({ ok: true, paths }, { headers });
+}
+
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:path:post:${admin.userId}`, limit: 60, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as CreateBody | null;
+  if (!body?.title?.trim()) return jsonError("Title is required.", { status: 400, headers });
+
+  const quizIds = body.quizIds ?? [];
+  const invalid = await quizIdsError(quizIds);
+  if (invalid) return jsonError(invalid, { status: 400, headers });
+
+  const path = await prisma.learningPath.create({
+    data: {
+      title: body.title.trim(),
+      description: body.description?.trim() || null,
+      isPublished: Boolean(body.isPublished),
+      steps: { create: quizIds.map((quizId, order) => ({ quizId, order })) },
+    },
+    include: pathInclude,
+  });
+
+  return jsonOk({ ok: true, path }, { status: 201, headers });
+}
+
+export async function PUT(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:path:put:${admin.userId}`, limit: 120, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as UpdateBody | null;
+  if (!body?.id) return jsonError("id is required.", { status: 400, headers });
+  if (body.title !== undefined && !body.title.trim()) {
+    return jsonError("title cannot be empty.", { status: 400, headers });
+  }
+  if (body.quizIds !== undefined) {
+    const invalid = await quizIdsError(body.quizIds);
+    if (invalid) return jsonError(invalid, { status: 400, headers });
+  }
+
+  const existing = await prisma.learningPath.findUnique({ where: { id: body.id }, select: { id: true } });
+  if (!existing) return jsonError("Path not found.", { status: 404, headers });
+
+  const path = await prisma.learningPath.update({
+    where: { id: body.id },
+    data: {
+      ...(body.title !== undefined ? { title: body.title.trim() } : {}),
+      ...(body.description !== undefined ? { description: body.description?.trim() || null } : {}),
+      ...(body.isPublished !== undefined ? { isPublished: body.isPublished } : {}),
+      // Steps are rewritten wholesale; (pathId, order) is unique, so the old ones go first.
+      ...(body.quizIds !== undefined
+        ? {
+            steps: {
+              deleteMany: {},
+              create: body.quizIds.map((quizId, order) => ({ quizId, order })),
+            },
+          }
+        : {}),
+    },
+    include: pathInclude,
+  });
+
+  return jsonOk({ ok: true, path }, { headers });
+}
+
+export async function DELETE(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:path:delete:${admin.userId}`, limit: 60, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as { id?: string } | null;
+  if (!body?.id) return jsonError("id is required.", { status: 400, headers });
+
+  await prisma.learningPath.delete({ where: { id: body.id } });
+  return jsonOk({ ok: true }, { headers });
+}
@@ -0,0 +1,85 @@
+import type { Prisma } from "@prisma/client";
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { MAX_NOTE_LENGTH, excerpt, logActivity } from "@/lib/editorial";
+import { draftQuestionsWhere } from "@/lib/versions";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+const commentSelect = {
+  id: true,
+  body: true,
+  createdAt: true,
+  questionId: true,
+  author: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.QuestionCommentSelect;
+
+// Review comments on the draft's questions, oldest first.
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `admin:question:comment:get:${admin.userId}:${ip}`, limit: 240, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const { searchParams } = new URL(req.url);
+  const quizId = searchParams.get("quizId");
+  if (!quizId) return jsonError("quizId is required.", { status: 400, headers });
+
+  const comments = await prisma.questionComment.findMany({
+    where: { question: { quizId, ...draftQuestionsWhere } },
+    orderBy: { createdAt: "asc" },
+    select: commentSelect,
+  });
+
+  return jsonOk({ ok: true, comments }, { headers });
+}
+
+// Adds a comment to one of the draft's questions; it also shows on the quiz's timeline.
+// Comments stay open in every review status.
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:question:comment:post:${admin.userId}`, limit: 120, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as { questionId?: string; body?: string } | null;
+  const text = typeof body?.body === "string" ? body.body.trim() : "";
+  if (!body?.questionId || !text) return jsonError("questionId and body are required.", { status: 400, headers });
+  if (text.length > MAX_NOTE_LENGTH) {
+    return jsonError(`Comments can be at most ${MAX_NOTE_LENGTH} characters.`, { status: 400, headers });
+  }
+
+  const question = await prisma.question.findFirst({
+    where: { id: body.questionId, ...draftQuestionsWhere },
+    select: { id: true, quizId: true, order: true },
+  });
+  if (!question) return jsonError("Question not found.", { status: 404, headers });
+
+  const comment = await prisma.$transaction(async (tx) => {
+    const created = await tx.questionComment.create({
+      data: { questionId: question.id, authorId: admin.userId, body: text },
+      select: commentSelect,
+    });
+    await logActivity(tx, question.quizId, admin.userId, "COMMENTED", `Q${question.order + 1}: ${excerpt(text)}`);
+    return created;
+  });
+
+  return jsonOk({ ok: true, comment }, { status: 201, headers });
+}
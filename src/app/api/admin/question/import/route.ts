@@ -0,0 +1,100 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/apiAuth";
+import { rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { checkDraftEditable, reopenDraft } from "@/lib/editorial";
+import {
+  MAX_IMPORT_ROWS,
+  importQuestions,
+  isImportFormat,
+  newSectionTitles,
+  parseImport,
+  validateImportRows,
+  type ImportFormat,
+} from "@/lib/questionImport";
+import { draftVersionId } from "@/lib/versions";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+const MAX_IMPORT_CHARS = 2_000_000;
+
+type ImportBody = {
+  quizId: string;
+  format: ImportFormat;
+  content: string;
+  // Validate and report without writing anything.
+  dryRun?: boolean;
+};
+
+// Bulk question import. Every row is checked against the question editor's rules and
+// errors are reported per row; the questions are written only when every row passes,
+// all in one transaction, after the draft's existing questions.
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:question:import:${admin.userId}`, limit: 30, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as ImportBody | null;
+  if (!body?.quizId || typeof body.content !== "string") {
+    return jsonError("quizId and content are required.", { status: 400, headers });
+  }
+  if (!isImportFormat(body.format)) {
+    return jsonError("format must be CSV, JSON, GIFT or AIKEN.", { status: 400, headers });
+  }
+  if (body.content.length > MAX_IMPORT_CHARS) return jsonError("The file is too large.", { status: 413, headers });
+
+  const quiz = await prisma.quiz.findUnique({ where: { id: body.quizId }, select: { id: true } });
+  if (!quiz) return jsonError("Quiz not found.", { status: 404, headers });
+
+  const parsed = parseImport(body.format, body.content);
+  if (!parsed.ok) return jsonError(parsed.message, { status: 400, headers });
+
+  const rowCount = parsed.rows.length + parsed.errors.length;
+  if (!rowCount) return jsonError("The file has no questions.", { status: 400, headers });
+  if (rowCount > MAX_IMPORT_ROWS) {
+    return jsonError(`At most ${MAX_IMPORT_ROWS} questions can be imported at once.`, { status: 400, headers });
+  }
+
+  const checked = validateImportRows(parsed.rows);
+  const errors = [...parsed.errors, ...checked.errors].sort((a, b) => a.row - b.row);
+
+  if (body.dryRun) {
+    const newSections = await newSectionTitles(prisma, quiz.id, checked.valid);
+    return jsonOk({ ok: true, rowCount, validCount: checked.valid.length, errors, newSections }, { headers });
+  }
+
+  if (errors.length) {
+    return jsonOk(
+      { ok: false, error: { message: "Some rows are invalid; nothing was imported.", code: "INVALID_ROWS" }, errors },
+      { status: 400, headers }
+    );
+  }
+
+  const editable = await checkDraftEditable(prisma, quiz.id);
+  if (!editable.ok) return jsonError(editable.message, { status: 409, code: editable.code, headers });
+
+  const ids = await prisma.$transaction(
+    async (tx) => {
+      const versionId = await draftVersionId(tx, quiz.id);
+      const imported = await importQuestions(tx, quiz.id, versionId, checked.valid, parsed.sections);
+      await reopenDraft(tx, quiz.id);
+      return imported;
+    },
+    { timeout: 60_000 }
+  );
+
+  return jsonOk({ ok: true, importedCount: ids.length }, { status: 201, headers });
+}
@@ -1,9 +1,37 @@
+import type { ScoringPolicy } from "@prisma/client";
 import type { NextRequest } from "next/server";
 
 import { prisma } from "@/lib/prisma";
 import { requireAdmin } from "@/lib/apiAuth";
 import { getClientIp, rateLimit } from "@/lib/rateLimit";
 import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { MAX_DIFFICULTY, MIN_DIFFICULTY, isDifficulty } from "@/lib/adaptive";
+import { checkDraftEditable, reopenDraft } from "@/lib/editorial";
+import { isScoringPolicy } from "@/lib/grading";
+import {
+  createQuestion,
+  isChoiceType,
+  isQuestionType,
+  isValidPoints,
+  normalizeAcceptedAnswers,
+  normalizeChoices,
+  normalizeDistractors,
+  numericKeyData,
+  questionInclude,
+  syncMatchTargets,
+  usesChoices,
+  validateAcceptedAnswers,
+  validateCorrectChoices,
+  validateMatchingChoices,
+  validateNumericKey,
+  type AcceptedAnswerInput,
+  type ChoiceInput,
+  type NumericKeyInput,
+  type QuestionDraft,
+  type QuestionType,
+  validateNewQuestion,
+} from "@/lib/questions";
+import { DRAFT_VERSION, draftQuestionsWhere, draftVersionId } from "@/lib/versions";
 
 export const runtime = "nodejs";
 
@@ -15,52 +43,42 @@ function rateHeaders(rl: { limit: number; remaining: number; resetMs: number })
   };
 }
 
-type QuestionType = "SINGLE_CHOICE" | "MULTIPLE_CHOICE";
+// Published versions are frozen, so only the draft's questions can change. Null when
+// there is no such question.
+async function findQuestionVersion(id: string) {
+  const q = await prisma.question.findUnique({
+    where: { id },
+    select: { quizId: true, version: { select: { number: true } } },
+  });
+  return q ? { id, quizId: q.quizId, isDraft: q.version.number === DRAFT_VERSION } : null;
+}
 
-type ChoiceInput = {
-  id?: string;
-  text: string;
-  isCorrect?: boolean;
-  order?: number;
-};
+const publishedQuestion = "Published questions can't be changed; edit the draft instead.";
 
-type CreateBody = {
+type CreateBody = QuestionDraft & {
   quizId: string;
-  prompt: string;
-  hint?: string | null;
-  rationale?: string | null;
-  type?: QuestionType;
   order?: number;
-  choices: ChoiceInput[];
 };
 
-type UpdateBody = {
+type UpdateBody = NumericKeyInput & {
   id: string;
   prompt?: string;
   hint?: string | null;
   rationale?: string | null;
   type?: QuestionType;
   order?: number;
+  scoringPolicy?: ScoringPolicy | null;
+  points?: number;
+  poolGroup?: string | null;
+  difficulty?: number;
+  // null leaves the question outside every section.
+  sectionId?: string | null;
   choices?: ChoiceInput[];
+  acceptedAnswers?: AcceptedAnswerInput[];
+  distractors?: string[];
   move?: "UP" | "DOWN";
 };
 
-function normalizeChoices(inputs: ChoiceInput[]) {
-  const trimmed = inputs
-    .map((c, idx) => ({ ...c, text: c.text.trim(), order: c.order ?? idx }))
-    .filter((c) => c.text.length > 0);
-  return trimmed;
-}
-
-function validateCorrectChoices(type: QuestionType, choices: ChoiceInput[]) {
-  const correctCount = choices.filter((c) => Boolean(c.isCorrect)).length;
-  if (correctCount < 1) return "At least 1 correct choice is required.";
-  if (type === "SINGLE_CHOICE" && correctCount !== 1) {
-    return "Single-choice questions must have exactly 1 correct choice.";
-  }
-  return null;
-}
-
 export async function GET(req: NextRequest) {
   const admin = await requireAdmin(req);
   if (!admin) return jsonError("Forbidden.", { status: 403 });
@@ -75,9 +93,9 @@ export async function GET(req: NextRequest) {
   if (!quizId) return jsonError("quizId is required.", { status: 400, headers });
 
   const questions = await prisma.question.findMany({
-    where: { quizId },
+    where: { quizId, ...draftQuestionsWhere },
     orderBy: { order: "asc" },
-    include: { choices: { orderBy: { order: "asc" } } },
+    include: questionInclude,
   });
 
   return jsonOk({ ok: true, questions }, { headers });
@@ -96,42 +114,26 @@ export async function POST(req: NextRequest) {
     return jsonError("quizId and prompt are required.", { status: 400, headers });
   }
 
-  if (!Array.isArray(body.choices) || body.choices.length < 2) {
-    return jsonError("At least 2 choices are required.", { status: 400, headers });
-  }
+  const checked = validateNewQuestion(body);
+  if (!checked.ok) return jsonError(checked.message, { status: 400, headers });
 
-  const type = body.type ?? "SINGLE_CHOICE";
-  const normalizedChoices = normalizeChoices(body.choices);
-  if (normalizedChoices.length < 2) {
-    return jsonError("At least 2 non-empty choices are required.", { status: 400, headers });
+  if (body.sectionId && !(await prisma.section.findFirst({ where: { id: body.sectionId, quizId: body.quizId } }))) {
+    return jsonError("That section is not part of this quiz.", { status: 400, headers });
   }
 
-  const validationMessage = validateCorrectChoices(type, normalizedChoices);
-  if (validationMessage) return jsonError(validationMessage, { status: 400, headers });
-
-  const order: number =
-    body.order ??
-    (await prisma.question
-      .aggregate({ where: { quizId: body.quizId }, _max: { order: true } })
-      .then((r) => (r._max.order ?? -1) + 1));
-
-  const question = await prisma.question.create({
-    data: {
-      quizId: body.quizId,
-      prompt: body.prompt.trim(),
-      hint: body.hint?.trim() || null,
-      rationale: body.rationale?.trim() || null,
-      type,
-      order,
-      choices: {
-        create: normalizedChoices.map((c) => ({
-          text: c.text,
-          order: c.order ?? 0,
-          isCorrect: Boolean(c.isCorrect),
-        })),
-      },
-    },
-    include: { choices: { orderBy: { order: "asc" } } },
+  const editable = await checkDraftEditable(prisma, body.quizId);
+  if (!editable.ok) return jsonError(editable.message, { status: 409, code: editable.code, headers });
+
+  const question = await prisma.$transaction(async (tx) => {
+    const versionId = await draftVersionId(tx, body.quizId);
+    const order: number =
+      body.order ??
+      (await tx.question
+        .aggregate({ where: { versionId }, _max: { order: true } })
+        .then((r) => (r._max.order ?? -1) + 1));
+    const id = await createQuestion(tx, body.quizId, versionId, checked.question, order);
+    await reopenDraft(tx, body.quizId);
+    return tx.question.findUniqueOrThrow({ where: { id }, include: questionInclude });
   });
 
   return jsonOk({ ok: true, question }, { status: 201, headers });
@@ -148,22 +150,32 @@ export async function PUT(req: NextRequest) {
   const body = (await req.json().catch(() => null)) as UpdateBody | null;
   if (!body?.id) return jsonError("id is required.", { status: 400, headers });
 
+  const found = await findQuestionVersion(body.id);
+  if (!found) return jsonError("Question not found.", { status: 404, headers });
+  if (!found.isDraft) return jsonError(publishedQuestion, { status: 409, code: "QUESTION_PUBLISHED", headers });
+
+  const editable = await checkDraftEditable(prisma, found.quizId);
+  if (!editable.ok) return jsonError(editable.message, { status: 409, code: editable.code, headers });
+
   // Reorder helper: swap question.order with its neighbor.
   if (body.move) {
     try {
       await prisma.$transaction(async (tx) => {
-        const q = await tx.question.findUnique({ where: { id: body.id }, select: { id: true, quizId: true, order: true } });
+        const q = await tx.question.findUnique({
+          where: { id: body.id },
+          select: { id: true, versionId: true, order: true },
+        });
         if (!q) throw new Error("Question not found.");
 
         const neighbor =
           body.move === "UP"
             ? await tx.question.findFirst({
-                where: { quizId: q.quizId, order: { lt: q.order } },
+                where: { versionId: q.versionId, order: { lt: q.order } },
                 orderBy: { order: "desc" },
                 select: { id: true, order: true },
               })
             : await tx.question.findFirst({
-                where: { quizId: q.quizId, order: { gt: q.order } },
+                where: { versionId: q.versionId, order: { gt: q.order } },
                 orderBy: { order: "asc" },
                 select: { id: true, order: true },
               });
@@ -172,6 +184,7 @@ export async function PUT(req: NextRequest) {
 
         await tx.question.update({ where: { id: q.id }, data: { order: neighbor.order } });
         await tx.question.update({ where: { id: neighbor.id }, data: { order: q.order } });
+        await reopenDraft(tx, found.quizId);
       });
 
       return jsonOk({ ok: true }, { headers });
@@ -182,6 +195,30 @@ export async function PUT(req: NextRequest) {
     }
   }
 
+  if (body.type !== undefined && !isQuestionType(body.type)) {
+    return jsonError("Invalid type.", { status: 400, headers });
+  }
+  if (body.scoringPolicy != null && !isScoringPolicy(body.scoringPolicy)) {
+    return jsonError("Invalid scoringPolicy.", { status: 400, headers });
+  }
+  if (body.points !== undefined && !isValidPoints(body.points)) {
+    return jsonError("points must be a positive number.", { status: 400, headers });
+  }
+  if (body.difficulty !== undefined && !isDifficulty(body.difficulty)) {
+    return jsonError(`difficulty must be a whole number from ${MIN_DIFFICULTY} to ${MAX_DIFFICULTY}.`, {
+      status: 400,
+      headers,
+    });
+  }
+  if (
+    body.sectionId &&
+    !(await prisma.section.findFirst({
+      where: { id: body.sectionId, quiz: { questions: { some: { id: body.id } } } },
+    }))
+  ) {
+    return jsonError("That section is not part of this quiz.", { status: 400, headers });
+  }
+
   try {
     const updated = await prisma.$transaction(async (tx) => {
       const question = await tx.question.update({
@@ -189,25 +226,102 @@ export async function PUT(req: NextRequest) {
         data: {
           ...(body.prompt !== undefined ? { prompt: body.prompt.trim() } : {}),
           ...(body.hint !== undefined ? { hint: body.hint?.trim() || null } : {}),
+          ...(body.poolGroup !== undefined ? { poolGroup: body.poolGroup?.trim() || null } : {}),
+          ...(body.difficulty !== undefined ? { difficulty: body.difficulty } : {}),
+          ...(body.sectionId !== undefined ? { sectionId: body.sectionId } : {}),
           ...(body.rationale !== undefined ? { rationale: body.rationale?.trim() || null } : {}),
           ...(body.type !== undefined ? { type: body.type } : {}),
           ...(body.order !== undefined ? { order: body.order } : {}),
+          ...(body.scoringPolicy !== undefined ? { scoringPolicy: body.scoringPolicy } : {}),
+          ...(body.points !== undefined ? { points: body.points } : {}),
         },
-        include: { choices: true },
+        include: { choices: true, acceptedAnswers: true, matchTargets: true },
       });
 
-      if (body.choices) {
+      const effectiveType = body.type ?? question.type;
+
+      if (effectiveType === "NUMERIC") {
+        const key: NumericKeyInput = {
+          numericMode: body.numericMode !== undefined ? body.numericMode : question.numericMode,
+          numericAnswer: body.numericAnswer !== undefined ? body.numericAnswer : question.numericAnswer,
+          numericTolerance: body.numericTolerance !== undefined ? body.numericTolerance : question.numericTolerance,
+          numericMin: body.numericMin !== undefined ? body.numericMin : question.numericMin,
+          numericMax: body.numericMax !== undefined ? body.numericMax : question.numericMax,
+        };
+        const numericMessage = validateNumericKey(key);
+        if (numericMessage) throw new Error(numericMessage);
+
+        await tx.question.update({ where: { id: question.id }, data: numericKeyData(key) });
+      } else if (question.numericMode) {
+        // Switched away from NUMERIC.
+        await tx.question.update({ where: { id: question.id }, data: numericKeyData({}) });
+      }
+
+      if (effectiveType === "SHORT_TEXT") {
+        if (body.acceptedAnswers) {
+          const incoming = normalizeAcceptedAnswers(body.acceptedAnswers);
+          const acceptedMessage = validateAcceptedAnswers(incoming);
+          if (acceptedMessage) throw new Error(acceptedMessage);
+
+          // Nothing references accepted answers, so replace them wholesale.
+          await tx.acceptedAnswer.deleteMany({ where: { questionId: question.id } });
+          await tx.acceptedAnswer.createMany({
+            data: incoming.map((a) => ({ ...a, questionId: question.id })),
+          });
+        } else if (question.acceptedAnswers.length < 1) {
+          throw new Error("At least 1 accepted answer is required.");
+        }
+      } else if (question.acceptedAnswers.length) {
+        await tx.acceptedAnswer.deleteMany({ where: { questionId: question.id } });
+      }
+
+      if (!usesChoices(effectiveType) && question.choices.length) {
+        await tx.choice.deleteMany({ where: { questionId: question.id } });
+      }
+
+      if (effectiveType !== "MATCHING" && question.matchTargets.length) {
+        await tx.matchTarget.deleteMany({ where: { questionId: question.id } });
+      }
+
+      if (effectiveType === "MATCHING" && !body.choices) {
+        if (body.distractors) throw new Error("choices are required when updating distractors.");
+        if (question.choices.some((c) => !c.matchTargetId)) throw new Error("Every item needs a match.");
+      }
+
+      if (usesChoices(effectiveType) && !body.choices && question.choices.length < 2) {
+        throw new Error("At least 2 non-empty choices are required.");
+      }
+
+      if (usesChoices(effectiveType) && body.choices) {
         const incoming = normalizeChoices(body.choices);
         if (incoming.length < 2) throw new Error("At least 2 non-empty choices are required.");
 
-        const effectiveType = body.type ?? question.type;
-        const validationMessage = validateCorrectChoices(effectiveType, incoming);
-        if (validationMessage) {
-          throw new Error(validationMessage);
+        if (isChoiceType(effectiveType)) {
+          const validationMessage = validateCorrectChoices(effectiveType, incoming);
+          if (validationMessage) {
+            throw new Error(validationMessage);
+          }
+        }
+        if (effectiveType === "MATCHING") {
+          const matchingMessage = validateMatchingChoices(incoming);
+          if (matchingMessage) throw new Error(matchingMessage);
         }
+        const isCorrectAllowed = isChoiceType(effectiveType);
+
+        // Without new distractors, keep the targets no choice currently points at.
+        const linkedTargetIds = new Set(question.choices.map((c) => c.matchTargetId));
+        const distractors = body.distractors
+          ? normalizeDistractors(body.distractors)
+          : question.matchTargets.filter((t) => !linkedTargetIds.has(t.id)).map((t) => t.text);
+        const targetIds =
+          effectiveType === "MATCHING"
+            ? await syncMatchTargets(tx, question.id, incoming, distractors)
+            : new Map<string, string>();
 
         const existingIds = new Set(question.choices.map((c) => c.id));
         const incomingIds = new Set(incoming.map((c) => c.id).filter(Boolean) as string[]);
+        // Ids must be this question's own choices, not ones of a published version or another quiz.
+        if ([...incomingIds].some((id) => !existingIds.has(id))) throw new Error("Invalid choice id.");
 
         // Delete removed
         const toDelete = [...existingIds].filter((id) => !incomingIds.has(id));
@@ -215,12 +329,25 @@ export async function PUT(req: NextRequest) {
           await tx.choice.deleteMany({ where: { id: { in: toDelete } } });
         }
 
+        // Park the remaining rows on negative orders first: reordering swaps values
+        // and would otherwise trip the (questionId, order) unique constraint mid-loop.
+        await tx.choice.updateMany({
+          where: { questionId: question.id },
+          data: { order: { decrement: 1_000_000 } },
+        });
+
         // Upsert incoming
         for (const c of incoming) {
           if (c.id) {
             await tx.choice.update({
               where: { id: c.id },
-              data: { text: c.text, order: c.order ?? 0, isCorrect: Boolean(c.isCorrect) },
+              data: {
+                text: c.text,
+                order: c.order ?? 0,
+                isCorrect: isCorrectAllowed && Boolean(c.isCorrect),
+                isAnchored: isCorrectAllowed && Boolean(c.isAnchored),
+                matchTargetId: targetIds.get(c.match ?? "") ?? null,
+              },
             });
           } else {
             await tx.choice.create({
@@ -228,17 +355,17 @@ export async function PUT(req: NextRequest) {
                 questionId: question.id,
                 text: c.text,
                 order: c.order ?? 0,
-                isCorrect: Boolean(c.isCorrect),
+                isCorrect: isCorrectAllowed && Boolean(c.isCorrect),
+                isAnchored: isCorrectAllowed && Boolean(c.isAnchored),
+                matchTargetId: targetIds.get(c.match ?? "") ?? null,
               },
             });
           }
         }
       }
 
-      return tx.question.findUnique({
-        where: { id: question.id },
-        include: { choices: { orderBy: { order: "asc" } } },
-      });
+      await reopenDraft(tx, found.quizId);
+      return tx.question.findUnique({ where: { id: question.id }, include: questionInclude });
     });
 
     if (!updated) return jsonError("Question not found.", { status: 404, headers });
@@ -261,8 +388,18 @@ export async function DELETE(req: NextRequest) {
   const body = (await req.json().catch(() => null)) as { id?: string } | null;
   if (!body?.id) return jsonError("id is required.", { status: 400, headers });
 
+  const found = await findQuestionVersion(body.id);
+  if (!found) return jsonError("Question not found.", { status: 404, headers });
+  if (!found.isDraft) return jsonError(publishedQuestion, { status: 409, code: "QUESTION_PUBLISHED", headers });
+
+  const editable = await checkDraftEditable(prisma, found.quizId);
+  if (!editable.ok) return jsonError(editable.message, { status: 409, code: editable.code, headers });
+
   try {
-    await prisma.question.delete({ where: { id: body.id } });
+    await prisma.$transaction(async (tx) => {
+      await tx.question.delete({ where: { id: found.id } });
+      await reopenDraft(tx, found.quizId);
+    });
     return jsonOk({ ok: true }, { headers });
   } catch {
     return jsonError("Unable to delete question (may have existing answers).", { status: 409, headers });
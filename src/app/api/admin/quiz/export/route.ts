@@ -0,0 +1,102 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError } from "@/lib/apiResponse";
+import { serializeAiken } from "@/lib/aiken";
+import { serializeGift } from "@/lib/gift";
+import {
+  buildCsvExport,
+  buildJsonExport,
+  buildQtiPackage,
+  exportQuestionInclude,
+  exportQuizSelect,
+  exportSettingsSelect,
+  isExportFormat,
+  questionToDraft,
+} from "@/lib/quizExport";
+import { DRAFT_VERSION, draftQuestionsWhere } from "@/lib/versions";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+// "Intro to Algebra!" -> "intro-to-algebra"
+function fileStem(title: string) {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "quiz"
+  );
+}
+
+// Downloads a quiz's draft, with its category and sections, as JSON (our schema, which the
+// question import reads back), CSV, GIFT, Aiken or a QTI 2.1 package.
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `admin:quiz:export:${admin.userId}:${ip}`, limit: 30, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  const format = searchParams.get("format") ?? "JSON";
+  if (!id) return jsonError("id is required.", { status: 400, headers });
+  if (!isExportFormat(format)) {
+    return jsonError("format must be JSON, CSV, GIFT, AIKEN or QTI.", { status: 400, headers });
+  }
+
+  const found = await prisma.quiz.findUnique({ where: { id }, select: exportQuizSelect });
+  if (!found) return jsonError("Quiz not found.", { status: 404, headers });
+  // The draft's settings, to go with its questions.
+  const draft = await prisma.quizVersion.findUnique({
+    where: { quizId_number: { quizId: id, number: DRAFT_VERSION } },
+    select: exportSettingsSelect,
+  });
+  const quiz = { ...found, ...draft };
+
+  const questions = await prisma.question.findMany({
+    where: { quizId: id, ...draftQuestionsWhere },
+    orderBy: { order: "asc" },
+    include: exportQuestionInclude,
+  });
+
+  const stem = fileStem(quiz.title);
+  const download = (body: BodyInit, contentType: string, filename: string) =>
+    new NextResponse(body, {
+      headers: {
+        ...headers,
+        "content-type": contentType,
+        "content-disposition": `attachment; filename="${filename}"`,
+        "cache-control": "no-store",
+      },
+    });
+
+  if (format === "CSV") return download(buildCsvExport(questions), "text/csv; charset=utf-8", `${stem}.csv`);
+  if (format === "GIFT") {
+    return download(serializeGift(questions.map(questionToDraft)), "text/plain; charset=utf-8", `${stem}.gift.txt`);
+  }
+  if (format === "AIKEN") {
+    return download(serializeAiken(questions.map(questionToDraft)), "text/plain; charset=utf-8", `${stem}.aiken.txt`);
+  }
+  if (format === "QTI") {
+    return download(new Uint8Array(buildQtiPackage(quiz, questions)), "application/zip", `${stem}-qti.zip`);
+  }
+  return download(
+    JSON.stringify(buildJsonExport(quiz, questions), null, 2),
+    "application/json; charset=utf-8",
+    `${stem}.json`
+  );
+}
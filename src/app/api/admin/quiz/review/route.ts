@@ -0,0 +1,89 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { MAX_NOTE_LENGTH, applyReviewAction, isReviewAction, type ReviewAction } from "@/lib/editorial";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+type ReviewBody = {
+  id: string;
+  action: ReviewAction;
+  note?: string | null;
+};
+
+// The quiz's review status and its activity timeline, oldest first.
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `admin:quiz:review:get:${admin.userId}:${ip}`, limit: 240, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  if (!id) return jsonError("id is required.", { status: 400, headers });
+
+  const quiz = await prisma.quiz.findUnique({
+    where: { id },
+    select: {
+      editorialStatus: true,
+      activity: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          type: true,
+          note: true,
+          createdAt: true,
+          actor: { select: { id: true, name: true, email: true } },
+        },
+      },
+    },
+  });
+  if (!quiz) return jsonError("Quiz not found.", { status: 404, headers });
+
+  return jsonOk({ ok: true, status: quiz.editorialStatus, activity: quiz.activity }, { headers });
+}
+
+// Submits the draft for review, approves it or sends it back with changes requested.
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:quiz:review:post:${admin.userId}`, limit: 60, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as ReviewBody | null;
+  if (!body?.id) return jsonError("id is required.", { status: 400, headers });
+  if (!isReviewAction(body.action)) {
+    return jsonError("action must be SUBMIT, REQUEST_CHANGES or APPROVE.", { status: 400, headers });
+  }
+  const note = typeof body.note === "string" ? body.note.trim() || null : null;
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return jsonError(`Notes can be at most ${MAX_NOTE_LENGTH} characters.`, { status: 400, headers });
+  }
+  if (body.action === "REQUEST_CHANGES" && !note) {
+    return jsonError("Say what needs to change.", { status: 400, headers });
+  }
+
+  const quiz = await prisma.quiz.findUnique({ where: { id: body.id }, select: { id: true } });
+  if (!quiz) return jsonError("Quiz not found.", { status: 404, headers });
+
+  const result = await prisma.$transaction((tx) => applyReviewAction(tx, quiz.id, admin.userId, body.action, note));
+  if (!result.ok) return jsonError(result.message, { status: 409, code: result.code, headers });
+
+  return jsonOk({ ok: true, status: result.status }, { headers });
+}
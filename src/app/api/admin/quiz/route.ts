@@ -1,9 +1,26 @@
+import type { DeliveryMode, FinalScorePolicy, QuizVisibility, RevealPolicy, ScoringPolicy } from "@prisma/client";
 import type { NextRequest } from "next/server";
 
 import { prisma } from "@/lib/prisma";
 import { requireAdmin } from "@/lib/apiAuth";
 import { getClientIp, rateLimit } from "@/lib/rateLimit";
 import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { ACCESS_CODE_MIN_LENGTH, hashAccessCode, isQuizVisibility, withoutAccessCodeHash } from "@/lib/access";
+import { isFinalScorePolicy } from "@/lib/attempts";
+import { parseWindowTimestamp } from "@/lib/availability";
+import { checkDraftEditable, logActivity, publishApproved, reopenDraft } from "@/lib/editorial";
+import { isScoringPolicy } from "@/lib/grading";
+import { isDeliveryMode } from "@/lib/paging";
+import { createsPrerequisiteCycle, isPassPercent } from "@/lib/prerequisites";
+import { isRevealPolicy } from "@/lib/reveal";
+import {
+  type DraftSettings,
+  draftQuestionsWhere,
+  draftSettings,
+  draftVersionId,
+  liveVersion,
+  versionStatus,
+} from "@/lib/versions";
 
 export const runtime = "nodejs";
 
@@ -15,6 +32,34 @@ function rateHeaders(rl: { limit: number; remaining: number; resetMs: number })
   };
 }
 
+// Penalty is a fraction of each question's points.
+function isValidPenalty(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+// null clears the limit, cooldown or draw.
+function isOptionalCount(value: unknown, min: number): value is number | null {
+  return value === null || (typeof value === "number" && Number.isInteger(value) && value >= min);
+}
+
+// On/off settings; left out of a body, they keep their value.
+const FLAG_SETTINGS = ["shuffleQuestions", "shuffleChoices", "allowBackNavigation", "allowPractice"] as const;
+
+// The first flag in the body that isn't a boolean.
+function invalidFlag(body: Partial<Record<string, unknown>>, keys: readonly string[]) {
+  return keys.find((key) => body[key] !== undefined && typeof body[key] !== "boolean");
+}
+
+const prerequisitesInclude = { prerequisites: { select: { requiredQuizId: true } } };
+
+// Prerequisites go out as a plain list of quiz ids.
+function adminQuizView<T extends { accessCodeHash: string | null; prerequisites: { requiredQuizId: string }[] }>(
+  quiz: T
+) {
+  const { prerequisites, ...rest } = quiz;
+  return { ...withoutAccessCodeHash(rest), prerequisiteQuizIds: prerequisites.map((p) => p.requiredQuizId) };
+}
+
 export async function GET(req: NextRequest) {
   const admin = await requireAdmin(req);
   if (!admin) return jsonError("Forbidden.", { status: 403 });
@@ -31,26 +76,31 @@ export async function GET(req: NextRequest) {
     const quiz = await prisma.quiz.findUnique({
       where: { id },
       include: {
+        ...prerequisitesInclude,
         category: { select: { id: true, name: true, slug: true } },
         questions: {
+          where: draftQuestionsWhere,
           orderBy: { order: "asc" },
           include: { choices: { orderBy: { order: "asc" } } },
         },
       },
     });
     if (!quiz) return jsonError("Quiz not found.", { status: 404, headers });
-    return jsonOk({ ok: true, quiz }, { headers });
+    const versions = await versionStatus(prisma, id);
+    const settings = await draftSettings(prisma, id);
+    return jsonOk({ ok: true, quiz: adminQuizView({ ...quiz, ...settings }), versions }, { headers });
   }
 
   const quizzes = await prisma.quiz.findMany({
     orderBy: { createdAt: "desc" },
     include: {
       category: { select: { id: true, name: true, slug: true } },
-      _count: { select: { questions: true, attempts: true } },
+      // Practice attempts don't count towards a quiz's attempts.
+      _count: { select: { questions: { where: draftQuestionsWhere }, attempts: { where: { isPractice: false } } } },
     },
   });
 
-  return jsonOk({ ok: true, quizzes }, { headers });
+  return jsonOk({ ok: true, quizzes: quizzes.map(withoutAccessCodeHash) }, { headers });
 }
 
 export async function POST(req: NextRequest) {
@@ -68,21 +118,87 @@ export async function POST(req: NextRequest) {
         categoryId?: string | null;
         timeLimitSeconds?: number | null;
         isPublished?: boolean;
+        scoringPolicy?: ScoringPolicy;
+        wrongAnswerPenalty?: number;
+        revealPolicy?: RevealPolicy;
+        maxAttempts?: number | null;
+        attemptCooldownSeconds?: number | null;
+        finalScorePolicy?: FinalScorePolicy;
+        shuffleQuestions?: boolean;
+        shuffleChoices?: boolean;
+        drawCount?: number | null;
+        deliveryMode?: DeliveryMode;
+        allowBackNavigation?: boolean;
+        allowPractice?: boolean;
       }
     | null;
 
   const title = (body?.title ?? "").trim();
   if (!title) return jsonError("Title is required.", { status: 400, headers });
+  if (body?.isPublished) {
+    return jsonError("New quizzes start as drafts; publish them once a review has approved them.", {
+      status: 409,
+      code: "NOT_APPROVED",
+      headers,
+    });
+  }
 
-  const quiz = await prisma.quiz.create({
-    data: {
-      title,
-      description: body?.description?.trim() || null,
-      categoryId: body?.categoryId ?? null,
-      timeLimitSeconds: body?.timeLimitSeconds ?? null,
-      isPublished: Boolean(body?.isPublished),
-      createdById: admin.userId,
-    },
+  if (body?.timeLimitSeconds !== undefined && !isOptionalCount(body.timeLimitSeconds, 1)) {
+    return jsonError("timeLimitSeconds must be a positive integer or null.", { status: 400, headers });
+  }
+  const badFlag = invalidFlag(body ?? {}, FLAG_SETTINGS);
+  if (badFlag) return jsonError(`${badFlag} must be true or false.`, { status: 400, headers });
+
+  if (body?.scoringPolicy !== undefined && !isScoringPolicy(body.scoringPolicy)) {
+    return jsonError("Invalid scoringPolicy.", { status: 400, headers });
+  }
+  if (body?.wrongAnswerPenalty !== undefined && !isValidPenalty(body.wrongAnswerPenalty)) {
+    return jsonError("wrongAnswerPenalty must be between 0 and 1.", { status: 400, headers });
+  }
+  if (body?.revealPolicy !== undefined && !isRevealPolicy(body.revealPolicy)) {
+    return jsonError("Invalid revealPolicy.", { status: 400, headers });
+  }
+  if (body?.maxAttempts !== undefined && !isOptionalCount(body.maxAttempts, 1)) {
+    return jsonError("maxAttempts must be a positive integer or null.", { status: 400, headers });
+  }
+  if (body?.attemptCooldownSeconds !== undefined && !isOptionalCount(body.attemptCooldownSeconds, 0)) {
+    return jsonError("attemptCooldownSeconds must be a non-negative integer or null.", { status: 400, headers });
+  }
+  if (body?.finalScorePolicy !== undefined && !isFinalScorePolicy(body.finalScorePolicy)) {
+    return jsonError("Invalid finalScorePolicy.", { status: 400, headers });
+  }
+  if (body?.drawCount !== undefined && !isOptionalCount(body.drawCount, 1)) {
+    return jsonError("drawCount must be a positive integer or null.", { status: 400, headers });
+  }
+  if (body?.deliveryMode !== undefined && !isDeliveryMode(body.deliveryMode)) {
+    return jsonError("Invalid deliveryMode.", { status: 400, headers });
+  }
+
+  const quiz = await prisma.$transaction(async (tx) => {
+    const created = await tx.quiz.create({
+      data: {
+        title,
+        description: body?.description?.trim() || null,
+        categoryId: body?.categoryId ?? null,
+        timeLimitSeconds: body?.timeLimitSeconds ?? null,
+        ...(body?.scoringPolicy ? { scoringPolicy: body.scoringPolicy } : {}),
+        ...(body?.wrongAnswerPenalty !== undefined ? { wrongAnswerPenalty: body.wrongAnswerPenalty } : {}),
+        ...(body?.revealPolicy ? { revealPolicy: body.revealPolicy } : {}),
+        maxAttempts: body?.maxAttempts ?? null,
+        attemptCooldownSeconds: body?.attemptCooldownSeconds ?? null,
+        ...(body?.finalScorePolicy ? { finalScorePolicy: body.finalScorePolicy } : {}),
+        shuffleQuestions: Boolean(body?.shuffleQuestions),
+        shuffleChoices: Boolean(body?.shuffleChoices),
+        drawCount: body?.drawCount ?? null,
+        ...(body?.deliveryMode ? { deliveryMode: body.deliveryMode } : {}),
+        ...(body?.allowBackNavigation !== undefined ? { allowBackNavigation: Boolean(body.allowBackNavigation) } : {}),
+        ...(body?.allowPractice !== undefined ? { allowPractice: Boolean(body.allowPractice) } : {}),
+        createdById: admin.userId,
+      },
+    });
+    // The draft starts out with the new quiz's settings.
+    await draftVersionId(tx, created.id);
+    return created;
   });
 
   return jsonOk({ ok: true, quiz }, { status: 201, headers });
@@ -104,23 +220,214 @@ export async function PUT(req: NextRequest) {
         categoryId?: string | null;
         timeLimitSeconds?: number | null;
         isPublished?: boolean;
+        scoringPolicy?: ScoringPolicy;
+        wrongAnswerPenalty?: number;
+        revealPolicy?: RevealPolicy;
+        maxAttempts?: number | null;
+        attemptCooldownSeconds?: number | null;
+        finalScorePolicy?: FinalScorePolicy;
+        shuffleQuestions?: boolean;
+        shuffleChoices?: boolean;
+        drawCount?: number | null;
+        deliveryMode?: DeliveryMode;
+        allowBackNavigation?: boolean;
+        allowPractice?: boolean;
+        // ISO 8601 with an offset, e.g. "2026-05-01T09:00:00+02:00"; null clears.
+        opensAt?: string | null;
+        closesAt?: string | null;
+        visibility?: QuizVisibility;
+        // Sets a new code for an ACCESS_CODE quiz; only its hash is stored.
+        accessCode?: string;
+        passPercent?: number | null;
+        // Replaces the quizzes that must be passed before this one can be started.
+        prerequisiteQuizIds?: string[];
+        // Freezes the draft's questions as the next version, for new attempts to start on.
+        publish?: boolean;
       }
     | null;
 
   if (!body?.id) return jsonError("id is required.", { status: 400, headers });
 
-  const quiz = await prisma.quiz.update({
-    where: { id: body.id },
-    data: {
-      ...(body.title !== undefined ? { title: body.title.trim() } : {}),
-      ...(body.description !== undefined ? { description: body.description?.trim() || null } : {}),
-      ...(body.categoryId !== undefined ? { categoryId: body.categoryId } : {}),
-      ...(body.timeLimitSeconds !== undefined ? { timeLimitSeconds: body.timeLimitSeconds } : {}),
-      ...(body.isPublished !== undefined ? { isPublished: body.isPublished } : {}),
+  const current = await prisma.quiz.findUnique({ where: { id: body.id }, select: { id: true, isPublished: true } });
+  if (!current) return jsonError("Quiz not found.", { status: 404, headers });
+  // The settings an edit applies to, and is checked against.
+  const staged = await draftSettings(prisma, current.id);
+
+  if (body.timeLimitSeconds !== undefined && !isOptionalCount(body.timeLimitSeconds, 1)) {
+    return jsonError("timeLimitSeconds must be a positive integer or null.", { status: 400, headers });
+  }
+  const badFlag = invalidFlag(body, [...FLAG_SETTINGS, "isPublished", "publish"]);
+  if (badFlag) return jsonError(`${badFlag} must be true or false.`, { status: 400, headers });
+
+  if (body.scoringPolicy !== undefined && !isScoringPolicy(body.scoringPolicy)) {
+    return jsonError("Invalid scoringPolicy.", { status: 400, headers });
+  }
+  if (body.wrongAnswerPenalty !== undefined && !isValidPenalty(body.wrongAnswerPenalty)) {
+    return jsonError("wrongAnswerPenalty must be between 0 and 1.", { status: 400, headers });
+  }
+  if (body.revealPolicy !== undefined && !isRevealPolicy(body.revealPolicy)) {
+    return jsonError("Invalid revealPolicy.", { status: 400, headers });
+  }
+  if (body.maxAttempts !== undefined && !isOptionalCount(body.maxAttempts, 1)) {
+    return jsonError("maxAttempts must be a positive integer or null.", { status: 400, headers });
+  }
+  if (body.attemptCooldownSeconds !== undefined && !isOptionalCount(body.attemptCooldownSeconds, 0)) {
+    return jsonError("attemptCooldownSeconds must be a non-negative integer or null.", { status: 400, headers });
+  }
+  if (body.finalScorePolicy !== undefined && !isFinalScorePolicy(body.finalScorePolicy)) {
+    return jsonError("Invalid finalScorePolicy.", { status: 400, headers });
+  }
+  if (body.drawCount !== undefined && !isOptionalCount(body.drawCount, 1)) {
+    return jsonError("drawCount must be a positive integer or null.", { status: 400, headers });
+  }
+  if (body.deliveryMode !== undefined && !isDeliveryMode(body.deliveryMode)) {
+    return jsonError("Invalid deliveryMode.", { status: 400, headers });
+  }
+
+  const opensAt = body.opensAt !== undefined ? parseWindowTimestamp(body.opensAt) : undefined;
+  const closesAt = body.closesAt !== undefined ? parseWindowTimestamp(body.closesAt) : undefined;
+  if (body.opensAt !== undefined && opensAt === undefined) {
+    return jsonError("opensAt must be an ISO 8601 timestamp with a time zone, or null.", { status: 400, headers });
+  }
+  if (body.closesAt !== undefined && closesAt === undefined) {
+    return jsonError("closesAt must be an ISO 8601 timestamp with a time zone, or null.", { status: 400, headers });
+  }
+  if (opensAt !== undefined || closesAt !== undefined) {
+    // Checked against the stored end when only one end changes.
+    const start = opensAt !== undefined ? opensAt : staged.opensAt;
+    const end = closesAt !== undefined ? closesAt : staged.closesAt;
+    if (start && end && start >= end) {
+      return jsonError("closesAt must be after opensAt.", { status: 400, headers });
+    }
+  }
+
+  if (body.visibility !== undefined && !isQuizVisibility(body.visibility)) {
+    return jsonError("Invalid visibility.", { status: 400, headers });
+  }
+  if (
+    body.accessCode !== undefined &&
+    (typeof body.accessCode !== "string" || body.accessCode.trim().length < ACCESS_CODE_MIN_LENGTH)
+  ) {
+    return jsonError(`accessCode must be at least ${ACCESS_CODE_MIN_LENGTH} characters.`, { status: 400, headers });
+  }
+  let accessCodeHash: string | null | undefined;
+  if (body.visibility !== undefined || body.accessCode !== undefined) {
+    const visibility = body.visibility ?? staged.visibility;
+    if (visibility !== "ACCESS_CODE") {
+      if (body.accessCode !== undefined) {
+        return jsonError("accessCode only applies to ACCESS_CODE quizzes.", { status: 400, headers });
+      }
+      // A code left behind would come back into force if the quiz were protected again.
+      accessCodeHash = null;
+    } else if (body.accessCode !== undefined) {
+      accessCodeHash = await hashAccessCode(body.accessCode);
+    } else if (!staged.accessCodeHash) {
+      return jsonError("Set an access code to protect this quiz.", { status: 400, headers });
+    }
+  }
+
+  if (body.passPercent !== undefined && !isPassPercent(body.passPercent)) {
+    return jsonError("passPercent must be a whole number from 0 to 100, or null.", { status: 400, headers });
+  }
+  if (
+    body.prerequisiteQuizIds !== undefined &&
+    (!Array.isArray(body.prerequisiteQuizIds) || body.prerequisiteQuizIds.some((id) => typeof id !== "string"))
+  ) {
+    return jsonError("Invalid prerequisiteQuizIds.", { status: 400, headers });
+  }
+  const prerequisiteQuizIds = body.prerequisiteQuizIds ? [...new Set(body.prerequisiteQuizIds)] : undefined;
+  if (prerequisiteQuizIds?.length) {
+    if (prerequisiteQuizIds.includes(body.id)) {
+      return jsonError("A quiz can't be its own prerequisite.", { status: 400, headers });
+    }
+    const found = await prisma.quiz.count({ where: { id: { in: prerequisiteQuizIds } } });
+    if (found !== prerequisiteQuizIds.length) {
+      return jsonError("Invalid prerequisiteQuizIds.", { status: 400, headers });
+    }
+    if (await createsPrerequisiteCycle(prisma, body.id, prerequisiteQuizIds)) {
+      return jsonError("Those prerequisites would make quizzes wait on each other.", {
+        status: 400,
+        code: "PREREQUISITE_CYCLE",
+        headers,
+      });
+    }
+  }
+
+  // Settings are part of what a review signs off on; catalogue details, publishing and
+  // listing are not.
+  const settings: Partial<DraftSettings> = {
+    ...(body.timeLimitSeconds !== undefined ? { timeLimitSeconds: body.timeLimitSeconds } : {}),
+    ...(body.scoringPolicy !== undefined ? { scoringPolicy: body.scoringPolicy } : {}),
+    ...(body.wrongAnswerPenalty !== undefined ? { wrongAnswerPenalty: body.wrongAnswerPenalty } : {}),
+    ...(body.revealPolicy !== undefined ? { revealPolicy: body.revealPolicy } : {}),
+    ...(body.maxAttempts !== undefined ? { maxAttempts: body.maxAttempts } : {}),
+    ...(body.attemptCooldownSeconds !== undefined ? { attemptCooldownSeconds: body.attemptCooldownSeconds } : {}),
+    ...(body.finalScorePolicy !== undefined ? { finalScorePolicy: body.finalScorePolicy } : {}),
+    ...(body.shuffleQuestions !== undefined ? { shuffleQuestions: body.shuffleQuestions } : {}),
+    ...(body.shuffleChoices !== undefined ? { shuffleChoices: body.shuffleChoices } : {}),
+    ...(body.drawCount !== undefined ? { drawCount: body.drawCount } : {}),
+    ...(body.deliveryMode !== undefined ? { deliveryMode: body.deliveryMode } : {}),
+    ...(body.allowBackNavigation !== undefined ? { allowBackNavigation: body.allowBackNavigation } : {}),
+    ...(body.allowPractice !== undefined ? { allowPractice: body.allowPractice } : {}),
+    ...(opensAt !== undefined ? { opensAt } : {}),
+    ...(closesAt !== undefined ? { closesAt } : {}),
+    ...(body.visibility !== undefined ? { visibility: body.visibility } : {}),
+    ...(accessCodeHash !== undefined ? { accessCodeHash } : {}),
+    ...(body.passPercent !== undefined ? { passPercent: body.passPercent } : {}),
+  };
+  const editsSettings = Object.keys(settings).length > 0;
+
+  const outcome = await prisma.$transaction(
+    async (tx) => {
+      if (editsSettings) {
+        const editable = await checkDraftEditable(tx, current.id);
+        if (!editable.ok) return { error: editable };
+      }
+
+      // A new version goes out only once approved: on a publish, or when a quiz without
+      // one is first listed. Listing and unlisting an already published version is free.
+      const live = await liveVersion(tx, current.id);
+      const publishes = Boolean(body.publish) || (body.isPublished === true && !live);
+      const published = publishes ? await publishApproved(tx, current.id, admin.userId) : null;
+      if (published && !published.ok) return { error: published };
+
+      // Learners keep the live version's settings until the draft's are published.
+      if (editsSettings) {
+        await tx.quizVersion.update({ where: { id: await draftVersionId(tx, current.id) }, data: settings });
+        await reopenDraft(tx, current.id);
+      }
+
+      const updated = await tx.quiz.update({
+        where: { id: body.id },
+        include: prerequisitesInclude,
+        data: {
+          ...(body.title !== undefined ? { title: body.title.trim() } : {}),
+          ...(body.description !== undefined ? { description: body.description?.trim() || null } : {}),
+          ...(body.categoryId !== undefined ? { categoryId: body.categoryId } : {}),
+          ...(body.isPublished !== undefined ? { isPublished: body.isPublished } : {}),
+          ...(live ? {} : settings),
+          ...(prerequisiteQuizIds
+            ? {
+                prerequisites: {
+                  deleteMany: {},
+                  create: prerequisiteQuizIds.map((requiredQuizId) => ({ requiredQuizId })),
+                },
+              }
+            : {}),
+        },
+      });
+      if (!published && updated.isPublished !== current.isPublished) {
+        await logActivity(tx, updated.id, admin.userId, updated.isPublished ? "PUBLISHED" : "UNPUBLISHED");
+      }
+      return { quiz: { ...updated, ...(await draftSettings(tx, updated.id)) } };
     },
-  });
+    { timeout: 60_000 }
+  );
 
-  return jsonOk({ ok: true, quiz }, { headers });
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+  return jsonOk({ ok: true, quiz: adminQuizView(outcome.quiz) }, { headers });
 }
 
 export async function DELETE(req: NextRequest) {
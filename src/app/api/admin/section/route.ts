@@ -0,0 +1,235 @@
+import type { Prisma } from "@prisma/client";
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { checkDraftEditable, reopenDraft } from "@/lib/editorial";
+import { DRAFT_VERSION, draftQuestionsWhere } from "@/lib/versions";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+// null means the section is untimed.
+function isOptionalTimeLimit(value: unknown): value is number | null {
+  return value === null || (typeof value === "number" && Number.isInteger(value) && value >= 1);
+}
+
+type CreateBody = {
+  quizId: string;
+  title: string;
+  instructions?: string | null;
+  timeLimitSeconds?: number | null;
+  allowReturn?: boolean;
+};
+
+type UpdateBody = {
+  id: string;
+  title?: string;
+  instructions?: string | null;
+  timeLimitSeconds?: number | null;
+  allowReturn?: boolean;
+  move?: "UP" | "DOWN";
+};
+
+// Counts the draft's questions, the ones being edited.
+const sectionInclude = { _count: { select: { questions: { where: draftQuestionsWhere } } } };
+
+// Sections are shared by every version of a quiz, so one holding questions of a
+// published version is frozen along with them.
+async function isPublishedSection(db: Prisma.TransactionClient, id: string) {
+  const count = await db.question.count({ where: { sectionId: id, version: { number: { gt: DRAFT_VERSION } } } });
+  return count > 0;
+}
+
+const publishedSection = "Sections used by a published version can't be changed or moved.";
+
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `admin:section:get:${admin.userId}:${ip}`, limit: 240, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const { searchParams } = new URL(req.url);
+  const quizId = searchParams.get("quizId");
+  if (!quizId) return jsonError("quizId is required.", { status: 400, headers });
+
+  const sections = await prisma.section.findMany({
+    where: { quizId },
+    orderBy: { order: "asc" },
+    include: sectionInclude,
+  });
+
+  return jsonOk({ ok: true, sections }, { headers });
+}
+
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:section:post:${admin.userId}`, limit: 120, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as CreateBody | null;
+  if (!body?.quizId || !body.title?.trim()) {
+    return jsonError("quizId and title are required.", { status: 400, headers });
+  }
+  if (body.timeLimitSeconds !== undefined && !isOptionalTimeLimit(body.timeLimitSeconds)) {
+    return jsonError("timeLimitSeconds must be a positive integer or null.", { status: 400, headers });
+  }
+
+  const quizId = body.quizId;
+  const outcome = await prisma.$transaction(async (tx) => {
+    const editable = await checkDraftEditable(tx, quizId);
+    if (!editable.ok) return { error: editable };
+
+    // New sections go after the existing ones.
+    const order = await tx.section
+      .aggregate({ where: { quizId }, _max: { order: true } })
+      .then((r) => (r._max.order ?? -1) + 1);
+
+    const section = await tx.section.create({
+      data: {
+        quizId,
+        title: body.title.trim(),
+        instructions: body.instructions?.trim() || null,
+        order,
+        timeLimitSeconds: body.timeLimitSeconds ?? null,
+        allowReturn: body.allowReturn ?? true,
+      },
+      include: sectionInclude,
+    });
+    await reopenDraft(tx, quizId);
+    return { section };
+  });
+
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+  return jsonOk({ ok: true, section: outcome.section }, { status: 201, headers });
+}
+
+export async function PUT(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:section:put:${admin.userId}`, limit: 240, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as UpdateBody | null;
+  if (!body?.id) return jsonError("id is required.", { status: 400, headers });
+
+  const existing = await prisma.section.findUnique({
+    where: { id: body.id },
+    select: { id: true, quizId: true, order: true },
+  });
+  if (!existing) return jsonError("Section not found.", { status: 404, headers });
+  if (await isPublishedSection(prisma, existing.id)) {
+    return jsonError(publishedSection, { status: 409, code: "SECTION_PUBLISHED", headers });
+  }
+
+  // Reorder helper: swap section.order with its neighbor. The section is parked on a
+  // free order first, as (quizId, order) is unique.
+  if (body.move) {
+    const swapped = await prisma.$transaction(async (tx) => {
+      const editable = await checkDraftEditable(tx, existing.quizId);
+      if (!editable.ok) return { error: editable };
+
+      const neighbor = await tx.section.findFirst({
+        where: { quizId: existing.quizId, order: body.move === "UP" ? { lt: existing.order } : { gt: existing.order } },
+        orderBy: { order: body.move === "UP" ? "desc" : "asc" },
+        select: { id: true, order: true },
+      });
+      if (!neighbor) return {};
+      if (await isPublishedSection(tx, neighbor.id)) {
+        return { error: { message: publishedSection, code: "SECTION_PUBLISHED" } };
+      }
+
+      await tx.section.update({ where: { id: existing.id }, data: { order: -1 } });
+      await tx.section.update({ where: { id: neighbor.id }, data: { order: existing.order } });
+      await tx.section.update({ where: { id: existing.id }, data: { order: neighbor.order } });
+      await reopenDraft(tx, existing.quizId);
+      return {};
+    });
+
+    if (swapped.error) {
+      return jsonError(swapped.error.message, { status: 409, code: swapped.error.code, headers });
+    }
+    return jsonOk({ ok: true }, { headers });
+  }
+
+  if (body.title !== undefined && !body.title.trim()) {
+    return jsonError("title cannot be empty.", { status: 400, headers });
+  }
+  if (body.timeLimitSeconds !== undefined && !isOptionalTimeLimit(body.timeLimitSeconds)) {
+    return jsonError("timeLimitSeconds must be a positive integer or null.", { status: 400, headers });
+  }
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    const editable = await checkDraftEditable(tx, existing.quizId);
+    if (!editable.ok) return { error: editable };
+
+    const section = await tx.section.update({
+      where: { id: existing.id },
+      data: {
+        ...(body.title !== undefined ? { title: body.title.trim() } : {}),
+        ...(body.instructions !== undefined ? { instructions: body.instructions?.trim() || null } : {}),
+        ...(body.timeLimitSeconds !== undefined ? { timeLimitSeconds: body.timeLimitSeconds } : {}),
+        ...(body.allowReturn !== undefined ? { allowReturn: body.allowReturn } : {}),
+      },
+      include: sectionInclude,
+    });
+    await reopenDraft(tx, existing.quizId);
+    return { section };
+  });
+
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+  return jsonOk({ ok: true, section: outcome.section }, { headers });
+}
+
+// Deleting a section keeps its questions; they move to the unsectioned tail of the quiz.
+export async function DELETE(req: NextRequest) {
+  const admin = await requireAdmin(req);
+  if (!admin) return jsonError("Forbidden.", { status: 403 });
+
+  const rl = rateLimit({ key: `admin:section:delete:${admin.userId}`, limit: 60, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as { id?: string } | null;
+  if (!body?.id) return jsonError("id is required.", { status: 400, headers });
+
+  const existing = await prisma.section.findUnique({ where: { id: body.id }, select: { id: true, quizId: true } });
+  if (!existing) return jsonError("Section not found.", { status: 404, headers });
+  if (await isPublishedSection(prisma, existing.id)) {
+    return jsonError(publishedSection, { status: 409, code: "SECTION_PUBLISHED", headers });
+  }
+  const outcome = await prisma.$transaction(async (tx) => {
+    const editable = await checkDraftEditable(tx, existing.quizId);
+    if (!editable.ok) return { error: editable };
+
+    await tx.section.delete({ where: { id: existing.id } });
+    await reopenDraft(tx, existing.quizId);
+    return {};
+  });
+
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+  return jsonOk({ ok: true }, { headers });
+}
@@ -0,0 +1,82 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { passedQuizIds, unmetPrerequisitesByQuizId } from "@/lib/prerequisites";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+// Published learning paths. With an id, the path's steps and where the signed-in learner
+// stands on each: COMPLETED once passed, LOCKED while a prerequisite is unpassed,
+// UNLOCKED otherwise. Unpublished quizzes are left out of the steps.
+export async function GET(req: NextRequest) {
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `path:get:${ip}`, limit: 120, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    const paths = await prisma.learningPath.findMany({
+      where: { isPublished: true },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        _count: { select: { steps: { where: { quiz: { isPublished: true } } } } },
+      },
+    });
+    return jsonOk({ ok: true, paths }, { headers });
+  }
+
+  const auth = await requireAuth(req);
+  const path = await prisma.learningPath.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      isPublished: true,
+      steps: {
+        where: { quiz: { isPublished: true } },
+        orderBy: { order: "asc" },
+        select: { quiz: { select: { id: true, title: true, description: true, passPercent: true } } },
+      },
+    },
+  });
+  if (!path || (!path.isPublished && auth?.role !== "ADMIN")) {
+    return jsonError("Path not found.", { status: 404, headers });
+  }
+
+  const quizIds = path.steps.map((s) => s.quiz.id);
+  const passed = auth ? await passedQuizIds(prisma, auth.userId, quizIds) : new Set<string>();
+  const unmet = await unmetPrerequisitesByQuizId(prisma, quizIds, auth?.userId ?? null);
+
+  const steps = path.steps.map(({ quiz }) => {
+    const unmetPrerequisites = unmet.get(quiz.id) ?? [];
+    const status = passed.has(quiz.id) ? "COMPLETED" : unmetPrerequisites.length ? "LOCKED" : "UNLOCKED";
+    return { quiz, status, unmetPrerequisites };
+  });
+
+  return jsonOk(
+    {
+      ok: true,
+      path: { id: path.id, title: path.title, description: path.description, steps },
+      completedCount: steps.filter((s) => s.status === "COMPLETED").length,
+    },
+    { headers }
+  );
+}
@@ -0,0 +1,162 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { answerInputFromSaved, savedAnswerSelect } from "@/lib/answers";
+import { gradeAttempt } from "@/lib/grading";
+import { canRevealAnswers } from "@/lib/reveal";
+import { servedQuestions } from "@/lib/adaptive";
+import { scopeToAttempt } from "@/lib/pools";
+import { paperOrderBy, sectionRulesSelect, sectionSubtotals, versionSections } from "@/lib/sections";
+import { keyScrambleSeed, layoutQuestions, seededScramble, seededShuffle } from "@/lib/shuffle";
+import { versionSettingsSelect } from "@/lib/versions";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+// Review of a submitted attempt: every question with the learner's saved answer and,
+// when the quiz's reveal policy allows (always for admins), the answer key, rationale
+// and per-question grade. Only the attempt's owner and admins may read it.
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!auth) return jsonError("Unauthorized.", { status: 401 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `quiz:attempt:get:${auth.userId}:${ip}`, limit: 120, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  if (!id) return jsonError("id is required.", { status: 400, headers });
+
+  const attempt = await prisma.attempt.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      userId: true,
+      status: true,
+      attemptNo: true,
+      startedAt: true,
+      submittedAt: true,
+      score: true,
+      maxScore: true,
+      shuffleSeed: true,
+      questionIds: true,
+      quiz: {
+        select: {
+          id: true,
+          title: true,
+          isPublished: true,
+          revealPolicy: true,
+          closesAt: true,
+          sections: { orderBy: { order: "asc" }, select: sectionRulesSelect },
+        },
+      },
+      // Reviewed on the version it was taken on, and under its settings, whatever has
+      // been published since.
+      version: {
+        select: {
+          ...versionSettingsSelect,
+          questions: {
+            orderBy: paperOrderBy,
+            select: {
+              id: true,
+              sectionId: true,
+              prompt: true,
+              rationale: true,
+              type: true,
+              order: true,
+              scoringPolicy: true,
+              points: true,
+              numericMode: true,
+              numericAnswer: true,
+              numericTolerance: true,
+              numericMin: true,
+              numericMax: true,
+              choices: {
+                orderBy: { order: "asc" },
+                select: { id: true, text: true, order: true, isCorrect: true, isAnchored: true, matchTargetId: true },
+              },
+              acceptedAnswers: { orderBy: { order: "asc" }, select: { id: true, text: true, isRegex: true } },
+              matchTargets: { orderBy: { order: "asc" }, select: { id: true, text: true } },
+            },
+          },
+        },
+      },
+      answers: { select: savedAnswerSelect },
+    },
+  });
+
+  // Someone else's attempt is reported as missing rather than forbidden.
+  if (!attempt || (attempt.userId !== auth.userId && auth.role !== "ADMIN")) {
+    return jsonError("Attempt not found.", { status: 404, headers });
+  }
+  if (attempt.status === "IN_PROGRESS") {
+    return jsonError("Attempt has not been submitted yet.", { status: 409, code: "ATTEMPT_IN_PROGRESS", headers });
+  }
+
+  const { questions: versionQuestions, ...settings } = attempt.version;
+  const quiz = { ...attempt.quiz, ...settings, sections: versionSections(attempt.quiz.sections, versionQuestions) };
+  const answersByQuestionId = new Map(attempt.answers.map((a) => [a.questionId, answerInputFromSaved(a)] as const));
+  // Per-question results are recomputed from the saved answers; the totals are the recorded ones.
+  const isAdaptive = quiz.deliveryMode === "ADAPTIVE";
+  const drawn = isAdaptive
+    ? servedQuestions(versionQuestions, attempt.questionIds)
+    : scopeToAttempt(versionQuestions, attempt.questionIds);
+  const { results } = gradeAttempt(drawn, answersByQuestionId, quiz);
+  const resultById = new Map(results.map((r) => [r.questionId, r] as const));
+
+  const answersRevealed = auth.role === "ADMIN" || canRevealAnswers(quiz, attempt.status);
+
+  // Laid out as the learner saw it; adaptive attempts in the order questions were served.
+  const shuffle = { shuffleQuestions: quiz.shuffleQuestions && !isAdaptive, shuffleChoices: quiz.shuffleChoices };
+  const questions = layoutQuestions(drawn, shuffle, attempt.shuffleSeed).map((q) => {
+    const answer = answersByQuestionId.get(q.id) ?? null;
+    if (answersRevealed) return { ...q, answer, result: resultById.get(q.id) };
+
+    // Same shape the learner saw while answering: no key columns, ORDERING scrambled
+    // and renumbered, MATCHING targets shuffled.
+    const choices = q.choices.map((c) => ({ id: c.id, text: c.text, order: c.order }));
+    const seed = keyScrambleSeed(q.id, attempt.shuffleSeed);
+    return {
+      id: q.id,
+      prompt: q.prompt,
+      type: q.type,
+      order: q.order,
+      points: q.points,
+      choices: q.type === "ORDERING" ? seededScramble(choices, seed).map((c, idx) => ({ ...c, order: idx })) : choices,
+      matchTargets: q.type === "MATCHING" ? seededShuffle(q.matchTargets, seed) : q.matchTargets,
+      answer,
+    };
+  });
+
+  return jsonOk(
+    {
+      ok: true,
+      attempt: {
+        id: attempt.id,
+        status: attempt.status,
+        attemptNo: attempt.attemptNo,
+        startedAt: attempt.startedAt,
+        submittedAt: attempt.submittedAt,
+        score: attempt.score,
+        maxScore: attempt.maxScore,
+        quiz: { id: quiz.id, title: quiz.title },
+      },
+      answersRevealed,
+      sectionTotals: sectionSubtotals(quiz.sections, drawn, results),
+      questions,
+    },
+    { headers }
+  );
+}
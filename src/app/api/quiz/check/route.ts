@@ -0,0 +1,121 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { answerCreateData, answerInputError, answerUpdateData, type AnswerInput } from "@/lib/answers";
+import { lockedAnswerQuestionIds } from "@/lib/attempts";
+import { availabilitySelect, checkQuizWindow } from "@/lib/availability";
+import { gradableQuestionSelect, gradeQuestion } from "@/lib/grading";
+import { scopeToAttempt } from "@/lib/pools";
+import { paperOrderBy } from "@/lib/sections";
+import { versionSettingsSelect } from "@/lib/versions";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+type CheckBody = {
+  attemptId: string;
+  answer: AnswerInput;
+};
+
+// Practice mode: grades one answer of a practice attempt right away and returns the
+// result with the rationale. A checked answer is final for the rest of the attempt.
+export async function POST(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!auth) return jsonError("Unauthorized.", { status: 401 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `quiz:check:${auth.userId}:${ip}`, limit: 60, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as CheckBody | null;
+  if (!body?.attemptId || typeof body.answer?.questionId !== "string") {
+    return jsonError("Invalid payload.", { status: 400, headers });
+  }
+  const answer = body.answer;
+
+  const attempt = await prisma.attempt.findFirst({
+    where: { id: body.attemptId, userId: auth.userId, status: "IN_PROGRESS", isPractice: true },
+    select: {
+      id: true,
+      questionIds: true,
+      shuffleSeed: true,
+      position: true,
+      quiz: {
+        select: {
+          isPublished: true,
+          allowPractice: true,
+          ...availabilitySelect,
+        },
+      },
+      version: {
+        select: {
+          ...versionSettingsSelect,
+          questions: {
+            orderBy: paperOrderBy,
+            select: { ...gradableQuestionSelect, rationale: true, sectionId: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!attempt) return jsonError("Practice attempt not found.", { status: 404, headers });
+
+  const { questions, ...settings } = attempt.version;
+  // Checked under the settings of the version the attempt is on.
+  const quiz = { ...attempt.quiz, ...settings };
+  if (!quiz.isPublished || !quiz.allowPractice) {
+    return jsonError("Practice is not available for this quiz.", { status: 403, code: "PRACTICE_DISABLED", headers });
+  }
+  const availability = checkQuizWindow(quiz);
+  if (!availability.ok) {
+    return jsonError(availability.message, { status: 409, code: availability.code, headers });
+  }
+
+  const question = scopeToAttempt(questions, attempt.questionIds).find((q) => q.id === answer.questionId);
+  if (!question) {
+    return jsonError("That question is not part of this attempt.", {
+      status: 400,
+      code: "QUESTION_NOT_IN_ATTEMPT",
+      headers,
+    });
+  }
+
+  const invalid = answerInputError(question, answer);
+  if (invalid) return jsonError(invalid, { status: 400, headers });
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    const locked = await lockedAnswerQuestionIds(tx, questions, quiz, attempt);
+    if (locked.has(question.id)) {
+      return { error: { message: "This question has already been checked.", code: "QUESTION_LOCKED" } };
+    }
+
+    const checkedAt = new Date();
+    await tx.answer.upsert({
+      where: { attemptId_questionId: { attemptId: attempt.id, questionId: question.id } },
+      create: { attemptId: attempt.id, ...answerCreateData(answer), checkedAt },
+      update: { ...answerUpdateData(answer), checkedAt },
+    });
+    return { checkedAt };
+  });
+
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+
+  return jsonOk(
+    { ok: true, result: { ...gradeQuestion(question, answer, quiz), rationale: question.rationale } },
+    { headers }
+  );
+}
@@ -0,0 +1,269 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { accessRulesSelect, checkAccessCode } from "@/lib/access";
+import {
+  answerCreateData,
+  answerInputError,
+  answerInputFromSaved,
+  answerUpdateData,
+  savedAnswerSelect,
+  type AnswerInput,
+} from "@/lib/answers";
+import { adaptiveLength, pickNextQuestion, servedQuestions, targetDifficulty } from "@/lib/adaptive";
+import { availabilitySelect, checkQuizWindow } from "@/lib/availability";
+import {
+  attemptDeadline,
+  attemptLayout,
+  attemptRulesSelect,
+  checkNewAttempt,
+  DEADLINE_GRACE_MS,
+  finalizeAttempt,
+  finalizeExpiredAttempts,
+  getAttemptSummary,
+  lockedAnswerQuestionIds,
+  nextPracticeAttemptNo,
+} from "@/lib/attempts";
+import { gradableQuestionSelect, gradeAttempt } from "@/lib/grading";
+import { checkPrerequisites } from "@/lib/prerequisites";
+import { canRevealAnswers } from "@/lib/reveal";
+import { paperOrderBy } from "@/lib/sections";
+import { isLiveVersion, learnerVersionId, versionChanged, versionSettings } from "@/lib/versions";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+type NextBody = {
+  quizId: string;
+  attemptId?: string;
+  // The answer to the question currently served; left out to skip it (a miss).
+  answer?: AnswerInput;
+  practice?: boolean;
+  // Access-code quizzes: the code, needed only when this call starts the attempt.
+  accessCode?: string;
+};
+
+// Adaptive delivery: the server, not the client, picks each question. Without an
+// attempt this starts one and serves its first question; otherwise it records the
+// answer to the current question and serves the next, one difficulty step up after a
+// correct answer and one down after a miss. Once the attempt's length is reached it
+// is graded and closed, and the response carries the submission result.
+export async function POST(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!auth) return jsonError("Unauthorized.", { status: 401 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `quiz:next:${auth.userId}:${ip}`, limit: 60, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as NextBody | null;
+  if (!body?.quizId || (body.answer !== undefined && typeof body.answer?.questionId !== "string")) {
+    return jsonError("Invalid payload.", { status: 400, headers });
+  }
+  if (body.accessCode !== undefined && typeof body.accessCode !== "string") {
+    return jsonError("Invalid accessCode.", { status: 400, headers });
+  }
+  // Code guesses get their own, tighter budget.
+  if (body.accessCode !== undefined) {
+    const codeRl = rateLimit({ key: `quiz:access:${auth.userId}:${ip}`, limit: 10, windowMs: 60_000 });
+    if (!codeRl.ok) return jsonError("Too many access code attempts.", { status: 429, headers: rateHeaders(codeRl) });
+  }
+
+  const found = await prisma.quiz.findUnique({
+    where: { id: body.quizId },
+    select: {
+      ...attemptRulesSelect,
+      isPublished: true,
+      allowPractice: true,
+      revealPolicy: true,
+      ...availabilitySelect,
+      ...accessRulesSelect,
+    },
+  });
+
+  if (!found || !found.isPublished) {
+    return jsonError("Quiz not available.", { status: 404, headers });
+  }
+
+  const isPractice = Boolean(body.practice);
+  if (isPractice && !found.allowPractice) {
+    return jsonError("Practice is not available for this quiz.", { status: 403, code: "PRACTICE_DISABLED", headers });
+  }
+
+  const versionId = await learnerVersionId(prisma, {
+    userId: auth.userId,
+    quizId: body.quizId,
+    isPractice,
+    attemptId: body.attemptId,
+  });
+  if (!versionId) return jsonError("Quiz not available.", { status: 404, headers });
+  // Served and graded under the settings of the version the attempt is on.
+  const quiz = { ...found, ...(await versionSettings(prisma, versionId)) };
+  if (quiz.deliveryMode !== "ADAPTIVE") {
+    return jsonError("This quiz is not adaptive.", { status: 400, code: "NOT_ADAPTIVE", headers });
+  }
+
+  const pool = await prisma.question.findMany({
+    where: { versionId },
+    orderBy: paperOrderBy,
+    select: { ...gradableQuestionSelect, poolGroup: true, difficulty: true, rationale: true, sectionId: true },
+  });
+  if (pool.length === 0) {
+    return jsonError("Quiz has no questions.", { status: 400, headers });
+  }
+
+  const answer = body.answer;
+  if (answer) {
+    const q = pool.find((p) => p.id === answer.questionId);
+    if (!q) return jsonError("Invalid questionId.", { status: 400, headers });
+    const invalid = answerInputError(q, answer);
+    if (invalid) return jsonError(invalid, { status: 400, headers });
+  }
+
+  const length = adaptiveLength(quiz.drawCount, pool.length);
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    const expired = await finalizeExpiredAttempts(tx, { userId: auth.userId, quizId: body.quizId });
+    if (body.attemptId && expired.some((f) => f.attempt.id === body.attemptId)) {
+      return {
+        error: {
+          message: "Time is up. Your attempt was submitted with your last saved answers.",
+          code: "ATTEMPT_EXPIRED",
+        },
+      };
+    }
+
+    // Closing is checked after expired attempts are handed in, so they are still graded.
+    const availability = checkQuizWindow(quiz, new Date(), DEADLINE_GRACE_MS);
+    if (!availability.ok) return { error: availability };
+
+    const attempt = await tx.attempt.findFirst({
+      where: {
+        ...(body.attemptId ? { id: body.attemptId } : {}),
+        userId: auth.userId,
+        quizId: body.quizId,
+        status: "IN_PROGRESS",
+        isPractice,
+      },
+      orderBy: { startedAt: "desc" },
+      select: { id: true, startedAt: true, questionIds: true, shuffleSeed: true, position: true, versionId: true },
+    });
+
+    if (!attempt) {
+      if (body.attemptId || answer) {
+        return { error: { message: "This adaptive quiz has not been started.", code: "ATTEMPT_NOT_STARTED" } };
+      }
+
+      const access = await checkAccessCode(quiz, body.accessCode);
+      if (!access.ok) return { error: access };
+      const prerequisites = await checkPrerequisites(tx, body.quizId, auth.userId);
+      if (!prerequisites.ok) return { error: prerequisites };
+
+      // Practice attempts skip the attempt limits and cooldown.
+      const gate = isPractice
+        ? { ok: true as const, attemptNo: await nextPracticeAttemptNo(tx, body.quizId, auth.userId) }
+        : await checkNewAttempt(tx, quiz, auth.userId);
+      if (!gate.ok) return { error: gate };
+      if (!(await isLiveVersion(tx, body.quizId, versionId))) return { error: versionChanged };
+
+      const { shuffleSeed } = attemptLayout(pool, quiz, auth.userId, gate.attemptNo, isPractice);
+      const first = pickNextQuestion(pool, [], targetDifficulty([]), shuffleSeed);
+      const created = await tx.attempt.create({
+        data: {
+          userId: auth.userId,
+          quizId: body.quizId,
+          versionId,
+          attemptNo: gate.attemptNo,
+          isPractice,
+          shuffleSeed,
+          questionIds: first ? [first] : [],
+          status: "IN_PROGRESS",
+        },
+        select: { id: true, startedAt: true },
+      });
+      return { served: created };
+    }
+
+    if (attempt.versionId !== versionId) return { error: versionChanged };
+
+    // Only the question on screen can be answered; earlier ones are final.
+    const currentId = attempt.questionIds[attempt.questionIds.length - 1];
+    if (answer && answer.questionId !== currentId) {
+      return { error: { message: "That question can no longer be answered.", code: "QUESTION_LOCKED" } };
+    }
+    const locked = await lockedAnswerQuestionIds(tx, pool, quiz, attempt);
+    if (answer && !locked.has(answer.questionId)) {
+      await tx.answer.upsert({
+        where: { attemptId_questionId: { attemptId: attempt.id, questionId: answer.questionId } },
+        create: { attemptId: attempt.id, ...answerCreateData(answer) },
+        update: answerUpdateData(answer),
+      });
+    }
+
+    const saved = await tx.answer.findMany({ where: { attemptId: attempt.id }, select: savedAnswerSelect });
+    const answersByQuestionId = new Map(saved.map((a) => [a.questionId, answerInputFromSaved(a)] as const));
+    const served = servedQuestions(pool, attempt.questionIds);
+    const { results } = gradeAttempt(served, answersByQuestionId, quiz);
+
+    const nextId =
+      served.length < length
+        ? pickNextQuestion(pool, attempt.questionIds, targetDifficulty(results), attempt.shuffleSeed ?? attempt.id)
+        : null;
+    if (!nextId) {
+      return { finished: await finalizeAttempt(tx, attempt.id, new Date()) };
+    }
+
+    await tx.attempt.update({
+      where: { id: attempt.id },
+      data: { questionIds: [...attempt.questionIds, nextId], position: attempt.questionIds.length },
+    });
+    return { served: attempt };
+  });
+
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+
+  if (outcome.served) {
+    // Practice is untimed.
+    const deadline = isPractice
+      ? null
+      : attemptDeadline(outcome.served.startedAt, quiz.timeLimitSeconds, quiz.closesAt);
+    return jsonOk(
+      {
+        ok: true,
+        done: false,
+        attemptId: outcome.served.id,
+        deadline: deadline?.toISOString() ?? null,
+        serverNow: new Date().toISOString(),
+      },
+      { headers }
+    );
+  }
+
+  // The last question was answered: same shape as /api/quiz/submit.
+  const { finished } = outcome;
+  const answersRevealed = isPractice || canRevealAnswers(quiz, "SUBMITTED");
+  const rationaleById = new Map(pool.map((q) => [q.id, q.rationale] as const));
+  const revealedResults = answersRevealed
+    ? finished.results.map((r) => ({ ...r, rationale: rationaleById.get(r.questionId) ?? null }))
+    : [];
+
+  const attemptSummary = await getAttemptSummary(prisma, quiz, auth.userId);
+
+  return jsonOk(
+    { ok: true, done: true, ...finished, results: revealedResults, timedOut: false, answersRevealed, attemptSummary },
+    { headers }
+  );
+}
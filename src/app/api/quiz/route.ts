@@ -3,6 +3,31 @@ import type { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getClientIp, rateLimit } from "@/lib/rateLimit";
 import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { keyScrambleSeed, layoutQuestions, seededScramble, seededShuffle } from "@/lib/shuffle";
+import {
+  attemptDeadline,
+  attemptLayout,
+  checkedAnswerResults,
+  finalizeExpiredAttempts,
+  getAttemptSummary,
+  nextPracticeAttemptNo,
+} from "@/lib/attempts";
+import { adaptiveLength, servedQuestions } from "@/lib/adaptive";
+import { drawQuestionIds, scopeToAttempt } from "@/lib/pools";
+import { unmetPrerequisitesByQuizId } from "@/lib/prerequisites";
+import { checkQuizWindow } from "@/lib/availability";
+import { canRevealAnswers } from "@/lib/reveal";
+import { paperOrderBy, sectionRulesSelect, sectionsApply, sectionState, versionSections } from "@/lib/sections";
+import { checkDraftEditable, logActivity, publishApproved, reopenDraft } from "@/lib/editorial";
+import { withoutAccessCodeHash } from "@/lib/access";
+import {
+  DRAFT_VERSION,
+  currentVersionId,
+  draftSettings,
+  draftVersionId,
+  liveVersion,
+  versionSettings,
+} from "@/lib/versions";
 
 export const runtime = "nodejs";
 import { requireAdmin, requireAuth } from "@/lib/apiAuth";
@@ -25,23 +50,17 @@ export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const id = searchParams.get("id");
   const categorySlug = searchParams.get("category");
+  const practice = searchParams.get("practice") === "1";
 
   if (id) {
     const auth = await requireAuth(req);
 
     const quiz = await prisma.quiz.findUnique({
       where: { id },
+      omit: { accessCodeHash: true },
       include: {
         category: { select: { id: true, name: true, slug: true } },
-        questions: {
-          orderBy: { order: "asc" },
-          include: {
-            choices: {
-              orderBy: { order: "asc" },
-              select: { id: true, text: true, order: true },
-            },
-          },
-        },
+        sections: { orderBy: { order: "asc" }, select: sectionRulesSelect },
       },
     });
 
@@ -50,13 +69,161 @@ export async function GET(req: NextRequest) {
     if (!quiz.isPublished && auth?.role !== "ADMIN") {
       return jsonError("Quiz not available.", { status: 404, headers });
     }
+    if (practice && !quiz.allowPractice) {
+      return jsonError("Practice is not available for this quiz.", { status: 403, code: "PRACTICE_DISABLED", headers });
+    }
+
+    const revealRationale = canRevealAnswers(quiz, null);
+
+    // Outside its window a quiz is listed without its questions; admins can preview it any time.
+    const availability = checkQuizWindow(quiz);
+    const unavailable =
+      availability.ok || auth?.role === "ADMIN" ? null : { code: availability.code, message: availability.message };
+
+    // Where a signed-in learner resumes, and their attempt allowance; attempts whose
+    // time ran out are closed first. Practice resumes the practice attempt instead,
+    // with the feedback of the questions already checked.
+    const learner = auth
+      ? await prisma.$transaction(async (tx) => {
+          await finalizeExpiredAttempts(tx, { userId: auth.userId, quizId: quiz.id });
+          const inProgress = await tx.attempt.findFirst({
+            where: { userId: auth.userId, quizId: quiz.id, status: "IN_PROGRESS", isPractice: practice },
+            orderBy: { startedAt: "desc" },
+            select: {
+              id: true,
+              startedAt: true,
+              shuffleSeed: true,
+              questionIds: true,
+              position: true,
+              flaggedQuestionIds: true,
+              sectionId: true,
+              isPractice: true,
+              versionId: true,
+            },
+          });
+          const summary = await getAttemptSummary(tx, quiz, auth.userId);
+          const settings = inProgress ? await versionSettings(tx, inProgress.versionId) : null;
+          return {
+            inProgress,
+            summary,
+            nextAttemptNo: practice ? await nextPracticeAttemptNo(tx, quiz.id, auth.userId) : summary.lastAttemptNo + 1,
+            checkedResults:
+              inProgress && settings && practice ? await checkedAnswerResults(tx, inProgress.id, settings) : [],
+          };
+        })
+      : null;
+    const attempt = unavailable ? null : (learner?.inProgress ?? null);
+    // An access-code quiz keeps its questions back until the code has started an attempt.
+    const accessCodeRequired = quiz.visibility === "ACCESS_CODE" && auth?.role !== "ADMIN" && !attempt;
+    // So does a quiz whose prerequisites the learner hasn't passed yet; an attempt
+    // already running carries on.
+    const unmetPrerequisites =
+      auth?.role === "ADMIN" || attempt
+        ? []
+        : ((await unmetPrerequisitesByQuizId(prisma, [quiz.id], auth?.userId ?? null)).get(quiz.id) ?? []);
+
+    // A running attempt keeps the questions and settings of the version it started on;
+    // otherwise the live version's are shown, or the draft's when previewing a
+    // never-published quiz.
+    const versionId = attempt?.versionId ?? (await currentVersionId(prisma, quiz.id));
+    const paper = { ...quiz, ...(versionId ? await versionSettings(prisma, versionId) : {}) };
+    const deadline =
+      attempt && !practice ? attemptDeadline(attempt.startedAt, paper.timeLimitSeconds, quiz.closesAt) : null;
+    const quizQuestions = versionId
+      ? await prisma.question.findMany({
+          where: { versionId },
+          orderBy: paperOrderBy,
+          // Explicit select: answer-key columns (isCorrect, numeric*) must never reach learners;
+          // rationale is dropped below unless the reveal policy allows it.
+          select: {
+            id: true,
+            prompt: true,
+            hint: true,
+            rationale: true,
+            type: true,
+            order: true,
+            points: true,
+            poolGroup: true,
+            sectionId: true,
+            choices: {
+              orderBy: { order: "asc" },
+              select: { id: true, text: true, order: true, isAnchored: true },
+            },
+            matchTargets: { select: { id: true, text: true } },
+          },
+        })
+      : [];
+    // Only the sections the version's questions are in.
+    const sections = versionSections(quiz.sections, quizQuestions);
+    const sectionProgress =
+      attempt && sectionsApply({ ...paper, sections }, practice) ? await sectionState(prisma, attempt, sections) : null;
+
+    // The running attempt's draw and layout, or those the learner's next attempt will
+    // get. Signed-out visitors see an unshuffled draw.
+    const layout = attempt
+      ? { shuffleSeed: attempt.shuffleSeed, questionIds: attempt.questionIds }
+      : learner && auth
+        ? attemptLayout(quizQuestions, paper, auth.userId, learner.nextAttemptNo, practice)
+        : { shuffleSeed: null, questionIds: drawQuestionIds(quizQuestions, paper.drawCount, quiz.id) };
+
+    // ORDERING choices are stored in key order: present them scrambled and
+    // renumbered so neither the array nor `order` gives the answer away. MATCHING
+    // targets are shuffled too, as authors tend to list them beside their pairs.
+    // Adaptive quizzes only show what has been served, in the order it was served.
+    const isAdaptive = paper.deliveryMode === "ADAPTIVE";
+    const drawn =
+      unavailable || accessCodeRequired || unmetPrerequisites.length
+        ? []
+        : isAdaptive
+          ? servedQuestions(quizQuestions, attempt?.questionIds ?? [])
+          : scopeToAttempt(quizQuestions, layout.questionIds);
+    const shuffle = { shuffleQuestions: paper.shuffleQuestions && !isAdaptive, shuffleChoices: paper.shuffleChoices };
+    const questions = layoutQuestions(drawn, shuffle, layout.shuffleSeed).map((question) => {
+      const q = { ...question, rationale: revealRationale ? question.rationale : null };
+      if (q.type === "ORDERING") {
+        const seed = keyScrambleSeed(q.id, layout.shuffleSeed);
+        return { ...q, choices: seededScramble(q.choices, seed).map((c, idx) => ({ ...c, order: idx })) };
+      }
+      if (q.type === "MATCHING") {
+        return { ...q, matchTargets: seededShuffle(q.matchTargets, keyScrambleSeed(q.id, layout.shuffleSeed)) };
+      }
+      return q;
+    });
 
-    return jsonOk({ ok: true, quiz }, { headers });
+    return jsonOk(
+      {
+        ok: true,
+        quiz: {
+          ...paper,
+          sections,
+          questions,
+          adaptiveLength: isAdaptive ? adaptiveLength(paper.drawCount, quizQuestions.length) : null,
+        },
+        attempt: attempt
+          ? {
+              id: attempt.id,
+              deadline: deadline?.toISOString() ?? null,
+              position: attempt.position,
+              flaggedQuestionIds: attempt.flaggedQuestionIds,
+              checkedResults: learner?.checkedResults ?? [],
+              sections: sectionProgress,
+            }
+          : null,
+        attemptSummary: learner?.summary ?? null,
+        unavailable,
+        accessCodeRequired,
+        unmetPrerequisites,
+        serverNow: new Date().toISOString(),
+      },
+      { headers }
+    );
   }
 
   const quizzes = await prisma.quiz.findMany({
+    // Unlisted and access-code quizzes are reached by link only.
     where: {
       isPublished: true,
+      visibility: "PUBLIC",
       ...(categorySlug
         ? {
             category: { slug: categorySlug },
@@ -68,13 +235,27 @@ export async function GET(req: NextRequest) {
       id: true,
       title: true,
       description: true,
-      timeLimitSeconds: true,
+      opensAt: true,
+      closesAt: true,
       createdAt: true,
       category: { select: { id: true, name: true, slug: true } },
+      // New attempts get the live version's time limit.
+      versions: {
+        where: { number: { gt: DRAFT_VERSION } },
+        orderBy: { number: "desc" },
+        take: 1,
+        select: { timeLimitSeconds: true },
+      },
     },
   });
 
-  return jsonOk({ ok: true, quizzes }, { headers });
+  return jsonOk(
+    {
+      ok: true,
+      quizzes: quizzes.map(({ versions, ...q }) => ({ ...q, timeLimitSeconds: versions[0]?.timeLimitSeconds ?? null })),
+    },
+    { headers }
+  );
 }
 
 export async function POST(req: NextRequest) {
@@ -97,16 +278,26 @@ export async function POST(req: NextRequest) {
 
   const title = (body?.title ?? "").trim();
   if (!title) return jsonError("Title is required.", { status: 400, headers });
+  if (body?.isPublished) {
+    return jsonError("New quizzes start as drafts; publish them once a review has approved them.", {
+      status: 409,
+      code: "NOT_APPROVED",
+      headers,
+    });
+  }
 
-  const quiz = await prisma.quiz.create({
-    data: {
-      title,
-      description: body?.description?.trim() || null,
-      categoryId: body?.categoryId ?? null,
-      timeLimitSeconds: body?.timeLimitSeconds ?? null,
-      isPublished: Boolean(body?.isPublished),
-      createdById: admin.userId,
-    },
+  const quiz = await prisma.$transaction(async (tx) => {
+    const created = await tx.quiz.create({
+      data: {
+        title,
+        description: body?.description?.trim() || null,
+        categoryId: body?.categoryId ?? null,
+        timeLimitSeconds: body?.timeLimitSeconds ?? null,
+        createdById: admin.userId,
+      },
+    });
+    await draftVersionId(tx, created.id);
+    return created;
   });
 
   return jsonOk({ ok: true, quiz }, { status: 201, headers });
@@ -133,18 +324,53 @@ export async function PUT(req: NextRequest) {
 
   if (!body?.id) return jsonError("id is required.", { status: 400, headers });
 
-  const quiz = await prisma.quiz.update({
-    where: { id: body.id },
-    data: {
-      ...(body.title !== undefined ? { title: body.title.trim() } : {}),
-      ...(body.description !== undefined ? { description: body.description?.trim() || null } : {}),
-      ...(body.categoryId !== undefined ? { categoryId: body.categoryId } : {}),
-      ...(body.timeLimitSeconds !== undefined ? { timeLimitSeconds: body.timeLimitSeconds } : {}),
-      ...(body.isPublished !== undefined ? { isPublished: body.isPublished } : {}),
+  const current = await prisma.quiz.findUnique({ where: { id: body.id }, select: { id: true, isPublished: true } });
+  if (!current) return jsonError("Quiz not found.", { status: 404, headers });
+
+  // Same as the admin API: the time limit waits in the draft for a review, while the
+  // catalogue details and listing change straight away.
+  const settings = body.timeLimitSeconds !== undefined ? { timeLimitSeconds: body.timeLimitSeconds } : null;
+
+  const outcome = await prisma.$transaction(
+    async (tx) => {
+      if (settings) {
+        const editable = await checkDraftEditable(tx, current.id);
+        if (!editable.ok) return { error: editable };
+      }
+
+      // Only an approved quiz goes live on its first version.
+      const live = await liveVersion(tx, current.id);
+      const publishes = body.isPublished === true && !live;
+      const published = publishes ? await publishApproved(tx, current.id, admin.userId) : null;
+      if (published && !published.ok) return { error: published };
+
+      if (settings) {
+        await tx.quizVersion.update({ where: { id: await draftVersionId(tx, current.id) }, data: settings });
+        await reopenDraft(tx, current.id);
+      }
+
+      const updated = await tx.quiz.update({
+        where: { id: body.id },
+        data: {
+          ...(body.title !== undefined ? { title: body.title.trim() } : {}),
+          ...(body.description !== undefined ? { description: body.description?.trim() || null } : {}),
+          ...(body.categoryId !== undefined ? { categoryId: body.categoryId } : {}),
+          ...(body.isPublished !== undefined ? { isPublished: body.isPublished } : {}),
+          ...(live ? {} : settings),
+        },
+      });
+      if (!published && updated.isPublished !== current.isPublished) {
+        await logActivity(tx, updated.id, admin.userId, updated.isPublished ? "PUBLISHED" : "UNPUBLISHED");
+      }
+      return { quiz: withoutAccessCodeHash({ ...updated, ...(await draftSettings(tx, updated.id)) }) };
     },
-  });
+    { timeout: 60_000 }
+  );
 
-  return jsonOk({ ok: true, quiz }, { headers });
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+  return jsonOk({ ok: true, quiz: outcome.quiz }, { headers });
 }
 
 export async function DELETE(req: NextRequest) {
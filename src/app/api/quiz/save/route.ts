@@ -4,6 +4,32 @@ import { prisma } from "@/lib/prisma";
 import { requireAuth } from "@/lib/apiAuth";
 import { getClientIp, rateLimit } from "@/lib/rateLimit";
 import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { accessRulesSelect, checkAccessCode } from "@/lib/access";
+import { answerCreateData, answerInputError, answerUpdateData, type AnswerInput } from "@/lib/answers";
+import { availabilitySelect, checkQuizWindow } from "@/lib/availability";
+import {
+  attemptDeadline,
+  attemptRulesSelect,
+  DEADLINE_GRACE_MS,
+  attemptLayout,
+  checkNewAttempt,
+  finalizeExpiredAttempts,
+  lockedAnswerQuestionIds,
+  nextPracticeAttemptNo,
+} from "@/lib/attempts";
+import { resolvePosition } from "@/lib/paging";
+import { poolQuestionSelect, scopeToAttempt } from "@/lib/pools";
+import { checkPrerequisites } from "@/lib/prerequisites";
+import {
+  enterSection,
+  paperOrderBy,
+  sectionLockedQuestionIds,
+  sectionRulesSelect,
+  sectionsApply,
+  sectionState,
+  versionSections,
+} from "@/lib/sections";
+import { isLiveVersion, learnerVersionId, versionChanged, versionSettings } from "@/lib/versions";
 
 export const runtime = "nodejs";
 
@@ -18,10 +44,17 @@ function rateHeaders(rl: { limit: number; remaining: number; resetMs: number })
 type SaveBody = {
   quizId: string;
   attemptId?: string;
-  answers: Array<{
-    questionId: string;
-    choiceIds: string[];
-  }>;
+  answers: AnswerInput[];
+  // Paged quizzes: the question the learner is on, and the ones flagged for review.
+  position?: number;
+  flaggedQuestionIds?: string[];
+  // Work on the learner's practice attempt rather than a graded one.
+  practice?: boolean;
+  // Sectioned quizzes: the section to work in from now on. Answers in the body are
+  // saved to the section being left first.
+  sectionId?: string;
+  // Access-code quizzes: the code, needed only when this save starts the attempt.
+  accessCode?: string;
 };
 
 export async function POST(req: NextRequest) {
@@ -37,17 +70,119 @@ export async function POST(req: NextRequest) {
   if (!body?.quizId || !Array.isArray(body.answers)) {
     return jsonError("Invalid payload.", { status: 400, headers });
   }
+  if (body.position !== undefined && !Number.isInteger(body.position)) {
+    return jsonError("Invalid position.", { status: 400, headers });
+  }
+  if (
+    body.flaggedQuestionIds !== undefined &&
+    (!Array.isArray(body.flaggedQuestionIds) || body.flaggedQuestionIds.some((id) => typeof id !== "string"))
+  ) {
+    return jsonError("Invalid flaggedQuestionIds.", { status: 400, headers });
+  }
+  if (body.sectionId !== undefined && typeof body.sectionId !== "string") {
+    return jsonError("Invalid sectionId.", { status: 400, headers });
+  }
+  if (body.accessCode !== undefined && typeof body.accessCode !== "string") {
+    return jsonError("Invalid accessCode.", { status: 400, headers });
+  }
+  // Code guesses get their own, tighter budget.
+  if (body.accessCode !== undefined) {
+    const codeRl = rateLimit({ key: `quiz:access:${auth.userId}:${ip}`, limit: 10, windowMs: 60_000 });
+    if (!codeRl.ok) return jsonError("Too many access code attempts.", { status: 429, headers: rateHeaders(codeRl) });
+  }
 
-  const quiz = await prisma.quiz.findUnique({
+  const found = await prisma.quiz.findUnique({
     where: { id: body.quizId },
-    select: { id: true, isPublished: true },
+    select: {
+      ...attemptRulesSelect,
+      isPublished: true,
+      allowPractice: true,
+      ...availabilitySelect,
+      ...accessRulesSelect,
+      sections: { orderBy: { order: "asc" }, select: sectionRulesSelect },
+    },
   });
 
-  if (!quiz || !quiz.isPublished) {
+  if (!found || !found.isPublished) {
     return jsonError("Quiz not available.", { status: 404, headers });
   }
 
-  const attempt = await prisma.$transaction(async (tx) => {
+  const isPractice = Boolean(body.practice);
+  if (isPractice && !found.allowPractice) {
+    return jsonError("Practice is not available for this quiz.", { status: 403, code: "PRACTICE_DISABLED", headers });
+  }
+
+  const versionId = await learnerVersionId(prisma, {
+    userId: auth.userId,
+    quizId: body.quizId,
+    isPractice,
+    attemptId: body.attemptId,
+  });
+  if (!versionId) return jsonError("Quiz not available.", { status: 404, headers });
+
+  const pool = await prisma.question.findMany({
+    where: { versionId },
+    orderBy: paperOrderBy,
+    select: {
+      ...poolQuestionSelect,
+      sectionId: true,
+      type: true,
+      choices: { select: { id: true } },
+      matchTargets: { select: { id: true } },
+    },
+  });
+
+  // Delivered under the settings and sections of the version the attempt is on.
+  const quiz = {
+    ...found,
+    ...(await versionSettings(prisma, versionId)),
+    sections: versionSections(found.sections, pool),
+  };
+  const sectioned = sectionsApply(quiz, isPractice);
+  const byQuestionId = new Map(pool.map((q) => [q.id, q] as const));
+
+  // Same checks as a submit, so only ids of the question answered are stored.
+  for (const a of body.answers) {
+    const q = byQuestionId.get(a?.questionId);
+    if (!q) return jsonError("Invalid questionId.", { status: 400, headers });
+
+    const invalid = answerInputError(q, a);
+    if (invalid) return jsonError(invalid, { status: 400, headers });
+  }
+
+  // Answers must stay within the questions the attempt drew; stray flags are dropped.
+  const drawnIds = (questionIds: string[]) => new Set(scopeToAttempt(pool, questionIds).map((q) => q.id));
+  const isOutsideDraw = (drawn: Set<string>) => body.answers.some((a) => !drawn.has(a.questionId));
+  const flagsWithin = (drawn: Set<string>) =>
+    body.flaggedQuestionIds ? { flaggedQuestionIds: body.flaggedQuestionIds.filter((id) => drawn.has(id)) } : {};
+  const notInAttempt = { message: "That question is not part of this attempt.", code: "QUESTION_NOT_IN_ATTEMPT" };
+  const openAttemptSelect = {
+    id: true,
+    attemptNo: true,
+    startedAt: true,
+    questionIds: true,
+    shuffleSeed: true,
+    position: true,
+    sectionId: true,
+    versionId: true,
+  };
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    // An attempt whose time ran out is submitted with what was saved before the deadline.
+    const expired = await finalizeExpiredAttempts(tx, { userId: auth.userId, quizId: body.quizId });
+    if (body.attemptId && expired.some((f) => f.attempt.id === body.attemptId)) {
+      return {
+        error: {
+          message: "Time is up. Your attempt was submitted with your last saved answers.",
+          code: "ATTEMPT_EXPIRED",
+        },
+      };
+    }
+
+    // Closing is checked after expired attempts are handed in, so they are still graded.
+    const availability = checkQuizWindow(quiz, new Date(), DEADLINE_GRACE_MS);
+    if (!availability.ok) return { error: availability };
+
     // Resolve or create a single IN_PROGRESS attempt.
     const resolvedAttempt = body.attemptId
       ? await tx.attempt.findFirst({
@@ -56,59 +191,130 @@ export async function POST(req: NextRequest) {
             userId: auth.userId,
             quizId: body.quizId,
             status: "IN_PROGRESS",
+            isPractice,
           },
-          select: { id: true, attemptNo: true },
+          select: openAttemptSelect,
         })
       : await tx.attempt.findFirst({
-          where: { userId: auth.userId, quizId: body.quizId, status: "IN_PROGRESS" },
+          where: { userId: auth.userId, quizId: body.quizId, status: "IN_PROGRESS", isPractice },
           orderBy: { startedAt: "desc" },
-          select: { id: true, attemptNo: true },
+          select: openAttemptSelect,
         });
 
     if (resolvedAttempt) {
+      if (resolvedAttempt.versionId !== versionId) return { error: versionChanged };
+      const drawn = drawnIds(resolvedAttempt.questionIds);
+      if (isOutsideDraw(drawn)) return { error: notInAttempt };
+
+      const position = resolvePosition(quiz, resolvedAttempt.position, body.position, drawn.size);
+      if (position === null) {
+        return {
+          error: { message: "This quiz doesn't allow going back to earlier questions.", code: "BACK_NAVIGATION_DISABLED" },
+        };
+      }
+      const locked = await lockedAnswerQuestionIds(tx, pool, quiz, resolvedAttempt);
+
       // Upsert answers
       for (const a of body.answers) {
+        if (locked.has(a.questionId)) continue;
         await tx.answer.upsert({
           where: { attemptId_questionId: { attemptId: resolvedAttempt.id, questionId: a.questionId } },
-          create: {
-            attemptId: resolvedAttempt.id,
-            questionId: a.questionId,
-            choices: { connect: (a.choiceIds ?? []).map((id) => ({ id })) },
-          },
-          update: {
-            choices: { set: (a.choiceIds ?? []).map((id) => ({ id })) },
-          },
+          create: { attemptId: resolvedAttempt.id, ...answerCreateData(a) },
+          update: answerUpdateData(a),
         });
       }
 
-      return resolvedAttempt;
+      await tx.attempt.update({
+        where: { id: resolvedAttempt.id },
+        data: { position, ...flagsWithin(drawn) },
+      });
+
+      if (!sectioned) return { attempt: resolvedAttempt, sections: null };
+
+      // Answers above went to the section being left; now move on.
+      const sectionId = body.sectionId ?? resolvedAttempt.sectionId;
+      if (sectionId) {
+        const entered = await enterSection(tx, resolvedAttempt, quiz.sections, sectionId);
+        if (!entered.ok) return { error: entered };
+      }
+      return {
+        attempt: resolvedAttempt,
+        sections: await sectionState(tx, { ...resolvedAttempt, sectionId, isPractice }, quiz.sections),
+      };
     }
 
-    const last = await tx.attempt.aggregate({
-      where: { userId: auth.userId, quizId: body.quizId },
-      _max: { attemptNo: true },
-    });
+    // Adaptive attempts are started by /api/quiz/next, which serves their first question.
+    if (quiz.deliveryMode === "ADAPTIVE") {
+      return { error: { message: "Start the quiz first.", code: "ATTEMPT_NOT_STARTED" } };
+    }
+
+    const access = await checkAccessCode(quiz, body.accessCode);
+    if (!access.ok) return { error: access };
+    const prerequisites = await checkPrerequisites(tx, body.quizId, auth.userId);
+    if (!prerequisites.ok) return { error: prerequisites };
 
-    const attemptNo = (last._max.attemptNo ?? 0) + 1;
+    // Practice attempts skip the attempt limits and cooldown.
+    const gate = isPractice
+      ? { ok: true as const, attemptNo: await nextPracticeAttemptNo(tx, body.quizId, auth.userId) }
+      : await checkNewAttempt(tx, quiz, auth.userId);
+    if (!gate.ok) return { error: gate };
+    if (!(await isLiveVersion(tx, body.quizId, versionId))) return { error: versionChanged };
+
+    const layout = attemptLayout(pool, quiz, auth.userId, gate.attemptNo, isPractice);
+    const drawn = drawnIds(layout.questionIds);
+    if (isOutsideDraw(drawn)) return { error: notInAttempt };
+
+    // A sectioned attempt starts in the section asked for, or the first one; answers
+    // to the other sections' questions wait until the learner gets there.
+    const sectionId = sectioned ? (body.sectionId ?? quiz.sections[0].id) : null;
+    if (sectionId && !quiz.sections.some((s) => s.id === sectionId)) {
+      return { error: { message: "That section is not part of this quiz.", code: "INVALID_SECTION" } };
+    }
+    const outsideSection = sectionId ? sectionLockedQuestionIds(pool, sectionId, new Set()) : new Set<string>();
 
     const created = await tx.attempt.create({
       data: {
         userId: auth.userId,
         quizId: body.quizId,
-        attemptNo,
+        versionId,
+        attemptNo: gate.attemptNo,
+        isPractice,
+        ...layout,
+        position: resolvePosition(quiz, 0, body.position, drawn.size) ?? 0,
+        ...flagsWithin(drawn),
         status: "IN_PROGRESS",
+        sectionId,
+        ...(sectionId ? { sections: { create: { sectionId } } } : {}),
         answers: {
-          create: body.answers.map((a) => ({
-            questionId: a.questionId,
-            choices: { connect: (a.choiceIds ?? []).map((id) => ({ id })) },
-          })),
+          create: body.answers.filter((a) => !outsideSection.has(a.questionId)).map(answerCreateData),
         },
       },
-      select: { id: true, attemptNo: true },
+      select: { id: true, attemptNo: true, startedAt: true, sectionId: true },
     });
 
-    return created;
+    return {
+      attempt: created,
+      sections: sectioned ? await sectionState(tx, { ...created, isPractice }, quiz.sections) : null,
+    };
   });
 
-  return jsonOk({ ok: true, attemptId: attempt.id, attemptNo: attempt.attemptNo }, { headers });
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+
+  const { attempt, sections } = outcome;
+
+  // Practice is untimed.
+  const deadline = isPractice ? null : attemptDeadline(attempt.startedAt, quiz.timeLimitSeconds, quiz.closesAt);
+  return jsonOk(
+    {
+      ok: true,
+      attemptId: attempt.id,
+      attemptNo: attempt.attemptNo,
+      deadline: deadline?.toISOString() ?? null,
+      sections,
+      serverNow: new Date().toISOString(),
+    },
+    { headers }
+  );
 }
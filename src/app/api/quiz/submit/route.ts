@@ -4,6 +4,34 @@ import { prisma } from "@/lib/prisma";
 import { requireAuth } from "@/lib/apiAuth";
 import { getClientIp, rateLimit } from "@/lib/rateLimit";
 import { jsonError, jsonOk } from "@/lib/apiResponse";
+import {
+  answerCreateData,
+  answerInputError,
+  answerInputFromSaved,
+  answerUpdateData,
+  savedAnswerSelect,
+  type AnswerInput,
+} from "@/lib/answers";
+import { availabilitySelect, checkQuizWindow } from "@/lib/availability";
+import {
+  attemptRulesSelect,
+  DEADLINE_GRACE_MS,
+  attemptDeadline,
+  attemptLayout,
+  checkNewAttempt,
+  finalizeAttempt,
+  finalizeExpiredAttempts,
+  finalizedAttemptSelect,
+  getAttemptSummary,
+  lockedAnswerQuestionIds,
+} from "@/lib/attempts";
+import { gradableQuestionSelect, gradeAttempt } from "@/lib/grading";
+import { scopeToAttempt } from "@/lib/pools";
+import { checkPrerequisites } from "@/lib/prerequisites";
+import { canRevealAnswers } from "@/lib/reveal";
+import { scheduleMissedQuestions } from "@/lib/review";
+import { paperOrderBy, sectionRulesSelect, sectionsApply, sectionSubtotals, versionSections } from "@/lib/sections";
+import { isLiveVersion, learnerVersionId, versionChanged, versionSettings } from "@/lib/versions";
 
 export const runtime = "nodejs";
 
@@ -18,10 +46,9 @@ function rateHeaders(rl: { limit: number; remaining: number; resetMs: number })
 type SubmitBody = {
   quizId: string;
   attemptId?: string;
-  answers: Array<{
-    questionId: string;
-    choiceIds: string[];
-  }>;
+  answers: AnswerInput[];
+  // Finish the learner's practice attempt rather than a graded one.
+  practice?: boolean;
 };
 
 export async function POST(req: NextRequest) {
@@ -38,91 +65,162 @@ export async function POST(req: NextRequest) {
     return jsonError("Invalid payload.", { status: 400, headers });
   }
 
-  const quiz = await prisma.quiz.findUnique({
+  const found = await prisma.quiz.findUnique({
     where: { id: body.quizId },
-    select: { id: true, isPublished: true },
+    select: {
+      ...attemptRulesSelect,
+      isPublished: true,
+      revealPolicy: true,
+      allowPractice: true,
+      visibility: true,
+      ...availabilitySelect,
+      sections: { orderBy: { order: "asc" }, select: sectionRulesSelect },
+    },
   });
 
-  if (!quiz || !quiz.isPublished) {
+  if (!found || !found.isPublished) {
     return jsonError("Quiz not available.", { status: 404, headers });
   }
 
+  const isPractice = Boolean(body.practice);
+  if (isPractice && !found.allowPractice) {
+    return jsonError("Practice is not available for this quiz.", { status: 403, code: "PRACTICE_DISABLED", headers });
+  }
+
+  const versionId = await learnerVersionId(prisma, {
+    userId: auth.userId,
+    quizId: body.quizId,
+    isPractice,
+    attemptId: body.attemptId,
+  });
+  if (!versionId) return jsonError("Quiz not available.", { status: 404, headers });
+
   const questions = await prisma.question.findMany({
-    where: { quizId: body.quizId },
-    select: {
-      id: true,
-      type: true,
-      choices: { select: { id: true, isCorrect: true } },
-    },
+    where: { versionId },
+    orderBy: paperOrderBy,
+    select: { ...gradableQuestionSelect, rationale: true, poolGroup: true, sectionId: true },
   });
 
   if (questions.length === 0) {
     return jsonError("Quiz has no questions.", { status: 400, headers });
   }
 
+  // Delivered and graded under the settings and sections of the version the attempt is on.
+  const quiz = {
+    ...found,
+    ...(await versionSettings(prisma, versionId)),
+    sections: versionSections(found.sections, questions),
+  };
+
   const byQuestionId = new Map(questions.map((q) => [q.id, q] as const));
 
-  // Validate and score
-  let score = 0;
+  // Validate
+  const answersByQuestionId = new Map<string, AnswerInput>();
   for (const a of body.answers) {
     const q = byQuestionId.get(a.questionId);
     if (!q) return jsonError("Invalid questionId.", { status: 400, headers });
 
-    const submitted = new Set((a.choiceIds ?? []).filter(Boolean));
+    const invalid = answerInputError(q, a);
+    if (invalid) return jsonError(invalid, { status: 400, headers });
 
-    // Ensure submitted choices belong to the question
-    const validChoiceIds = new Set(q.choices.map((c) => c.id));
-    for (const cid of submitted) {
-      if (!validChoiceIds.has(cid)) {
-        return jsonError("Invalid choiceId.", { status: 400, headers });
-      }
-    }
+    answersByQuestionId.set(a.questionId, a);
+  }
 
-    const correct = new Set(q.choices.filter((c) => c.isCorrect).map((c) => c.id));
+  // Grades against the questions the attempt drew; null if an answer falls outside them.
+  const gradeDraw = (questionIds: string[], answers = answersByQuestionId) => {
+    const drawn = scopeToAttempt(questions, questionIds);
+    const drawnIds = new Set(drawn.map((q) => q.id));
+    if (body.answers.some((a) => !drawnIds.has(a.questionId))) return null;
+    return { ...gradeAttempt(drawn, answers, quiz), totalQuestions: drawn.length };
+  };
+  const notInAttempt = { message: "That question is not part of this attempt.", code: "QUESTION_NOT_IN_ATTEMPT" };
 
-    const isCorrect = (() => {
-      if (q.type === "SINGLE_CHOICE") {
-        if (submitted.size !== 1) return false;
-        for (const cid of submitted) return correct.has(cid) && correct.size === 1;
-        return false;
-      }
+  const outcome = await prisma.$transaction(async (tx) => {
+    // Past the deadline, the attempt is graded on its saved answers; this payload is ignored.
+    const expired = await finalizeExpiredAttempts(tx, { userId: auth.userId, quizId: body.quizId });
+    const timedOut = expired.find((f) => !body.attemptId || f.attempt.id === body.attemptId);
+    if (timedOut) return { ...timedOut, timedOut: true };
 
-      // MULTIPLE_CHOICE
-      if (submitted.size !== correct.size) return false;
-      for (const cid of correct) {
-        if (!submitted.has(cid)) return false;
-      }
-      return true;
-    })();
+    // Closing is checked after expired attempts are handed in, so they are still graded.
+    const availability = checkQuizWindow(quiz, new Date(), DEADLINE_GRACE_MS);
+    if (!availability.ok) return { error: availability };
 
-    if (isCorrect) score += 1;
-  }
+    // Adaptive attempts finish through /api/quiz/next once their last question is answered.
+    // Here they are only handed in as time runs out, graded on their saved answers.
+    if (quiz.deliveryMode === "ADAPTIVE") {
+      const adaptive = await tx.attempt.findFirst({
+        where: {
+          ...(body.attemptId ? { id: body.attemptId } : {}),
+          userId: auth.userId,
+          quizId: body.quizId,
+          status: "IN_PROGRESS",
+          isPractice,
+        },
+        orderBy: { startedAt: "desc" },
+        select: { id: true, startedAt: true },
+      });
+      if (!adaptive) {
+        return { error: { message: "This adaptive quiz has not been started.", code: "ATTEMPT_NOT_STARTED" } };
+      }
+      const deadline = isPractice ? null : attemptDeadline(adaptive.startedAt, quiz.timeLimitSeconds, quiz.closesAt);
+      // The grace period also covers a client clock running slightly ahead.
+      if (!deadline || deadline.getTime() > Date.now() + DEADLINE_GRACE_MS) {
+        return {
+          error: {
+            message: "Adaptive quizzes finish once the last question is answered.",
+            code: "ADAPTIVE_SUBMIT",
+          },
+        };
+      }
+      return { ...(await finalizeAttempt(tx, adaptive.id, deadline)), timedOut: true };
+    }
 
-  const attempt = await prisma.$transaction(async (tx) => {
-    // If a draft attempt exists, finalize it.
-    if (body.attemptId) {
+    // If a draft attempt exists, finalize it. Timed, sectioned, access-code and practice
+    // quizzes always have one: it is started before the first question is answered.
+    const needsAttempt =
+      Boolean(quiz.timeLimitSeconds) ||
+      sectionsApply(quiz, isPractice) ||
+      quiz.visibility === "ACCESS_CODE" ||
+      isPractice;
+    if (body.attemptId || needsAttempt) {
       const existing = await tx.attempt.findFirst({
         where: {
-          id: body.attemptId,
+          ...(body.attemptId ? { id: body.attemptId } : {}),
           userId: auth.userId,
           quizId: body.quizId,
           status: "IN_PROGRESS",
+          isPractice,
         },
-        select: { id: true, attemptNo: true },
+        orderBy: { startedAt: "desc" },
+        select: { id: true, attemptNo: true, questionIds: true, shuffleSeed: true, position: true, versionId: true },
       });
 
       if (existing) {
+        if (existing.versionId !== versionId) return { error: versionChanged };
+
+        // Questions a forward-only attempt has moved past, closed sections, or practice
+        // has checked keep their saved answers.
+        const locked = await lockedAnswerQuestionIds(tx, questions, quiz, existing);
+        const answers = new Map(answersByQuestionId);
+        if (locked.size) {
+          const saved = await tx.answer.findMany({
+            where: { attemptId: existing.id, questionId: { in: [...locked] } },
+            select: savedAnswerSelect,
+          });
+          for (const id of locked) answers.delete(id);
+          for (const a of saved) answers.set(a.questionId, answerInputFromSaved(a));
+        }
+
+        const graded = gradeDraw(existing.questionIds, answers);
+        if (!graded) return { error: notInAttempt };
+        const { score, maxScore, results, totalQuestions } = graded;
+
         for (const a of body.answers) {
+          if (locked.has(a.questionId)) continue;
           await tx.answer.upsert({
             where: { attemptId_questionId: { attemptId: existing.id, questionId: a.questionId } },
-            create: {
-              attemptId: existing.id,
-              questionId: a.questionId,
-              choices: { connect: (a.choiceIds ?? []).map((id) => ({ id })) },
-            },
-            update: {
-              choices: { set: (a.choiceIds ?? []).map((id) => ({ id })) },
-            },
+            create: { attemptId: existing.id, ...answerCreateData(a) },
+            update: answerUpdateData(a),
           });
         }
 
@@ -132,49 +230,81 @@ export async function POST(req: NextRequest) {
             status: "SUBMITTED",
             submittedAt: new Date(),
             score,
+            maxScore,
           },
-          select: { id: true, score: true, attemptNo: true },
+          select: finalizedAttemptSelect,
         });
+        await scheduleMissedQuestions(tx, auth.userId, quiz, results);
 
-        return finalized;
+        return { attempt: finalized, results, totalQuestions, timedOut: false };
       }
     }
 
+    if (isPractice) {
+      return { error: { message: "Start a practice attempt first.", code: "ATTEMPT_NOT_STARTED" } };
+    }
+    if (needsAttempt) {
+      const message = quiz.timeLimitSeconds
+        ? "This timed quiz has not been started."
+        : sectionsApply(quiz, isPractice)
+          ? "This sectioned quiz has not been started."
+          : "Enter the access code to start this quiz.";
+      return { error: { message, code: "ATTEMPT_NOT_STARTED" } };
+    }
+
     // Otherwise create a fresh submitted attempt.
-    const last = await tx.attempt.aggregate({
-      where: { userId: auth.userId, quizId: body.quizId },
-      _max: { attemptNo: true },
-    });
+    const prerequisites = await checkPrerequisites(tx, body.quizId, auth.userId);
+    if (!prerequisites.ok) return { error: prerequisites };
+    const gate = await checkNewAttempt(tx, quiz, auth.userId);
+    if (!gate.ok) return { error: gate };
+    if (!(await isLiveVersion(tx, body.quizId, versionId))) return { error: versionChanged };
 
-    const attemptNo = (last._max.attemptNo ?? 0) + 1;
+    const layout = attemptLayout(questions, quiz, auth.userId, gate.attemptNo);
+    const graded = gradeDraw(layout.questionIds);
+    if (!graded) return { error: notInAttempt };
+    const { score, maxScore, results, totalQuestions } = graded;
 
     const created = await tx.attempt.create({
       data: {
         userId: auth.userId,
         quizId: body.quizId,
-        attemptNo,
+        versionId,
+        attemptNo: gate.attemptNo,
+        ...layout,
         status: "SUBMITTED",
         submittedAt: new Date(),
         score,
+        maxScore,
         answers: {
-          create: body.answers.map((a) => ({
-            questionId: a.questionId,
-            choices: { connect: (a.choiceIds ?? []).map((id) => ({ id })) },
-          })),
+          create: body.answers.map(answerCreateData),
         },
       },
-      select: { id: true, score: true, attemptNo: true },
+      select: finalizedAttemptSelect,
     });
+    await scheduleMissedQuestions(tx, auth.userId, quiz, results);
 
-    return created;
+    return { attempt: created, results, totalQuestions, timedOut: false };
   });
 
+  if (outcome.error) {
+    return jsonError(outcome.error.message, { status: 409, code: outcome.error.code, headers });
+  }
+
+  // Per-question results and rationales only go out when the reveal policy allows;
+  // practice has been showing them question by question already.
+  const answersRevealed = isPractice || canRevealAnswers(quiz, "SUBMITTED");
+  const rationaleById = new Map(questions.map((q) => [q.id, q.rationale] as const));
+  const revealedResults = answersRevealed
+    ? outcome.results.map((r) => ({ ...r, rationale: rationaleById.get(r.questionId) ?? null }))
+    : [];
+
+  // Section subtotals are scores, like the total, so they go out whatever the policy.
+  const sectionTotals = sectionSubtotals(quiz.sections, questions, outcome.results);
+
+  const attemptSummary = await getAttemptSummary(prisma, quiz, auth.userId);
+
   return jsonOk(
-    {
-      ok: true,
-      attempt,
-      totalQuestions: questions.length,
-    },
+    { ok: true, ...outcome, results: revealedResults, answersRevealed, sectionTotals, attemptSummary },
     { headers }
   );
 }
@@ -0,0 +1,155 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/apiAuth";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { jsonError, jsonOk } from "@/lib/apiResponse";
+import { answerInputError, type AnswerInput } from "@/lib/answers";
+import { gradableQuestionSelect, gradeQuestion } from "@/lib/grading";
+import { canRevealAnswers } from "@/lib/reveal";
+import { REVIEW_SESSION_SIZE, reviewOutcome } from "@/lib/review";
+import { keyScrambleSeed, seededScramble, seededShuffle } from "@/lib/shuffle";
+
+export const runtime = "nodejs";
+
+function rateHeaders(rl: { limit: number; remaining: number; resetMs: number }) {
+  return {
+    "x-ratelimit-limit": String(rl.limit),
+    "x-ratelimit-remaining": String(rl.remaining),
+    "x-ratelimit-reset": String(rl.resetMs),
+  };
+}
+
+// A learner may only drill questions whose quiz would show them the results.
+const reviewQuizSelect = {
+  id: true,
+  title: true,
+  revealPolicy: true,
+  isPublished: true,
+  closesAt: true,
+};
+
+// The learner's review session: the cards due now, mixed across quizzes. Questions go
+// out in the same answer-free shape as GET /api/quiz.
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!auth) return jsonError("Unauthorized.", { status: 401 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `review:get:${auth.userId}:${ip}`, limit: 120, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const now = new Date();
+  const due = await prisma.reviewCard.findMany({
+    where: { userId: auth.userId, dueAt: { lte: now } },
+    orderBy: { dueAt: "asc" },
+    select: {
+      box: true,
+      dueAt: true,
+      question: {
+        select: {
+          id: true,
+          prompt: true,
+          hint: true,
+          type: true,
+          order: true,
+          points: true,
+          choices: { orderBy: { order: "asc" }, select: { id: true, text: true, order: true } },
+          matchTargets: { select: { id: true, text: true } },
+          quiz: { select: reviewQuizSelect },
+        },
+      },
+    },
+  });
+
+  const reviewable = due.filter((c) => canRevealAnswers(c.question.quiz, "SUBMITTED"));
+  // Oldest first, then shuffled within the session so one quiz's questions don't run together.
+  const session = seededShuffle(reviewable.slice(0, REVIEW_SESSION_SIZE), `${auth.userId}:${now.toDateString()}`);
+
+  const cards = session.map(({ box, dueAt, question }) => {
+    const { quiz, ...q } = question;
+    return {
+      box,
+      dueAt,
+      quiz: { id: quiz.id, title: quiz.title },
+      question: {
+        ...q,
+        rationale: null,
+        // Scrambled as in GET /api/quiz: the stored order is the ORDERING key.
+        choices:
+          q.type === "ORDERING"
+            ? seededScramble(q.choices, keyScrambleSeed(q.id, null)).map((c, idx) => ({ ...c, order: idx }))
+            : q.choices,
+        matchTargets: q.type === "MATCHING" ? seededShuffle(q.matchTargets, keyScrambleSeed(q.id, null)) : q.matchTargets,
+      },
+    };
+  });
+
+  return jsonOk({ ok: true, cards, dueCount: reviewable.length }, { headers });
+}
+
+type ReviewBody = {
+  answer: AnswerInput;
+};
+
+// Grades one review and reschedules its card.
+export async function POST(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!auth) return jsonError("Unauthorized.", { status: 401 });
+
+  const ip = getClientIp(req);
+  const rl = rateLimit({ key: `review:post:${auth.userId}:${ip}`, limit: 120, windowMs: 60_000 });
+  const headers = rateHeaders(rl);
+  if (!rl.ok) return jsonError("Too many requests.", { status: 429, headers });
+
+  const body = (await req.json().catch(() => null)) as ReviewBody | null;
+  if (typeof body?.answer?.questionId !== "string") {
+    return jsonError("Invalid payload.", { status: 400, headers });
+  }
+  const answer = body.answer;
+
+  const card = await prisma.reviewCard.findUnique({
+    where: { userId_questionId: { userId: auth.userId, questionId: answer.questionId } },
+    select: {
+      id: true,
+      box: true,
+      dueAt: true,
+      question: {
+        select: {
+          ...gradableQuestionSelect,
+          rationale: true,
+          quiz: { select: reviewQuizSelect },
+          // Graded as in the version the question was missed in.
+          version: { select: { scoringPolicy: true, wrongAnswerPenalty: true } },
+        },
+      },
+    },
+  });
+
+  if (!card || !canRevealAnswers(card.question.quiz, "SUBMITTED")) {
+    return jsonError("Review card not found.", { status: 404, headers });
+  }
+  const now = new Date();
+  if (card.dueAt > now) {
+    return jsonError("This question isn't due for review yet.", { status: 409, code: "REVIEW_NOT_DUE", headers });
+  }
+
+  const { question } = card;
+  const invalid = answerInputError(question, answer);
+  if (invalid) return jsonError(invalid, { status: 400, headers });
+
+  const result = gradeQuestion(question, answer, question.version);
+  const next = reviewOutcome(card.box, result.correct, now);
+  const updated = await prisma.reviewCard.update({
+    where: { id: card.id },
+    data: {
+      ...next,
+      lastReviewedAt: now,
+      ...(result.correct ? {} : { lapses: { increment: 1 } }),
+    },
+    select: { box: true, dueAt: true },
+  });
+
+  return jsonOk({ ok: true, result: { ...result, rationale: question.rationale }, card: updated }, { headers });
+}
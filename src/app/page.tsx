@@ -18,6 +18,12 @@ export default function Home() {
           >
             Browse Quizzes
           </Link>
+          <Link
+            href="/paths"
+            className="inline-flex items-center justify-center rounded-lg border border-neutral-300 bg-white px-6 py-3 text-sm font-medium text-neutral-900 transition-colors hover:bg-neutral-50"
+          >
+            Learning Paths
+          </Link>
           <Link
             href="/auth/login"
             className="inline-flex items-center justify-center rounded-lg border border-neutral-300 bg-white px-6 py-3 text-sm font-medium text-neutral-900 transition-colors hover:bg-neutral-50"
@@ -0,0 +1,200 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+
+type PathSummary = {
+  id: string;
+  title: string;
+  description: string | null;
+  _count: { steps: number };
+};
+
+type RequiredQuiz = { id: string; title: string; passPercent: number | null };
+
+type StepStatus = "COMPLETED" | "UNLOCKED" | "LOCKED";
+
+type PathStep = {
+  quiz: { id: string; title: string; description: string | null; passPercent: number | null };
+  status: StepStatus;
+  // Prerequisites still to pass; empty unless LOCKED.
+  unmetPrerequisites: RequiredQuiz[];
+};
+
+type ListPayload = { ok: true; paths: PathSummary[] };
+
+type PathPayload = {
+  ok: true;
+  path: { id: string; title: string; description: string | null; steps: PathStep[] };
+  completedCount: number;
+};
+
+const STATUS_LABELS: Record<StepStatus, string> = {
+  COMPLETED: "Completed",
+  UNLOCKED: "Unlocked",
+  LOCKED: "Locked",
+};
+
+const STATUS_STYLES: Record<StepStatus, string> = {
+  COMPLETED: "border-green-200 bg-green-50 text-green-900",
+  UNLOCKED: "border-neutral-300 bg-white text-neutral-900",
+  LOCKED: "border-neutral-200 bg-neutral-100 text-neutral-600",
+};
+
+function passMark(passPercent: number | null) {
+  return passPercent === null ? "any score" : `${passPercent}%`;
+}
+
+export function LearningPathList() {
+  const listQuery = useQuery({
+    queryKey: ["paths"],
+    queryFn: async (): Promise<ListPayload> => {
+      const res = await fetch("/api/path");
+      if (!res.ok) throw new Error("Failed to load paths");
+      return (await res.json()) as ListPayload;
+    },
+  });
+
+  if (listQuery.isLoading) {
+    return (
+      <main className="p-6">
+        <p className="text-sm text-neutral-600">Loading paths…</p>
+      </main>
+    );
+  }
+
+  if (listQuery.isError || !listQuery.data) {
+    return (
+      <main className="p-6">
+        <p className="text-sm text-red-700">Failed to load paths.</p>
+      </main>
+    );
+  }
+
+  const { paths } = listQuery.data;
+
+  return (
+    <main className="mx-auto w-full max-w-3xl p-6">
+      <h1 className="text-xl font-semibold">Learning paths</h1>
+      <p className="mt-1 text-sm text-neutral-600">Quizzes to work through in order, each unlocking the next.</p>
+
+      {paths.length ? (
+        <div className="mt-6 grid gap-3">
+          {paths.map((p) => (
+            <Link
+              key={p.id}
+              href={`/paths?id=${encodeURIComponent(p.id)}`}
+              className="rounded-md border border-neutral-200 bg-white p-4"
+            >
+              <div className="font-medium">{p.title}</div>
+              {p.description ? <div className="mt-1 text-sm text-neutral-600">{p.description}</div> : null}
+              <div className="mt-1 text-xs text-neutral-600">
+                {p._count.steps} quiz{p._count.steps === 1 ? "" : "zes"}
+              </div>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <p className="mt-6 text-sm text-neutral-600">No learning paths yet.</p>
+      )}
+    </main>
+  );
+}
+
+export function LearningPath(props: { pathId: string }) {
+  const { status } = useSession();
+
+  const pathQuery = useQuery({
+    // Progress depends on who is signed in.
+    queryKey: ["path", props.pathId, status],
+    enabled: status !== "loading",
+    queryFn: async (): Promise<PathPayload> => {
+      const res = await fetch(`/api/path?id=${encodeURIComponent(props.pathId)}`);
+      if (!res.ok) throw new Error("Failed to load path");
+      return (await res.json()) as PathPayload;
+    },
+  });
+
+  if (status === "loading" || pathQuery.isLoading) {
+    return (
+      <main className="p-6">
+        <p className="text-sm text-neutral-600">Loading path…</p>
+      </main>
+    );
+  }
+
+  if (pathQuery.isError || !pathQuery.data) {
+    return (
+      <main className="p-6">
+        <p className="text-sm text-red-700">Failed to load path.</p>
+      </main>
+    );
+  }
+
+  const { path, completedCount } = pathQuery.data;
+
+  return (
+    <main className="mx-auto w-full max-w-3xl p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold">{path.title}</h1>
+          {path.description ? <p className="mt-1 text-sm text-neutral-600">{path.description}</p> : null}
+          <p className="mt-2 text-xs text-neutral-600">
+            {completedCount} of {path.steps.length} completed
+            {status === "authenticated" ? null : (
+              <>
+                {" · "}
+                <Link href="/auth/login" className="underline">
+                  Sign in
+                </Link>{" "}
+                to track your progress
+              </>
+            )}
+          </p>
+        </div>
+        <Link href="/paths" className="text-sm underline">
+          All paths
+        </Link>
+      </div>
+
+      <ol className="mt-6 space-y-3">
+        {path.steps.map((step, idx) => (
+          <li key={step.quiz.id} className={`rounded-md border p-4 ${STATUS_STYLES[step.status]}`}>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="font-medium">
+                  {idx + 1}.{" "}
+                  {step.status === "LOCKED" ? (
+                    step.quiz.title
+                  ) : (
+                    <Link href={`/quiz?id=${encodeURIComponent(step.quiz.id)}`} className="underline">
+                      {step.quiz.title}
+                    </Link>
+                  )}
+                </p>
+                {step.quiz.description ? <p className="mt-1 text-sm">{step.quiz.description}</p> : null}
+                <p className="mt-1 text-xs">Pass mark: {passMark(step.quiz.passPercent)}</p>
+                {step.unmetPrerequisites.length ? (
+                  <p className="mt-1 text-xs">
+                    Pass first:{" "}
+                    {step.unmetPrerequisites.map((q, i) => (
+                      <span key={q.id}>
+                        {i > 0 ? ", " : null}
+                        <Link href={`/quiz?id=${encodeURIComponent(q.id)}`} className="underline">
+                          {q.title}
+                        </Link>{" "}
+                        ({passMark(q.passPercent)})
+                      </span>
+                    ))}
+                  </p>
+                ) : null}
+              </div>
+              <span className="shrink-0 text-xs font-medium">{STATUS_LABELS[step.status]}</span>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </main>
+  );
+}
@@ -0,0 +1,11 @@
+import { LearningPath, LearningPathList } from "./LearningPaths";
+
+export default async function LearningPathsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ id?: string }>;
+}) {
+  const { id: pathId } = await searchParams;
+
+  return pathId ? <LearningPath pathId={pathId} /> : <LearningPathList />;
+}
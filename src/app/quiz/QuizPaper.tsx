@@ -3,7 +3,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { useSession } from "next-auth/react";
-import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { Fragment, useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
 
 type QuizChoice = {
   id: string;
@@ -11,14 +12,57 @@ type QuizChoice = {
   order: number;
 };
 
-type QuizQuestion = {
+export type QuizQuestion = {
   id: string;
   prompt: string;
   hint: string | null;
+  // Only sent up front when the quiz reveals answers immediately.
   rationale: string | null;
-  type: "SINGLE_CHOICE" | "MULTIPLE_CHOICE";
+  type: "SINGLE_CHOICE" | "MULTIPLE_CHOICE" | "NUMERIC" | "SHORT_TEXT" | "ORDERING" | "MATCHING";
   order: number;
+  points: number;
   choices: QuizChoice[];
+  // MATCHING: right-hand options, including distractors.
+  matchTargets: Array<{ id: string; text: string }>;
+  // Null for questions outside every section.
+  sectionId?: string | null;
+};
+
+type QuizSection = {
+  id: string;
+  title: string;
+  instructions: string | null;
+  timeLimitSeconds: number | null;
+  // False: the section closes once the learner moves on from it.
+  allowReturn: boolean;
+};
+
+// Where a sectioned attempt stands; deadlines only for timed sections already entered.
+type SectionProgress = {
+  currentSectionId: string | null;
+  closedSectionIds: string[];
+  deadlines: Array<{ sectionId: string; deadline: string }>;
+};
+
+type FinalScorePolicy = "BEST" | "LATEST" | "AVERAGE" | "FIRST";
+
+const FINAL_SCORE_POLICY_LABELS: Record<FinalScorePolicy, string> = {
+  BEST: "best attempt",
+  LATEST: "latest attempt",
+  AVERAGE: "average",
+  FIRST: "first attempt",
+};
+
+type AttemptSummary = {
+  used: number;
+  maxAttempts: number | null;
+  // Null when attempts are unlimited.
+  remaining: number | null;
+  // Set while a cooldown keeps a new attempt from starting.
+  nextAttemptAt: string | null;
+  finalScorePolicy: FinalScorePolicy;
+  finalScore: number | null;
+  finalMaxScore: number | null;
 };
 
 type QuizPayload = {
@@ -28,30 +72,108 @@ type QuizPayload = {
     title: string;
     description: string | null;
     timeLimitSeconds: number | null;
+    // ADAPTIVE: questions holds only those served so far, the last being the current one.
+    deliveryMode: "ALL_AT_ONCE" | "PAGED" | "ADAPTIVE";
+    // ADAPTIVE only: how many questions an attempt serves.
+    adaptiveLength: number | null;
+    // PAGED only: false locks questions once the learner moves past them.
+    allowBackNavigation: boolean;
+    allowPractice: boolean;
+    // Availability window (ISO timestamps); null leaves that end open.
+    opensAt: string | null;
+    closesAt: string | null;
+    // In order; questions outside every section come after them.
+    sections: QuizSection[];
     questions: QuizQuestion[];
   };
+  // The signed-in learner's IN_PROGRESS attempt, if any. In practice mode, the practice
+  // attempt with the results of the questions already checked.
+  attempt: {
+    id: string;
+    deadline: string | null;
+    position: number;
+    flaggedQuestionIds: string[];
+    checkedResults: QuestionResult[];
+    sections: SectionProgress | null;
+  } | null;
+  // Signed-in learners only.
+  attemptSummary: AttemptSummary | null;
+  // Set outside the availability window, when questions are withheld.
+  unavailable: { code: "QUIZ_NOT_OPEN" | "QUIZ_CLOSED"; message: string } | null;
+  // Access-code quizzes: questions are withheld until the code has started an attempt.
+  accessCodeRequired: boolean;
+  // Quizzes to pass before this one can be started; questions are withheld until then.
+  unmetPrerequisites: { id: string; title: string; passPercent: number | null }[];
+  serverNow: string;
+};
+
+type SaveResponse = {
+  ok: true;
+  attemptId: string;
+  deadline: string | null;
+  // Sectioned quizzes only.
+  sections?: SectionProgress | null;
+  serverNow: string;
+};
+
+type ApiError = { ok: false; error: { message: string; code?: string } };
+
+// Adaptive quizzes: either another question was served, or the attempt is complete.
+type NextResponse = (SaveResponse & { done: false }) | (SubmitResponse & { done: true });
+
+export type QuestionResult = {
+  questionId: string;
+  correct: boolean;
+  credit: number;
+  points: number;
+  maxPoints: number;
+  matchedAnswer?: { id: string; text: string } | null;
+  matchedPairs?: { correct: number; total: number };
+  rationale?: string | null;
+};
+
+type CheckResponse = {
+  ok: true;
+  result: QuestionResult;
 };
 
 type SubmitResponse = {
   ok: true;
-  attempt: { id: string; score: number | null; attemptNo: number };
+  attempt: { id: string; score: number | null; maxScore: number | null; attemptNo: number };
   totalQuestions: number;
+  results: QuestionResult[];
+  // The deadline passed first: graded on the last saved answers instead.
+  timedOut: boolean;
+  // False when the reveal policy withholds per-question results (results is then empty).
+  answersRevealed: boolean;
+  sectionTotals?: Array<{ sectionId: string; title: string; score: number; maxScore: number }>;
+  attemptSummary: AttemptSummary;
 };
 
 type LocalDraft = {
   attemptId?: string;
+  // Selected choice ids, or for ORDERING the learner's arrangement.
   answersByQuestionId: Record<string, string[]>;
+  // Typed responses (NUMERIC, SHORT_TEXT), kept as entered so partial input survives reloads.
+  valuesByQuestionId?: Record<string, string>;
+  // MATCHING pairings: choice id -> target id.
+  matchesByQuestionId?: Record<string, Record<string, string>>;
+  // Paged delivery: the question on screen and those flagged for review.
+  currentIndex?: number;
+  flaggedQuestionIds?: string[];
 };
 
 const EMPTY_QUESTIONS: QuizQuestion[] = [];
+const EMPTY_SECTIONS: QuizSection[] = [];
 
-function storageKey(quizId: string) {
-  return `quiz:${quizId}:draft:v1`;
+// Practice answers are kept apart from the graded attempt's draft.
+function storageKey(quizId: string, practice: boolean) {
+  return `quiz:${quizId}:${practice ? "practice" : "draft"}:v1`;
 }
 
-function loadDraft(quizId: string): LocalDraft {
+function loadDraft(quizId: string, practice: boolean): LocalDraft {
   try {
-    const raw = localStorage.getItem(storageKey(quizId));
+    const raw = localStorage.getItem(storageKey(quizId, practice));
     if (!raw) return { answersByQuestionId: {} };
     const parsed = JSON.parse(raw) as LocalDraft;
     if (!parsed?.answersByQuestionId || typeof parsed.answersByQuestionId !== "object") {
@@ -60,15 +182,21 @@ function loadDraft(quizId: string): LocalDraft {
     return {
       attemptId: parsed.attemptId,
       answersByQuestionId: parsed.answersByQuestionId,
+      valuesByQuestionId:
+        parsed.valuesByQuestionId && typeof parsed.valuesByQuestionId === "object" ? parsed.valuesByQuestionId : {},
+      matchesByQuestionId:
+        parsed.matchesByQuestionId && typeof parsed.matchesByQuestionId === "object" ? parsed.matchesByQuestionId : {},
+      currentIndex: Number.isInteger(parsed.currentIndex) ? parsed.currentIndex : 0,
+      flaggedQuestionIds: Array.isArray(parsed.flaggedQuestionIds) ? parsed.flaggedQuestionIds : [],
     };
   } catch {
     return { answersByQuestionId: {} };
   }
 }
 
-function saveDraft(quizId: string, draft: LocalDraft) {
+function saveDraft(quizId: string, practice: boolean, draft: LocalDraft) {
   try {
-    localStorage.setItem(storageKey(quizId), JSON.stringify(draft));
+    localStorage.setItem(storageKey(quizId, practice), JSON.stringify(draft));
   } catch {
     // ignore
   }
@@ -78,48 +206,213 @@ function normalizeChoices(choiceIds: string[]) {
   return Array.from(new Set(choiceIds.filter(Boolean)));
 }
 
-export function QuizPaper({ quizId }: { quizId: string }) {
+function parseNumericInput(raw: string | undefined): number | null {
+  if (!raw || raw.trim() === "") return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+// The learner's arrangement, tolerating ids that no longer exist and choices added since.
+function arrangeChoices(q: QuizQuestion, orderedIds: string[]) {
+  const byId = new Map(q.choices.map((c) => [c.id, c] as const));
+  const arranged = orderedIds.flatMap((id) => byId.get(id) ?? []);
+  const placed = new Set(arranged.map((c) => c.id));
+  return [...arranged, ...q.choices.filter((c) => !placed.has(c.id))];
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// Pairings for choices and targets the question still has.
+function validMatches(q: QuizQuestion, matches: Record<string, string>) {
+  const choiceIds = new Set(q.choices.map((c) => c.id));
+  const targetIds = new Set(q.matchTargets.map((t) => t.id));
+  return Object.entries(matches)
+    .filter(([choiceId, targetId]) => choiceIds.has(choiceId) && targetIds.has(targetId))
+    .map(([choiceId, targetId]) => ({ choiceId, targetId }));
+}
+
+function formatCountdown(ms: number) {
+  const total = Math.ceil(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const sec = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${sec}` : `${m}:${sec}`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Coarse for far-off times ("3 days 4 h"), a countdown within the last day.
+function formatTimeUntil(ms: number) {
+  if (ms < DAY_MS) return formatCountdown(ms);
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor((ms % DAY_MS) / (60 * 60 * 1000));
+  return `${days} day${days === 1 ? "" : "s"}${hours ? ` ${hours} h` : ""}`;
+}
+
+function isAnswered(q: QuizQuestion, choiceIds: string[], value: string, matches: Record<string, string>) {
+  if (q.type === "NUMERIC") return parseNumericInput(value) !== null;
+  if (q.type === "SHORT_TEXT") return value.trim().length > 0;
+  if (q.type === "MATCHING") return validMatches(q, matches).length > 0;
+  return choiceIds.length > 0;
+}
+
+// The answer payload the API expects for one question, or null while it is unanswered.
+// Typed values are only sent once the question (and so its type) is known.
+export function questionAnswer(q: QuizQuestion, choiceIds: string[], value: string, matches: Record<string, string>) {
+  if (!isAnswered(q, choiceIds, value, matches)) return null;
+  switch (q.type) {
+    case "NUMERIC":
+      return { questionId: q.id, choiceIds: [], numericValue: parseNumericInput(value) };
+    case "SHORT_TEXT":
+      return { questionId: q.id, choiceIds: [], textValue: value.trim() };
+    case "ORDERING":
+      return { questionId: q.id, choiceIds: [], orderedChoiceIds: arrangeChoices(q, choiceIds).map((c) => c.id) };
+    case "MATCHING":
+      return { questionId: q.id, choiceIds: [], matches: validMatches(q, matches) };
+    default:
+      return { questionId: q.id, choiceIds: normalizeChoices(choiceIds) };
+  }
+}
+
+// practice: answers can be checked one at a time, and the attempt doesn't count.
+export function QuizPaper({ quizId, practice = false }: { quizId: string; practice?: boolean }) {
   const { status } = useSession();
 
   const quizQuery = useQuery({
-    queryKey: ["quiz", quizId],
+    queryKey: ["quiz", quizId, practice],
     queryFn: async (): Promise<QuizPayload> => {
-      const res = await fetch(`/api/quiz?id=${encodeURIComponent(quizId)}`);
+      const res = await fetch(`/api/quiz?id=${encodeURIComponent(quizId)}${practice ? "&practice=1" : ""}`);
       if (!res.ok) throw new Error("Failed to load quiz");
       return (await res.json()) as QuizPayload;
     },
   });
 
   const questions = quizQuery.data?.quiz.questions ?? EMPTY_QUESTIONS;
-  const enableVirtualization = questions.length >= 120;
+  // Practice is never timed.
+  const isTimed = !practice && Boolean(quizQuery.data?.quiz.timeLimitSeconds);
+  const isPaged = quizQuery.data?.quiz.deliveryMode === "PAGED";
+  const isAdaptive = quizQuery.data?.quiz.deliveryMode === "ADAPTIVE";
+  const sections = quizQuery.data?.quiz.sections ?? EMPTY_SECTIONS;
+  // Practice and adaptive attempts aren't held to sections.
+  const isSectioned = !practice && !isAdaptive && sections.length > 0;
+  const accessCodeRequired = quizQuery.data?.accessCodeRequired ?? false;
+  const unmetPrerequisites = quizQuery.data?.unmetPrerequisites ?? [];
+  const isLocked = unmetPrerequisites.length > 0;
 
   const [answersByQuestionId, setAnswersByQuestionId] = useState<Record<string, string[]>>({});
+  const [valuesByQuestionId, setValuesByQuestionId] = useState<Record<string, string>>({});
+  const [matchesByQuestionId, setMatchesByQuestionId] = useState<Record<string, Record<string, string>>>({});
   const [attemptId, setAttemptId] = useState<string | undefined>(undefined);
   const [submitted, setSubmitted] = useState(false);
   const [submitResult, setSubmitResult] = useState<SubmitResponse | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [accessCode, setAccessCode] = useState("");
+  const [advancing, setAdvancing] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [flaggedQuestionIds, setFlaggedQuestionIds] = useState<string[]>([]);
+  // Practice: results of checked questions, which can no longer change.
+  const [checkedResults, setCheckedResults] = useState<Record<string, QuestionResult>>({});
+  const [checkingQuestionId, setCheckingQuestionId] = useState<string | null>(null);
+  const [sectionProgress, setSectionProgress] = useState<SectionProgress | null>(null);
+  const [changingSection, setChangingSection] = useState(false);
+
+  // Timed quizzes: the deadline is the server's; clockOffsetMs maps local time onto server time.
+  const [deadlineMs, setDeadlineMs] = useState<number | null>(null);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
+  function syncClock(deadline: string | null, serverNow: string) {
+    setDeadlineMs(deadline ? Date.parse(deadline) : null);
+    setClockOffsetMs(Date.parse(serverNow) - Date.now());
+  }
 
   // Load local draft once.
   useEffect(() => {
-    const draft = loadDraft(quizId);
+    const draft = loadDraft(quizId, practice);
     setAttemptId(draft.attemptId);
     setAnswersByQuestionId(draft.answersByQuestionId);
-  }, [quizId]);
+    setValuesByQuestionId(draft.valuesByQuestionId ?? {});
+    setMatchesByQuestionId(draft.matchesByQuestionId ?? {});
+    setCurrentIndex(draft.currentIndex ?? 0);
+    setFlaggedQuestionIds(draft.flaggedQuestionIds ?? []);
+  }, [quizId, practice]);
+
+  // The server knows which attempt is running (and until when); it wins over the local draft.
+  useEffect(() => {
+    const data = quizQuery.data;
+    if (!data) return;
+    syncClock(data.attempt?.deadline ?? null, data.serverNow);
+    setAttemptId(data.attempt?.id);
+    if (data.attempt) {
+      setCurrentIndex(data.attempt.position);
+      setFlaggedQuestionIds(data.attempt.flaggedQuestionIds);
+      setCheckedResults(Object.fromEntries(data.attempt.checkedResults.map((r) => [r.questionId, r])));
+    }
+    setSectionProgress(data.attempt?.sections ?? null);
+  }, [quizQuery.data]);
+
+  const currentSectionId = sectionProgress?.currentSectionId ?? null;
+  const closedSectionIds = useMemo(() => new Set(sectionProgress?.closedSectionIds ?? []), [sectionProgress]);
+  // Sectioned, all-at-once: the current section's questions, then those outside every section.
+  const paperQuestions = useMemo(
+    () =>
+      isSectioned && !isPaged && !submitted
+        ? questions.filter((q) => !q.sectionId || q.sectionId === currentSectionId)
+        : questions,
+    [questions, isSectioned, isPaged, submitted, currentSectionId]
+  );
+  const enableVirtualization = paperQuestions.length >= 120;
 
   // Persist local draft on any answer change.
   useEffect(() => {
-    saveDraft(quizId, { attemptId, answersByQuestionId });
-  }, [quizId, attemptId, answersByQuestionId]);
-
-  const flattenedAnswers = useMemo(() => {
-    return Object.entries(answersByQuestionId)
-      .filter(([, choiceIds]) => Array.isArray(choiceIds) && choiceIds.length > 0)
-      .map(([questionId, choiceIds]) => ({
-        questionId,
-        choiceIds: normalizeChoices(choiceIds),
-      }));
-  }, [answersByQuestionId]);
+    saveDraft(quizId, practice, {
+      attemptId,
+      answersByQuestionId,
+      valuesByQuestionId,
+      matchesByQuestionId,
+      currentIndex,
+      flaggedQuestionIds,
+    });
+  }, [
+    quizId,
+    practice,
+    attemptId,
+    answersByQuestionId,
+    valuesByQuestionId,
+    matchesByQuestionId,
+    currentIndex,
+    flaggedQuestionIds,
+  ]);
+
+  // Only questions on this paper: the draft may hold answers from an earlier attempt's draw.
+  const flattenedAnswers = useMemo(
+    () =>
+      questions.flatMap((q) => {
+        const choiceIds = answersByQuestionId[q.id] ?? [];
+        return questionAnswer(q, choiceIds, valuesByQuestionId[q.id] ?? "", matchesByQuestionId[q.id] ?? {}) ?? [];
+      }),
+    [questions, answersByQuestionId, valuesByQuestionId, matchesByQuestionId]
+  );
+
+  const attemptSummary = submitResult?.attemptSummary ?? quizQuery.data?.attemptSummary ?? null;
+  // No attempt is running and the server would refuse to start one. Practice has no limits.
+  const attemptsBlocked =
+    !practice &&
+    !attemptId &&
+    !submitted &&
+    Boolean(
+      attemptSummary &&
+        (attemptSummary.remaining === 0 ||
+          (attemptSummary.nextAttemptAt && Date.parse(attemptSummary.nextAttemptAt) > nowMs + clockOffsetMs))
+    );
 
   const lastSyncPayloadRef = useRef<string>("");
   const syncTimerRef = useRef<number | null>(null);
@@ -129,8 +422,19 @@ export function QuizPaper({ quizId }: { quizId: string }) {
     if (submitted) return;
     if (status !== "authenticated") return;
     if (!quizId) return;
+    // Saving creates the attempt, which would start a timed quiz's clock; practice,
+    // adaptive, sectioned and access-code attempts are started explicitly too.
+    if ((isTimed || practice || isAdaptive || isSectioned || accessCodeRequired) && !attemptId) return;
+    // Nothing to save yet, and an attempt shouldn't be used up just by opening the quiz.
+    if (!attemptId && (flattenedAnswers.length === 0 || attemptsBlocked)) return;
 
-    const payload = JSON.stringify({ quizId, attemptId, answers: flattenedAnswers });
+    const payload = JSON.stringify({
+      quizId,
+      attemptId,
+      answers: flattenedAnswers,
+      ...(isPaged ? { position: currentIndex, flaggedQuestionIds } : {}),
+      ...(practice ? { practice: true } : {}),
+    });
     if (payload === lastSyncPayloadRef.current) return;
 
     if (syncTimerRef.current) window.clearTimeout(syncTimerRef.current);
@@ -142,9 +446,20 @@ export function QuizPaper({ quizId }: { quizId: string }) {
           headers: { "content-type": "application/json" },
           body: payload,
         });
-        if (!res.ok) return;
-        const data = (await res.json()) as { ok: true; attemptId: string };
+        if (!res.ok) {
+          const j = (await res.json().catch(() => null)) as ApiError | null;
+          if (j?.error?.code === "ATTEMPT_EXPIRED") {
+            setSubmitError(j.error.message);
+            setSubmitted(true);
+          } else if (j?.error?.code === "QUIZ_CLOSED" || j?.error?.code === "QUIZ_NOT_OPEN") {
+            setSubmitError(j.error.message);
+          }
+          return;
+        }
+        const data = (await res.json()) as SaveResponse;
         lastSyncPayloadRef.current = payload;
+        syncClock(data.deadline, data.serverNow);
+        if (data.sections) setSectionProgress(data.sections);
         if (data?.attemptId && data.attemptId !== attemptId) {
           setAttemptId(data.attemptId);
         }
@@ -156,17 +471,37 @@ export function QuizPaper({ quizId }: { quizId: string }) {
     return () => {
       if (syncTimerRef.current) window.clearTimeout(syncTimerRef.current);
     };
-  }, [quizId, attemptId, flattenedAnswers, status, submitted]);
+  }, [
+    quizId,
+    attemptId,
+    flattenedAnswers,
+    status,
+    submitted,
+    isTimed,
+    practice,
+    isAdaptive,
+    isSectioned,
+    accessCodeRequired,
+    attemptsBlocked,
+    isPaged,
+    currentIndex,
+    flaggedQuestionIds,
+  ]);
+
+  const resultsByQuestionId = useMemo(
+    () => new Map((submitResult?.results ?? []).map((r) => [r.questionId, r] as const)),
+    [submitResult]
+  );
 
-  const answeredCount = useMemo(() => {
-    if (!questions.length) return 0;
-    let count = 0;
+  const answeredQuestionIds = useMemo(() => {
+    const answered = new Set<string>();
     for (const q of questions) {
-      const a = answersByQuestionId[q.id] ?? [];
-      if (a.length > 0) count += 1;
+      const matches = matchesByQuestionId[q.id] ?? {};
+      if (isAnswered(q, answersByQuestionId[q.id] ?? [], valuesByQuestionId[q.id] ?? "", matches)) answered.add(q.id);
     }
-    return count;
-  }, [questions, answersByQuestionId]);
+    return answered;
+  }, [questions, answersByQuestionId, valuesByQuestionId, matchesByQuestionId]);
+  const answeredCount = answeredQuestionIds.size;
 
   function toggleChoice(question: QuizQuestion, choiceId: string) {
     setAnswersByQuestionId((prev) => {
@@ -184,6 +519,185 @@ export function QuizPaper({ quizId }: { quizId: string }) {
     });
   }
 
+  function toggleFlag(questionId: string) {
+    setFlaggedQuestionIds((prev) =>
+      prev.includes(questionId) ? prev.filter((id) => id !== questionId) : [...prev, questionId]
+    );
+  }
+
+  // Starting a timed quiz (or a practice session) creates its attempt; the server stamps
+  // the start time. Adaptive attempts start by asking for their first question. An
+  // access-code quiz sends its code along, and only then loads its questions.
+  async function onStart() {
+    setSubmitError(null);
+    setStarting(true);
+
+    try {
+      const res = await fetch(isAdaptive ? "/api/quiz/next" : "/api/quiz/save", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          quizId,
+          answers: [],
+          ...(practice ? { practice: true } : {}),
+          ...(accessCodeRequired ? { accessCode } : {}),
+        }),
+      });
+      const j = (await res.json().catch(() => null)) as SaveResponse | ApiError | null;
+      if (!res.ok || !j?.ok) {
+        setSubmitError((j && !j.ok ? j.error.message : null) ?? "Failed to start.");
+        setStarting(false);
+        return;
+      }
+
+      // Answers left over from an earlier attempt don't carry into a new one.
+      if (j.attemptId !== attemptId) {
+        setAnswersByQuestionId({});
+        setValuesByQuestionId({});
+        setMatchesByQuestionId({});
+        setCurrentIndex(0);
+        setFlaggedQuestionIds([]);
+        setCheckedResults({});
+      }
+      setAttemptId(j.attemptId);
+      syncClock(j.deadline, j.serverNow);
+      setSectionProgress(j.sections ?? null);
+      if (isAdaptive || accessCodeRequired) await quizQuery.refetch();
+      setStarting(false);
+    } catch {
+      setSubmitError("Failed to start.");
+      setStarting(false);
+    }
+  }
+
+  // Sectioned quizzes: saves what's been answered, then moves the attempt into another
+  // section. Leaving a section without a way back asks first, unless its time ran out.
+  async function onEnterSection(sectionId: string, { confirmLeave = true } = {}) {
+    if (sectionId === currentSectionId) return true;
+    const leaving = sections.find((s) => s.id === currentSectionId);
+    if (
+      confirmLeave &&
+      leaving &&
+      !leaving.allowReturn &&
+      !closedSectionIds.has(leaving.id) &&
+      !confirm(`You won't be able to return to "${leaving.title}". Continue?`)
+    ) {
+      return false;
+    }
+    setSubmitError(null);
+    setChangingSection(true);
+
+    try {
+      const res = await fetch("/api/quiz/save", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          quizId,
+          attemptId,
+          answers: flattenedAnswers,
+          sectionId,
+          ...(isPaged ? { flaggedQuestionIds } : {}),
+        }),
+      });
+      const j = (await res.json().catch(() => null)) as SaveResponse | ApiError | null;
+      if (!res.ok || !j?.ok) {
+        setSubmitError((j && !j.ok ? j.error.message : null) ?? "Failed to open the section.");
+        setChangingSection(false);
+        return false;
+      }
+
+      syncClock(j.deadline, j.serverNow);
+      setSectionProgress(j.sections ?? null);
+      setChangingSection(false);
+      return true;
+    } catch {
+      setSubmitError("Failed to open the section.");
+      setChangingSection(false);
+      return false;
+    }
+  }
+
+  // A page in another section is only reached by entering that section.
+  function isClosedPage(index: number) {
+    const sectionId = questions[index]?.sectionId;
+    return isSectioned && !submitted && Boolean(sectionId && closedSectionIds.has(sectionId));
+  }
+
+  async function goToPage(index: number) {
+    const sectionId = questions[index]?.sectionId;
+    if (isClosedPage(index)) return;
+    if (isSectioned && !submitted && sectionId && sectionId !== currentSectionId) {
+      if (!(await onEnterSection(sectionId))) return;
+    }
+    setCurrentIndex(index);
+  }
+
+  // Practice: grades one answer now. The server saves it and locks the question.
+  async function onCheck(question: QuizQuestion) {
+    const answer = flattenedAnswers.find((a) => a.questionId === question.id);
+    if (!attemptId || !answer) return;
+    setSubmitError(null);
+    setCheckingQuestionId(question.id);
+
+    try {
+      const res = await fetch("/api/quiz/check", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ attemptId, answer }),
+      });
+      const j = (await res.json().catch(() => null)) as CheckResponse | ApiError | null;
+      if (!res.ok || !j?.ok) {
+        setSubmitError((j && !j.ok ? j.error.message : null) ?? "Failed to check the answer.");
+        setCheckingQuestionId(null);
+        return;
+      }
+
+      setCheckedResults((prev) => ({ ...prev, [question.id]: j.result }));
+      setCheckingQuestionId(null);
+    } catch {
+      setSubmitError("Failed to check the answer.");
+      setCheckingQuestionId(null);
+    }
+  }
+
+  // Adaptive: hands in the current answer (none counts as a miss) and loads the question
+  // the server picks next, or the result once the attempt is complete.
+  async function onAdvance(question: QuizQuestion) {
+    setSubmitError(null);
+    setAdvancing(true);
+
+    try {
+      const res = await fetch("/api/quiz/next", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          quizId,
+          attemptId,
+          answer: flattenedAnswers.find((a) => a.questionId === question.id),
+          ...(practice ? { practice: true } : {}),
+        }),
+      });
+      const j = (await res.json().catch(() => null)) as NextResponse | ApiError | null;
+      if (!res.ok || !j?.ok) {
+        setSubmitError((j && !j.ok ? j.error.message : null) ?? "Failed to load the next question.");
+        setAdvancing(false);
+        return;
+      }
+
+      if (j.done) {
+        setSubmitResult(j);
+        setSubmitted(true);
+      } else {
+        syncClock(j.deadline, j.serverNow);
+        await quizQuery.refetch();
+      }
+      setAdvancing(false);
+    } catch {
+      setSubmitError("Failed to load the next question.");
+      setAdvancing(false);
+    }
+  }
+
   async function onSubmit() {
     setSubmitError(null);
     setSubmitting(true);
@@ -192,7 +706,12 @@ export function QuizPaper({ quizId }: { quizId: string }) {
       const res = await fetch("/api/quiz/submit", {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ quizId, attemptId, answers: flattenedAnswers }),
+        body: JSON.stringify({
+          quizId,
+          attemptId,
+          answers: flattenedAnswers,
+          ...(practice ? { practice: true } : {}),
+        }),
       });
 
       if (!res.ok) {
@@ -214,10 +733,69 @@ export function QuizPaper({ quizId }: { quizId: string }) {
     }
   }
 
+  const sectionDeadline = sectionProgress?.deadlines.find((d) => d.sectionId === currentSectionId)?.deadline;
+  const sectionDeadlineMs = isSectioned && sectionDeadline ? Date.parse(sectionDeadline) : null;
+
+  // The next edge of the availability window: opening while it's shut, closing while open.
+  const unavailable = quizQuery.data?.unavailable ?? null;
+  const opensAt = quizQuery.data?.quiz.opensAt;
+  const closesAt = quizQuery.data?.quiz.closesAt;
+  const windowEdgeMs =
+    unavailable?.code === "QUIZ_NOT_OPEN" && opensAt
+      ? Date.parse(opensAt)
+      : !unavailable && closesAt
+        ? Date.parse(closesAt)
+        : null;
+
+  useEffect(() => {
+    if ((deadlineMs === null && sectionDeadlineMs === null && windowEdgeMs === null) || submitted) return;
+    const timer = window.setInterval(() => setNowMs(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [deadlineMs, sectionDeadlineMs, windowEdgeMs, submitted]);
+
+  const windowEdgeInMs = windowEdgeMs === null ? null : Math.max(0, windowEdgeMs - (nowMs + clockOffsetMs));
+  // Reload as the quiz opens or closes; a running attempt is handed in by its deadline instead.
+  const reloadAtWindowEdge = useEffectEvent(() => {
+    if (!submitted && !attemptId) void quizQuery.refetch();
+  });
+  useEffect(() => {
+    if (windowEdgeInMs === 0) reloadAtWindowEdge();
+  }, [windowEdgeInMs]);
+
+  const remainingMs = deadlineMs === null ? null : Math.max(0, deadlineMs - (nowMs + clockOffsetMs));
+  const sectionRemainingMs =
+    sectionDeadlineMs === null ? null : Math.max(0, sectionDeadlineMs - (nowMs + clockOffsetMs));
+
+  // Hand in automatically when time runs out; the server allows a short grace period for this.
+  const submitOnTimeout = useEffectEvent(() => {
+    if (!submitted && !submitting) void onSubmit();
+  });
+  useEffect(() => {
+    if (remainingMs === 0) submitOnTimeout();
+  }, [remainingMs]);
+
+  // When a section's time runs out, move on to the next open section; after the last
+  // one, hand in unless questions outside every section are still to be answered.
+  const advanceOnSectionTimeout = useEffectEvent(async () => {
+    if (submitted || submitting || changingSection) return;
+    const currentOrder = sections.findIndex((s) => s.id === currentSectionId);
+    const next = sections.slice(currentOrder + 1).find((s) => !closedSectionIds.has(s.id));
+    if (next) {
+      if (!(await onEnterSection(next.id, { confirmLeave: false }))) return;
+      const firstPage = questions.findIndex((q) => q.sectionId === next.id);
+      if (firstPage >= 0) setCurrentIndex(firstPage);
+    } else if (!questions.some((q) => !q.sectionId)) {
+      void onSubmit();
+    }
+  });
+  useEffect(() => {
+    if (sectionRemainingMs === 0) void advanceOnSectionTimeout();
+  }, [sectionRemainingMs]);
+
   const parentRef = useRef<HTMLDivElement | null>(null);
   // eslint-disable-next-line react-hooks/incompatible-library
   const rowVirtualizer = useVirtualizer({
-    count: questions.length,
+    count: paperQuestions.length,
     getScrollElement: () => parentRef.current,
     estimateSize: () => 200,
     overscan: 10,
@@ -240,6 +818,16 @@ export function QuizPaper({ quizId }: { quizId: string }) {
   }
 
   const quiz = quizQuery.data.quiz;
+  // A closing time more than a day off is shown as a date rather than a running clock.
+  const showTimeLeft = remainingMs !== null && !submitted && (isTimed || remainingMs < DAY_MS);
+  const showClosesIn = !unavailable && !submitted && !showTimeLeft && windowEdgeInMs !== null;
+  // These attempts begin from a start panel; there's nothing to submit before that.
+  const needsStart = isTimed || practice || isAdaptive || isSectioned || accessCodeRequired || isLocked || attemptsBlocked;
+  // Questions keep their paper-wide numbers when only one section is on screen.
+  const questionNumbers = new Map(questions.map((q, idx) => [q.id, idx] as const));
+  const pageIndex = Math.min(currentIndex, Math.max(0, questions.length - 1));
+  // Forward-only quizzes keep earlier pages shut until the attempt is handed in.
+  const canGoBack = quiz.allowBackNavigation || submitted;
 
   const header = (
     <header className="sticky top-0 z-10 border-b border-neutral-200 bg-white/90 backdrop-blur">
@@ -254,6 +842,54 @@ export function QuizPaper({ quizId }: { quizId: string }) {
               Answered {answeredCount}/{questions.length}
               {status === "authenticated" ? " · Autosaving" : " · Autosave local only (sign in to sync)"}
             </p>
+            {practice ? (
+              <p className="mt-1 text-xs text-neutral-600">
+                Practice mode · doesn&apos;t count towards your attempts or score ·{" "}
+                <Link href={`/quiz?id=${encodeURIComponent(quiz.id)}`} className="underline">
+                  Take the quiz
+                </Link>
+              </p>
+            ) : attemptSummary ? (
+              <p className="mt-1 text-xs text-neutral-600">
+                {attemptSummary.remaining === null
+                  ? "Unlimited attempts"
+                  : `${attemptSummary.remaining} of ${attemptSummary.maxAttempts} attempts left`}
+                {attemptSummary.finalScore !== null
+                  ? ` · Score that counts (${FINAL_SCORE_POLICY_LABELS[attemptSummary.finalScorePolicy]}): ${attemptSummary.finalScore}/${attemptSummary.finalMaxScore ?? 0}`
+                  : null}
+                {quiz.allowPractice ? (
+                  <>
+                    {" · "}
+                    <Link href={`/quiz?id=${encodeURIComponent(quiz.id)}&practice=1`} className="underline">
+                      Practice
+                    </Link>
+                  </>
+                ) : null}
+              </p>
+            ) : null}
+            {showTimeLeft && remainingMs !== null ? (
+              <p
+                role="timer"
+                aria-label="Time remaining"
+                className={`mt-1 text-sm font-medium tabular-nums ${remainingMs < 60_000 ? "text-red-700" : "text-neutral-900"}`}
+              >
+                Time left {formatCountdown(remainingMs)}
+              </p>
+            ) : null}
+            {sectionRemainingMs !== null && !submitted ? (
+              <p
+                role="timer"
+                aria-label="Time remaining in this section"
+                className={`mt-1 text-sm font-medium tabular-nums ${sectionRemainingMs < 60_000 ? "text-red-700" : "text-neutral-900"}`}
+              >
+                Section time left {formatCountdown(sectionRemainingMs)}
+              </p>
+            ) : null}
+            {showClosesIn && closesAt && windowEdgeInMs !== null ? (
+              <p className="mt-1 text-xs text-neutral-600">
+                Closes in {formatTimeUntil(windowEdgeInMs)} ({new Date(closesAt).toLocaleString()})
+              </p>
+            ) : null}
           </div>
 
           <div className="shrink-0 text-right">
@@ -261,17 +897,49 @@ export function QuizPaper({ quizId }: { quizId: string }) {
               <div className="text-sm">
                 <div className="font-medium">Submitted</div>
                 <div className="text-neutral-600">
-                  Score: {submitResult.attempt.score ?? 0}/{submitResult.totalQuestions}
+                  Score: {submitResult.attempt.score ?? 0}/{submitResult.attempt.maxScore ?? 0} points
                 </div>
+                {!submitResult.answersRevealed ? (
+                  <div className="text-xs text-neutral-600">Correct answers are not shown for this quiz yet.</div>
+                ) : null}
+                {submitResult.timedOut ? (
+                  <div className="text-xs text-neutral-600">Time ran out; graded on your last saved answers.</div>
+                ) : null}
+                {submitResult.sectionTotals?.length ? (
+                  <ul className="mt-1 text-xs text-neutral-600">
+                    {submitResult.sectionTotals.map((t) => (
+                      <li key={t.sectionId}>
+                        {t.title}: {t.score}/{t.maxScore}
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+                <Link
+                  href={`/quiz/review?id=${encodeURIComponent(submitResult.attempt.id)}`}
+                  className="mt-1 inline-block text-xs underline"
+                >
+                  Review answers
+                </Link>
+                {submitResult.results.some((r) => !r.correct) ? (
+                  <Link href="/review" className="mt-1 block text-xs underline">
+                    Drill missed questions
+                  </Link>
+                ) : null}
               </div>
-            ) : (
+            ) : submitted ? (
+              attemptId ? (
+                <Link href={`/quiz/review?id=${encodeURIComponent(attemptId)}`} className="text-sm underline">
+                  Review answers
+                </Link>
+              ) : null
+            ) : unavailable || (needsStart && !attemptId) || isAdaptive ? null : (
               <button
                 type="button"
                 onClick={onSubmit}
                 disabled={submitting}
                 className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
               >
-                {submitting ? "Submitting…" : "Submit"}
+                {submitting ? "Submitting…" : practice ? "Finish practice" : "Submit"}
               </button>
             )}
           </div>
@@ -286,75 +954,306 @@ export function QuizPaper({ quizId }: { quizId: string }) {
     </header>
   );
 
-  function QuestionCard({ q, index }: { q: QuizQuestion; index: number }) {
-    const selected = new Set(answersByQuestionId[q.id] ?? []);
-    const answered = selected.size > 0;
-
+  function renderQuestion(q: QuizQuestion, index: number) {
+    const checked = checkedResults[q.id];
     return (
-      <section className="rounded-lg border border-neutral-200 bg-white p-4">
-        <div className="flex items-start justify-between gap-3">
-          <h2 className="text-sm font-semibold">
-            {index + 1}. {q.prompt}
-          </h2>
-          {answered ? (
-            <span className="rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-xs text-emerald-900">
-              Answered
-            </span>
-          ) : (
-            <span className="rounded-full border border-neutral-200 bg-neutral-50 px-2 py-0.5 text-xs text-neutral-700">
-              Unanswered
-            </span>
-          )}
-        </div>
+      <QuestionCard
+        q={q}
+        index={index}
+        choiceIds={answersByQuestionId[q.id] ?? []}
+        value={valuesByQuestionId[q.id] ?? ""}
+        matches={matchesByQuestionId[q.id] ?? {}}
+        submitted={submitted || Boolean(checked)}
+        result={resultsByQuestionId.get(q.id) ?? checked}
+        checking={checkingQuestionId === q.id}
+        onCheck={practice && !submitted && !checked ? () => onCheck(q) : undefined}
+        onToggleChoice={(choiceId) => toggleChoice(q, choiceId)}
+        onArrange={(orderedIds) => setAnswersByQuestionId((prev) => ({ ...prev, [q.id]: orderedIds }))}
+        onValueChange={(value) => setValuesByQuestionId((prev) => ({ ...prev, [q.id]: value }))}
+        onMatch={(choiceId, targetId) =>
+          setMatchesByQuestionId((prev) => {
+            const next = { ...prev[q.id] };
+            if (targetId) next[choiceId] = targetId;
+            else delete next[choiceId];
+            return { ...prev, [q.id]: next };
+          })
+        }
+      />
+    );
+  }
 
-        {q.hint ? (
-          <details className="mt-3">
-            <summary className="cursor-pointer text-sm text-neutral-700 underline">
-              Show hint
-            </summary>
-            <p className="mt-2 text-sm text-neutral-700">{q.hint}</p>
-          </details>
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      {header}
+
+      <main className="mx-auto w-full max-w-3xl p-4">
+        {isSectioned && attemptId && !submitted ? (
+          <SectionBar
+            sections={sections}
+            currentSectionId={currentSectionId}
+            closedSectionIds={closedSectionIds}
+            disabled={changingSection}
+            onSelect={(sectionId) => {
+              // Paged quizzes open the section at its first question.
+              if (isPaged) void goToPage(questions.findIndex((q) => q.sectionId === sectionId));
+              else void onEnterSection(sectionId);
+            }}
+          />
         ) : null}
 
-        <div className="mt-4 space-y-2">
-          {q.choices.map((c) => {
-            const isSelected = selected.has(c.id);
-            const inputType = q.type === "SINGLE_CHOICE" ? "radio" : "checkbox";
-            return (
-              <label
-                key={c.id}
-                className="flex cursor-pointer items-start gap-3 rounded-md border border-neutral-200 p-3"
+        {unavailable && !submitted ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6 text-center">
+            {unavailable.code === "QUIZ_NOT_OPEN" ? (
+              <>
+                <h2 className="text-base font-semibold">
+                  Opens in {windowEdgeInMs !== null ? formatTimeUntil(windowEdgeInMs) : "a while"}
+                </h2>
+                <p className="mt-2 text-sm text-neutral-600">
+                  {opensAt ? `This quiz opens on ${new Date(opensAt).toLocaleString()}.` : unavailable.message}
+                  {closesAt ? ` It closes on ${new Date(closesAt).toLocaleString()}.` : null}
+                </p>
+              </>
+            ) : (
+              <>
+                <h2 className="text-base font-semibold">Closed</h2>
+                <p className="mt-2 text-sm text-neutral-600">
+                  {closesAt ? `This quiz closed on ${new Date(closesAt).toLocaleString()}.` : unavailable.message}
+                </p>
+              </>
+            )}
+          </section>
+        ) : isLocked && !attemptId && !submitted ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6 text-center">
+            <h2 className="text-base font-semibold">Locked</h2>
+            <p className="mt-2 text-sm text-neutral-600">This quiz unlocks once you pass:</p>
+            <ul className="mt-2 space-y-1 text-sm">
+              {unmetPrerequisites.map((q) => (
+                <li key={q.id}>
+                  <Link href={`/quiz?id=${encodeURIComponent(q.id)}`} className="underline">
+                    {q.title}
+                  </Link>
+                  <span className="text-neutral-600">
+                    {q.passPercent === null ? " (any score)" : ` (at least ${q.passPercent}%)`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {status === "authenticated" ? null : (
+              <p className="mt-4 text-sm text-neutral-700">Sign in to see your progress.</p>
+            )}
+          </section>
+        ) : attemptsBlocked && attemptSummary ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6 text-center">
+            <h2 className="text-base font-semibold">
+              {attemptSummary.remaining === 0 ? "No attempts left" : "Please wait before trying again"}
+            </h2>
+            <p className="mt-2 text-sm text-neutral-600">
+              {attemptSummary.remaining === 0
+                ? `You have used all ${attemptSummary.maxAttempts} attempts for this quiz.`
+                : `You can start another attempt at ${new Date(attemptSummary.nextAttemptAt ?? 0).toLocaleString()}.`}
+            </p>
+          </section>
+        ) : accessCodeRequired && !attemptId && !submitted ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6 text-center">
+            <h2 className="text-base font-semibold">Access code required</h2>
+            <p className="mt-2 text-sm text-neutral-600">
+              Enter the code you were given to start {practice ? "practising" : "the quiz"}.
+              {isTimed ? ` Time limit: ${formatCountdown((quiz.timeLimitSeconds ?? 0) * 1000)}.` : null}
+            </p>
+            {status === "authenticated" ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  void onStart();
+                }}
+                className="mt-4 flex justify-center gap-2"
               >
                 <input
-                  type={inputType}
-                  name={q.id}
-                  checked={isSelected}
-                  onChange={() => toggleChoice(q, c.id)}
-                  disabled={submitted}
-                  className="mt-1"
+                  value={accessCode}
+                  onChange={(e) => setAccessCode(e.target.value)}
+                  aria-label="Access code"
+                  autoComplete="off"
+                  className="w-40 rounded-md border border-neutral-300 px-3 py-2 text-sm"
                 />
-                <span className="text-sm">{c.text}</span>
-              </label>
-            );
-          })}
-        </div>
+                <button
+                  type="submit"
+                  disabled={starting || !accessCode.trim()}
+                  className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+                >
+                  {starting ? "Starting…" : "Start"}
+                </button>
+              </form>
+            ) : (
+              <p className="mt-4 text-sm text-neutral-700">Sign in to take this quiz.</p>
+            )}
+          </section>
+        ) : practice && !attemptId && !submitted ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6 text-center">
+            <h2 className="text-base font-semibold">Practice mode</h2>
+            <p className="mt-2 text-sm text-neutral-600">
+              Check each answer as you go to see if it&apos;s right and why. A checked answer can&apos;t be changed.
+              Practice doesn&apos;t count towards your attempts or score.
+            </p>
+            {status === "authenticated" ? (
+              <button
+                type="button"
+                onClick={onStart}
+                disabled={starting}
+                className="mt-4 rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+              >
+                {starting ? "Starting…" : "Start practice"}
+              </button>
+            ) : (
+              <p className="mt-4 text-sm text-neutral-700">Sign in to practice this quiz.</p>
+            )}
+          </section>
+        ) : isAdaptive && !attemptId && !submitted ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6 text-center">
+            <h2 className="text-base font-semibold">Adaptive quiz · {quiz.adaptiveLength ?? 0} questions</h2>
+            <p className="mt-2 text-sm text-neutral-600">
+              Questions come one at a time and get harder as you answer correctly, easier after a miss. Once you move on
+              you can&apos;t change an answer.
+              {isTimed ? ` Time limit: ${formatCountdown((quiz.timeLimitSeconds ?? 0) * 1000)}.` : null}
+            </p>
+            {status === "authenticated" ? (
+              <button
+                type="button"
+                onClick={onStart}
+                disabled={starting}
+                className="mt-4 rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+              >
+                {starting ? "Starting…" : "Start quiz"}
+              </button>
+            ) : (
+              <p className="mt-4 text-sm text-neutral-700">Sign in to take this adaptive quiz.</p>
+            )}
+          </section>
+        ) : isSectioned && !attemptId && !submitted ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6">
+            <h2 className="text-center text-base font-semibold">This quiz has {sections.length} sections</h2>
+            <ol className="mt-3 space-y-2 text-sm">
+              {sections.map((s, idx) => (
+                <li key={s.id} className="rounded-md border border-neutral-200 px-3 py-2">
+                  <span className="font-medium">
+                    {idx + 1}. {s.title}
+                  </span>
+                  <span className="text-neutral-600">
+                    {s.timeLimitSeconds ? ` · ${formatCountdown(s.timeLimitSeconds * 1000)}` : null}
+                    {s.allowReturn ? null : " · no going back once you move on"}
+                  </span>
+                </li>
+              ))}
+            </ol>
+            <p className="mt-3 text-center text-sm text-neutral-600">
+              A section&apos;s timer starts when you first open it and keeps running if you leave it.
+              {isTimed ? ` The whole quiz has a time limit of ${formatCountdown((quiz.timeLimitSeconds ?? 0) * 1000)}.` : null}
+            </p>
+            <div className="mt-4 text-center">
+              {status === "authenticated" ? (
+                <button
+                  type="button"
+                  onClick={onStart}
+                  disabled={starting}
+                  className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+                >
+                  {starting ? "Starting…" : "Start quiz"}
+                </button>
+              ) : (
+                <p className="text-sm text-neutral-700">Sign in to take this quiz.</p>
+              )}
+            </div>
+          </section>
+        ) : isTimed && !attemptId && !submitted ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6 text-center">
+            <h2 className="text-base font-semibold">
+              Time limit: {formatCountdown((quiz.timeLimitSeconds ?? 0) * 1000)}
+            </h2>
+            <p className="mt-2 text-sm text-neutral-600">
+              The timer starts when you begin and keeps running if you leave this page. When it reaches zero, your
+              answers are submitted automatically.
+            </p>
+            {status === "authenticated" ? (
+              <button
+                type="button"
+                onClick={onStart}
+                disabled={starting}
+                className="mt-4 rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+              >
+                {starting ? "Starting…" : "Start quiz"}
+              </button>
+            ) : (
+              <p className="mt-4 text-sm text-neutral-700">Sign in to take this timed quiz.</p>
+            )}
+          </section>
+        ) : isAdaptive && !submitted && questions.length > 0 ? (
+          <div className="space-y-3">
+            <p className="text-xs text-neutral-600">
+              Question {questions.length} of {quiz.adaptiveLength ?? questions.length}
+            </p>
 
-        {(submitted || answered) && q.rationale ? (
-          <div className="mt-4 rounded-md border border-neutral-200 bg-neutral-50 px-3 py-2">
-            <div className="text-xs font-medium text-neutral-700">Rationale</div>
-            <div className="mt-1 text-sm text-neutral-700">{q.rationale}</div>
+            {renderQuestion(questions[questions.length - 1], questions.length - 1)}
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                disabled={advancing}
+                onClick={() => onAdvance(questions[questions.length - 1])}
+                className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+              >
+                {advancing ? "Saving…" : questions.length >= (quiz.adaptiveLength ?? 0) ? "Finish" : "Next question"}
+              </button>
+            </div>
           </div>
-        ) : null}
-      </section>
-    );
-  }
+        ) : isPaged && questions.length > 0 ? (
+          <div className="space-y-3">
+            <QuestionNavigator
+              questions={questions}
+              currentIndex={pageIndex}
+              answeredQuestionIds={answeredQuestionIds}
+              flaggedQuestionIds={flaggedQuestionIds}
+              canGoBack={canGoBack}
+              isClosed={isClosedPage}
+              onSelect={(index) => void goToPage(index)}
+            />
 
-  return (
-    <div className="min-h-screen bg-neutral-50">
-      {header}
+            {renderQuestion(questions[pageIndex], pageIndex)}
 
-      <main className="mx-auto w-full max-w-3xl p-4">
-        {enableVirtualization ? (
+            <div className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                disabled={pageIndex === 0 || !canGoBack || isClosedPage(pageIndex - 1) || changingSection}
+                onClick={() => void goToPage(pageIndex - 1)}
+                className="rounded-md border border-neutral-300 bg-white px-4 py-2 text-sm disabled:opacity-60"
+              >
+                Previous
+              </button>
+              {submitted ? null : (
+                <button
+                  type="button"
+                  aria-pressed={flaggedQuestionIds.includes(questions[pageIndex].id)}
+                  onClick={() => toggleFlag(questions[pageIndex].id)}
+                  className="rounded-md border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900"
+                >
+                  {flaggedQuestionIds.includes(questions[pageIndex].id) ? "Unflag" : "Flag for review"}
+                </button>
+              )}
+              <button
+                type="button"
+                disabled={pageIndex >= questions.length - 1 || isClosedPage(pageIndex + 1) || changingSection}
+                onClick={() => void goToPage(pageIndex + 1)}
+                className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+              >
+                Next
+              </button>
+            </div>
+
+            {!canGoBack ? (
+              <p className="text-center text-xs text-neutral-600">
+                You can&apos;t return to a question once you move past it.
+              </p>
+            ) : null}
+          </div>
+        ) : enableVirtualization ? (
           <div
             ref={parentRef}
             className="h-[calc(100vh-140px)] overflow-auto"
@@ -364,7 +1263,7 @@ export function QuizPaper({ quizId }: { quizId: string }) {
               className="w-full"
             >
               {rowVirtualizer.getVirtualItems().map((v) => {
-                const q = questions[v.index];
+                const q = paperQuestions[v.index];
                 return (
                   <div
                     key={q.id}
@@ -379,7 +1278,7 @@ export function QuizPaper({ quizId }: { quizId: string }) {
                       paddingBottom: 12,
                     }}
                   >
-                    <QuestionCard q={q} index={v.index} />
+                    {renderQuestion(q, questionNumbers.get(q.id) ?? v.index)}
                   </div>
                 );
               })}
@@ -387,8 +1286,8 @@ export function QuizPaper({ quizId }: { quizId: string }) {
           </div>
         ) : (
           <div className="space-y-3">
-            {questions.map((q, idx) => (
-              <QuestionCard key={q.id} q={q} index={idx} />
+            {paperQuestions.map((q, idx) => (
+              <Fragment key={q.id}>{renderQuestion(q, questionNumbers.get(q.id) ?? idx)}</Fragment>
             ))}
           </div>
         )}
@@ -400,3 +1299,367 @@ export function QuizPaper({ quizId }: { quizId: string }) {
     </div>
   );
 }
+
+function SectionBar(props: {
+  sections: QuizSection[];
+  currentSectionId: string | null;
+  closedSectionIds: Set<string>;
+  disabled: boolean;
+  onSelect: (sectionId: string) => void;
+}) {
+  const current = props.sections.find((s) => s.id === props.currentSectionId);
+
+  return (
+    <nav aria-label="Sections" className="mb-3 rounded-lg border border-neutral-200 bg-white p-3">
+      <ol className="flex flex-wrap gap-1.5">
+        {props.sections.map((s, idx) => {
+          const isCurrent = s.id === props.currentSectionId;
+          const closed = props.closedSectionIds.has(s.id);
+          return (
+            <li key={s.id}>
+              <button
+                type="button"
+                disabled={props.disabled || closed || isCurrent}
+                onClick={() => props.onSelect(s.id)}
+                aria-current={isCurrent ? "step" : undefined}
+                className={`rounded-md border px-3 py-1.5 text-xs disabled:cursor-default ${
+                  isCurrent
+                    ? "border-neutral-900 bg-neutral-900 text-white"
+                    : closed
+                      ? "border-neutral-200 bg-neutral-100 text-neutral-500 line-through"
+                      : "border-neutral-300 bg-white text-neutral-900"
+                }`}
+              >
+                {idx + 1}. {s.title}
+                {closed ? " (closed)" : null}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      {current ? (
+        <div className="mt-3">
+          <h2 className="text-sm font-semibold">{current.title}</h2>
+          {current.instructions ? (
+            <p className="mt-1 whitespace-pre-line text-sm text-neutral-700">{current.instructions}</p>
+          ) : null}
+          {!current.allowReturn ? (
+            <p className="mt-1 text-xs text-neutral-600">You can&apos;t come back to this section once you move on.</p>
+          ) : null}
+        </div>
+      ) : null}
+    </nav>
+  );
+}
+
+function QuestionNavigator(props: {
+  questions: QuizQuestion[];
+  currentIndex: number;
+  answeredQuestionIds: Set<string>;
+  flaggedQuestionIds: string[];
+  canGoBack: boolean;
+  // Sectioned quizzes: pages in a section the learner can no longer work in.
+  isClosed: (index: number) => boolean;
+  onSelect: (index: number) => void;
+}) {
+  const flagged = new Set(props.flaggedQuestionIds);
+
+  return (
+    <nav aria-label="Questions" className="rounded-lg border border-neutral-200 bg-white p-3">
+      <ol className="grid grid-cols-8 gap-1.5 sm:grid-cols-12">
+        {props.questions.map((q, idx) => {
+          const answered = props.answeredQuestionIds.has(q.id);
+          const isCurrent = idx === props.currentIndex;
+          return (
+            <li key={q.id}>
+              <button
+                type="button"
+                disabled={(!props.canGoBack && idx < props.currentIndex) || props.isClosed(idx)}
+                onClick={() => props.onSelect(idx)}
+                aria-current={isCurrent ? "step" : undefined}
+                aria-label={`Question ${idx + 1}, ${answered ? "answered" : "unanswered"}${flagged.has(q.id) ? ", flagged" : ""}`}
+                className={`relative w-full rounded-md border px-1 py-1.5 text-xs tabular-nums disabled:opacity-40 ${
+                  answered ? "border-neutral-900 bg-neutral-900 text-white" : "border-neutral-300 bg-white text-neutral-900"
+                } ${isCurrent ? "ring-2 ring-neutral-500 ring-offset-1" : ""}`}
+              >
+                {idx + 1}
+                {flagged.has(q.id) ? (
+                  <span aria-hidden="true" className="absolute -right-1 -top-1 h-2.5 w-2.5 rounded-full bg-amber-500" />
+                ) : null}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      <p className="mt-2 flex flex-wrap gap-3 text-xs text-neutral-600">
+        <span>■ Answered</span>
+        <span>□ Unanswered</span>
+        <span className="text-amber-700">● Flagged</span>
+      </p>
+    </nav>
+  );
+}
+
+export function QuestionCard(props: {
+  q: QuizQuestion;
+  index: number;
+  choiceIds: string[];
+  value: string;
+  matches: Record<string, string>;
+  submitted: boolean;
+  result: QuestionResult | undefined;
+  // Practice mode only.
+  checking?: boolean;
+  onCheck?: () => void;
+  onToggleChoice: (choiceId: string) => void;
+  onArrange: (orderedIds: string[]) => void;
+  onValueChange: (value: string) => void;
+  onMatch: (choiceId: string, targetId: string | null) => void;
+}) {
+  const { q, index, value, submitted, result } = props;
+  const selected = new Set(props.choiceIds);
+  const answered = isAnswered(q, props.choiceIds, value, props.matches);
+  // The server only sends a rationale once the reveal policy allows it.
+  const rationale = result?.rationale ?? (answered ? q.rationale : null);
+
+  return (
+    <section className="rounded-lg border border-neutral-200 bg-white p-4">
+      <div className="flex items-start justify-between gap-3">
+        <h2 className="text-sm font-semibold">
+          {index + 1}. {q.prompt}
+        </h2>
+        {result ? (
+          <span
+            className={`rounded-full border px-2 py-0.5 text-xs ${
+              result.correct
+                ? "border-emerald-200 bg-emerald-50 text-emerald-900"
+                : result.credit > 0
+                  ? "border-amber-200 bg-amber-50 text-amber-900"
+                  : "border-red-200 bg-red-50 text-red-900"
+            }`}
+          >
+            {result.correct ? "Correct" : result.credit > 0 ? "Partial credit" : "Incorrect"} · {result.points}/
+            {result.maxPoints} pts
+          </span>
+        ) : answered ? (
+          <span className="rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-xs text-emerald-900">
+            Answered
+          </span>
+        ) : (
+          <span className="rounded-full border border-neutral-200 bg-neutral-50 px-2 py-0.5 text-xs text-neutral-700">
+            Unanswered
+          </span>
+        )}
+      </div>
+
+      {q.hint ? (
+        <details className="mt-3">
+          <summary className="cursor-pointer text-sm text-neutral-700 underline">
+            Show hint
+          </summary>
+          <p className="mt-2 text-sm text-neutral-700">{q.hint}</p>
+        </details>
+      ) : null}
+
+      {q.type === "NUMERIC" ? (
+        <div className="mt-4">
+          <input
+            type="text"
+            inputMode="decimal"
+            aria-label={`Answer to question ${index + 1}`}
+            placeholder="Enter a number"
+            value={value}
+            onChange={(e) => props.onValueChange(e.target.value)}
+            disabled={submitted}
+            className="w-full rounded-md border border-neutral-300 px-3 py-2 text-sm"
+          />
+          {value.trim() && parseNumericInput(value) === null ? (
+            <p className="mt-1 text-xs text-red-700">Enter a valid number, e.g. 9.81 or -2.5e3.</p>
+          ) : null}
+        </div>
+      ) : q.type === "SHORT_TEXT" ? (
+        <div className="mt-4">
+          <input
+            type="text"
+            aria-label={`Answer to question ${index + 1}`}
+            placeholder="Type your answer"
+            maxLength={500}
+            value={value}
+            onChange={(e) => props.onValueChange(e.target.value)}
+            disabled={submitted}
+            className="w-full rounded-md border border-neutral-300 px-3 py-2 text-sm"
+          />
+          {result?.matchedAnswer ? (
+            <p className="mt-1 text-xs text-neutral-600">
+              Matched accepted answer: <span className="font-mono">{result.matchedAnswer.text}</span>
+            </p>
+          ) : null}
+        </div>
+      ) : q.type === "ORDERING" ? (
+        <OrderingList
+          q={q}
+          orderedIds={props.choiceIds}
+          answered={answered}
+          disabled={submitted}
+          onArrange={props.onArrange}
+        />
+      ) : q.type === "MATCHING" ? (
+        <div className="mt-4 space-y-2">
+          {q.choices.map((c) => (
+            <label
+              key={c.id}
+              className="flex flex-col gap-2 rounded-md border border-neutral-200 p-3 sm:flex-row sm:items-center"
+            >
+              <span className="flex-1 text-sm">{c.text}</span>
+              <select
+                value={props.matches[c.id] ?? ""}
+                onChange={(e) => props.onMatch(c.id, e.target.value || null)}
+                disabled={submitted}
+                className="rounded-md border border-neutral-300 px-3 py-2 text-sm sm:w-1/2"
+              >
+                <option value="">Choose a match…</option>
+                {q.matchTargets.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.text}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          {result?.matchedPairs ? (
+            <p className="text-xs text-neutral-600">
+              {result.matchedPairs.correct} of {result.matchedPairs.total} pairs correct
+            </p>
+          ) : null}
+        </div>
+      ) : (
+        <div className="mt-4 space-y-2">
+          {q.choices.map((c) => {
+            const isSelected = selected.has(c.id);
+            const inputType = q.type === "SINGLE_CHOICE" ? "radio" : "checkbox";
+            return (
+              <label
+                key={c.id}
+                className="flex cursor-pointer items-start gap-3 rounded-md border border-neutral-200 p-3"
+              >
+                <input
+                  type={inputType}
+                  name={q.id}
+                  checked={isSelected}
+                  onChange={() => props.onToggleChoice(c.id)}
+                  disabled={submitted}
+                  className="mt-1"
+                />
+                <span className="text-sm">{c.text}</span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {props.onCheck ? (
+        <button
+          type="button"
+          onClick={props.onCheck}
+          disabled={!answered || props.checking}
+          className="mt-4 rounded-md border border-neutral-300 bg-white px-4 py-2 text-sm disabled:opacity-60"
+        >
+          {props.checking ? "Checking…" : "Check answer"}
+        </button>
+      ) : null}
+
+      {rationale ? (
+        <div className="mt-4 rounded-md border border-neutral-200 bg-neutral-50 px-3 py-2">
+          <div className="text-xs font-medium text-neutral-700">Rationale</div>
+          <div className="mt-1 text-sm text-neutral-700">{rationale}</div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+// Drag to reorder, or use the Up/Down buttons from the keyboard; moves are
+// announced through a live region for screen-reader users.
+function OrderingList(props: {
+  q: QuizQuestion;
+  orderedIds: string[];
+  answered: boolean;
+  disabled: boolean;
+  onArrange: (orderedIds: string[]) => void;
+}) {
+  const { q, disabled } = props;
+  const items = arrangeChoices(q, props.orderedIds);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  function move(from: number, to: number) {
+    if (disabled || to < 0 || to >= items.length || from === to) return;
+    props.onArrange(moveItem(items, from, to).map((c) => c.id));
+    setAnnouncement(`Moved "${items[from].text}" to position ${to + 1} of ${items.length}.`);
+  }
+
+  return (
+    <div className="mt-4">
+      <p id={`${q.id}-instructions`} className="text-xs text-neutral-600">
+        Drag the items, or use the Up and Down buttons, to put them in the correct order.
+      </p>
+
+      <ol className="mt-2 space-y-2" aria-describedby={`${q.id}-instructions`}>
+        {items.map((c, idx) => (
+          <li
+            key={c.id}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(idx)}
+            onDragOver={(e) => {
+              if (dragIndex !== null) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null) move(dragIndex, idx);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`flex items-center gap-3 rounded-md border p-3 ${
+              dragIndex === idx ? "border-neutral-400 bg-neutral-50" : "border-neutral-200"
+            } ${disabled ? "" : "cursor-move"}`}
+          >
+            <span className="w-6 shrink-0 text-right text-sm text-neutral-600">{idx + 1}.</span>
+            <span className="flex-1 text-sm">{c.text}</span>
+            <button
+              type="button"
+              disabled={disabled || idx === 0}
+              aria-label={`Move "${c.text}" up`}
+              onClick={() => move(idx, idx - 1)}
+              className="rounded-md border border-neutral-300 px-2 py-1 text-xs disabled:opacity-40"
+            >
+              Up
+            </button>
+            <button
+              type="button"
+              disabled={disabled || idx === items.length - 1}
+              aria-label={`Move "${c.text}" down`}
+              onClick={() => move(idx, idx + 1)}
+              className="rounded-md border border-neutral-300 px-2 py-1 text-xs disabled:opacity-40"
+            >
+              Down
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {!props.answered && !disabled ? (
+        <button
+          type="button"
+          onClick={() => props.onArrange(items.map((c) => c.id))}
+          className="mt-2 text-xs text-neutral-700 underline"
+        >
+          Keep this order
+        </button>
+      ) : null}
+
+      <p aria-live="polite" className="sr-only">
+        {announcement}
+      </p>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { QuizPaper } from "./QuizPaper";
 export default function QuizPage({
   searchParams,
 }: {
-  searchParams?: { id?: string };
+  searchParams?: { id?: string; practice?: string };
 }) {
   const quizId = searchParams?.id;
 
@@ -18,5 +18,5 @@ export default function QuizPage({
     );
   }
 
-  return <QuizPaper quizId={quizId} />;
+  return <QuizPaper quizId={quizId} practice={searchParams?.practice === "1"} />;
 }
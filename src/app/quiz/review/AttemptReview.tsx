@@ -0,0 +1,332 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+
+type QuestionType = "SINGLE_CHOICE" | "MULTIPLE_CHOICE" | "NUMERIC" | "SHORT_TEXT" | "ORDERING" | "MATCHING";
+
+type ReviewAnswer = {
+  choiceIds?: string[];
+  numericValue?: number | null;
+  textValue?: string | null;
+  orderedChoiceIds?: string[];
+  matches?: Array<{ choiceId: string; targetId: string }>;
+};
+
+type ReviewQuestion = {
+  id: string;
+  prompt: string;
+  rationale: string | null;
+  type: QuestionType;
+  points: number;
+  numericMode: "EXACT" | "ABSOLUTE" | "RELATIVE" | "RANGE" | null;
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  numericMin: number | null;
+  numericMax: number | null;
+  choices: Array<{ id: string; text: string; order: number; isCorrect: boolean; matchTargetId: string | null }>;
+  acceptedAnswers: Array<{ id: string; text: string; isRegex: boolean }>;
+  matchTargets: Array<{ id: string; text: string }>;
+  answer: ReviewAnswer | null;
+  result: {
+    correct: boolean;
+    credit: number;
+    points: number;
+    maxPoints: number;
+    matchedAnswer?: { id: string; text: string } | null;
+    matchedPairs?: { correct: number; total: number };
+  };
+};
+
+// What a learner sees while the answer key is withheld: their own answers only.
+type RedactedQuestion = {
+  id: string;
+  prompt: string;
+  type: QuestionType;
+  points: number;
+  choices: Array<{ id: string; text: string; order: number }>;
+  matchTargets: Array<{ id: string; text: string }>;
+  answer: ReviewAnswer | null;
+};
+
+type ReviewPayload = {
+  ok: true;
+  attempt: {
+    id: string;
+    attemptNo: number;
+    submittedAt: string | null;
+    score: number | null;
+    maxScore: number | null;
+    quiz: { id: string; title: string };
+  };
+  sectionTotals: Array<{ sectionId: string; title: string; score: number; maxScore: number }>;
+} & ({ answersRevealed: true; questions: ReviewQuestion[] } | { answersRevealed: false; questions: RedactedQuestion[] });
+
+type ApiError = { ok: false; error: { message: string } };
+
+async function apiJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const json = (await res.json().catch(() => null)) as T | ApiError | null;
+  if (!res.ok) {
+    const msg = (json as ApiError | null)?.error?.message ?? "Request failed";
+    throw new Error(msg);
+  }
+  return json as T;
+}
+
+function describeAnswer(q: RedactedQuestion): string {
+  const a = q.answer;
+  if (!a) return "—";
+  const choiceText = new Map(q.choices.map((c) => [c.id, c.text] as const));
+  const targetText = new Map(q.matchTargets.map((t) => [t.id, t.text] as const));
+
+  switch (q.type) {
+    case "NUMERIC":
+      return a.numericValue != null ? String(a.numericValue) : "—";
+    case "SHORT_TEXT":
+      return a.textValue || "—";
+    case "ORDERING":
+      return (a.orderedChoiceIds ?? []).map((id) => choiceText.get(id)).join(" → ") || "—";
+    case "MATCHING":
+      return (
+        (a.matches ?? []).map((m) => `${choiceText.get(m.choiceId)} → ${targetText.get(m.targetId)}`).join("; ") || "—"
+      );
+    default:
+      return (a.choiceIds ?? []).map((id) => choiceText.get(id)).join(", ") || "—";
+  }
+}
+
+function describeNumericKey(q: ReviewQuestion) {
+  switch (q.numericMode) {
+    case "RANGE":
+      return `${q.numericMin} to ${q.numericMax}`;
+    case "ABSOLUTE":
+      return `${q.numericAnswer} ± ${q.numericTolerance}`;
+    case "RELATIVE":
+      return `${q.numericAnswer} ± ${(q.numericTolerance ?? 0) * 100}%`;
+    default:
+      return String(q.numericAnswer);
+  }
+}
+
+export function AttemptReview({ attemptId }: { attemptId: string }) {
+  const reviewQuery = useQuery({
+    queryKey: ["attempt", attemptId],
+    queryFn: () => apiJson<ReviewPayload>(`/api/quiz/attempt?id=${encodeURIComponent(attemptId)}`),
+  });
+
+  if (reviewQuery.isLoading) {
+    return (
+      <main className="p-6">
+        <p className="text-sm text-neutral-600">Loading attempt…</p>
+      </main>
+    );
+  }
+
+  if (reviewQuery.isError || !reviewQuery.data) {
+    return (
+      <main className="p-6">
+        <p className="text-sm text-red-700">{reviewQuery.error?.message ?? "Failed to load attempt."}</p>
+      </main>
+    );
+  }
+
+  const review = reviewQuery.data;
+  const { attempt } = review;
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="border-b border-neutral-200 bg-white">
+        <div className="mx-auto w-full max-w-3xl p-4">
+          <h1 className="text-lg font-semibold">{attempt.quiz.title}</h1>
+          <p className="mt-1 text-sm text-neutral-600">
+            Attempt {attempt.attemptNo}
+            {attempt.submittedAt ? ` · submitted ${new Date(attempt.submittedAt).toLocaleString()}` : ""}
+          </p>
+          <p className="mt-2 text-sm font-medium">
+            Score: {attempt.score ?? 0}/{attempt.maxScore ?? 0} points
+          </p>
+          {review.sectionTotals.length ? (
+            <ul className="mt-1 text-sm text-neutral-600">
+              {review.sectionTotals.map((t) => (
+                <li key={t.sectionId}>
+                  {t.title}: {t.score}/{t.maxScore}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          <Link href={`/quiz?id=${encodeURIComponent(attempt.quiz.id)}`} className="mt-2 inline-block text-sm underline">
+            Back to quiz
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto w-full max-w-3xl space-y-3 p-4">
+        {review.answersRevealed ? (
+          review.questions.map((q, idx) => <ReviewCard key={q.id} q={q} index={idx} />)
+        ) : (
+          <>
+            <p className="rounded-md border border-neutral-200 bg-white px-3 py-2 text-sm text-neutral-700">
+              Correct answers and explanations are not available for this quiz right now.
+            </p>
+            {review.questions.map((q, idx) => (
+              <section key={q.id} className="rounded-lg border border-neutral-200 bg-white p-4">
+                <h2 className="text-sm font-semibold">
+                  {idx + 1}. {q.prompt}
+                </h2>
+                <p className="mt-2 text-sm">
+                  <span className="text-neutral-600">Your answer: </span>
+                  {describeAnswer(q)}
+                </p>
+              </section>
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function ReviewCard({ q, index }: { q: ReviewQuestion; index: number }) {
+  const { result, answer } = q;
+
+  return (
+    <section className="rounded-lg border border-neutral-200 bg-white p-4">
+      <div className="flex items-start justify-between gap-3">
+        <h2 className="text-sm font-semibold">
+          {index + 1}. {q.prompt}
+        </h2>
+        <span
+          className={`shrink-0 rounded-full border px-2 py-0.5 text-xs ${
+            result.correct
+              ? "border-emerald-200 bg-emerald-50 text-emerald-900"
+              : result.credit > 0
+                ? "border-amber-200 bg-amber-50 text-amber-900"
+                : "border-red-200 bg-red-50 text-red-900"
+          }`}
+        >
+          {result.correct ? "Correct" : result.credit > 0 ? "Partial credit" : answer ? "Incorrect" : "Unanswered"} ·{" "}
+          {result.points}/{result.maxPoints} pts
+        </span>
+      </div>
+
+      <div className="mt-4 text-sm">
+        {q.type === "NUMERIC" ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            <dt className="text-neutral-600">Your answer</dt>
+            <dd>{answer?.numericValue ?? "—"}</dd>
+            <dt className="text-neutral-600">Correct answer</dt>
+            <dd>{describeNumericKey(q)}</dd>
+          </dl>
+        ) : q.type === "SHORT_TEXT" ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            <dt className="text-neutral-600">Your answer</dt>
+            <dd>{answer?.textValue || "—"}</dd>
+            <dt className="text-neutral-600">Accepted answers</dt>
+            <dd>
+              {q.acceptedAnswers.map((a, i) => (
+                <span key={a.id}>
+                  {i > 0 ? ", " : null}
+                  <span className={a.isRegex ? "font-mono" : ""}>{a.text}</span>
+                </span>
+              ))}
+            </dd>
+          </dl>
+        ) : q.type === "ORDERING" ? (
+          <OrderingReview q={q} />
+        ) : q.type === "MATCHING" ? (
+          <MatchingReview q={q} />
+        ) : (
+          <ul className="space-y-2">
+            {q.choices.map((c) => {
+              const selected = (answer?.choiceIds ?? []).includes(c.id);
+              return (
+                <li
+                  key={c.id}
+                  className={`flex items-start justify-between gap-3 rounded-md border p-3 ${
+                    c.isCorrect ? "border-emerald-200 bg-emerald-50" : selected ? "border-red-200 bg-red-50" : "border-neutral-200"
+                  }`}
+                >
+                  <span>{c.text}</span>
+                  <span className="shrink-0 text-xs text-neutral-700">
+                    {[selected ? "Your answer" : null, c.isCorrect ? "Correct" : null].filter(Boolean).join(" · ")}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {q.rationale ? (
+        <div className="mt-4 rounded-md border border-neutral-200 bg-neutral-50 px-3 py-2">
+          <div className="text-xs font-medium text-neutral-700">Rationale</div>
+          <div className="mt-1 text-sm text-neutral-700">{q.rationale}</div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+function OrderingReview({ q }: { q: ReviewQuestion }) {
+  const textById = new Map(q.choices.map((c) => [c.id, c.text] as const));
+  const submitted = q.answer?.orderedChoiceIds ?? [];
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div>
+        <div className="text-xs font-medium text-neutral-700">Your order</div>
+        {submitted.length ? (
+          <ol className="mt-1 list-decimal space-y-1 pl-5">
+            {submitted.map((id, i) => (
+              <li key={id} className={q.choices[i]?.id === id ? "text-emerald-800" : "text-red-800"}>
+                {textById.get(id) ?? "—"}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="mt-1 text-neutral-600">—</p>
+        )}
+      </div>
+      <div>
+        <div className="text-xs font-medium text-neutral-700">Correct order</div>
+        <ol className="mt-1 list-decimal space-y-1 pl-5">
+          {q.choices.map((c) => (
+            <li key={c.id}>{c.text}</li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+function MatchingReview({ q }: { q: ReviewQuestion }) {
+  const targetText = new Map(q.matchTargets.map((t) => [t.id, t.text] as const));
+  const pickedByChoiceId = new Map((q.answer?.matches ?? []).map((m) => [m.choiceId, m.targetId] as const));
+
+  return (
+    <table className="w-full text-left">
+      <thead className="text-xs text-neutral-700">
+        <tr>
+          <th className="py-1 font-medium">Item</th>
+          <th className="py-1 font-medium">Your match</th>
+          <th className="py-1 font-medium">Correct match</th>
+        </tr>
+      </thead>
+      <tbody>
+        {q.choices.map((c) => {
+          const picked = pickedByChoiceId.get(c.id);
+          return (
+            <tr key={c.id} className="border-t border-neutral-200">
+              <td className="py-1 pr-2">{c.text}</td>
+              <td className={`py-1 pr-2 ${picked === c.matchTargetId ? "text-emerald-800" : "text-red-800"}`}>
+                {picked ? targetText.get(picked) : "—"}
+              </td>
+              <td className="py-1">{c.matchTargetId ? targetText.get(c.matchTargetId) : "—"}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,22 @@
+import { AttemptReview } from "./AttemptReview";
+
+export default async function AttemptReviewPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ id?: string }>;
+}) {
+  const { id: attemptId } = await searchParams;
+
+  if (!attemptId) {
+    return (
+      <main className="p-6">
+        <h1 className="text-xl font-semibold">Attempt review</h1>
+        <p className="mt-2 text-sm text-neutral-600">
+          Open an attempt with <span className="font-mono">/quiz/review?id=&lt;attemptId&gt;</span>.
+        </p>
+      </main>
+    );
+  }
+
+  return <AttemptReview attemptId={attemptId} />;
+}
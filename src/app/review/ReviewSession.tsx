@@ -0,0 +1,214 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import { useState } from "react";
+
+import { QuestionCard, questionAnswer, type QuestionResult, type QuizQuestion } from "../quiz/QuizPaper";
+
+type ReviewCard = {
+  box: number;
+  dueAt: string;
+  quiz: { id: string; title: string };
+  question: QuizQuestion;
+};
+
+type ReviewPayload = {
+  ok: true;
+  cards: ReviewCard[];
+  // Everything due now; a session holds at most a batch of it.
+  dueCount: number;
+};
+
+type ReviewResponse = {
+  ok: true;
+  result: QuestionResult;
+  card: { box: number; dueAt: string };
+};
+
+type ApiError = { ok: false; error: { message: string } };
+
+function formatNextReview(dueAt: string) {
+  const days = Math.round((Date.parse(dueAt) - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 1 ? "tomorrow" : `in ${days} days`;
+}
+
+export function ReviewSession() {
+  const { status } = useSession();
+
+  const reviewQuery = useQuery({
+    queryKey: ["review"],
+    enabled: status === "authenticated",
+    queryFn: async (): Promise<ReviewPayload> => {
+      const res = await fetch("/api/review");
+      if (!res.ok) throw new Error("Failed to load reviews");
+      return (await res.json()) as ReviewPayload;
+    },
+    // A session is worked through in place; refetching would reshuffle it.
+    refetchOnWindowFocus: false,
+  });
+
+  const [answersByQuestionId, setAnswersByQuestionId] = useState<Record<string, string[]>>({});
+  const [valuesByQuestionId, setValuesByQuestionId] = useState<Record<string, string>>({});
+  const [matchesByQuestionId, setMatchesByQuestionId] = useState<Record<string, Record<string, string>>>({});
+  const [reviewed, setReviewed] = useState<Record<string, ReviewResponse>>({});
+  const [checkingQuestionId, setCheckingQuestionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function toggleChoice(question: QuizQuestion, choiceId: string) {
+    setAnswersByQuestionId((prev) => {
+      if (question.type === "SINGLE_CHOICE") return { ...prev, [question.id]: [choiceId] };
+      const set = new Set(prev[question.id] ?? []);
+      if (set.has(choiceId)) set.delete(choiceId);
+      else set.add(choiceId);
+      return { ...prev, [question.id]: Array.from(set) };
+    });
+  }
+
+  async function onCheck(question: QuizQuestion) {
+    const answer = questionAnswer(
+      question,
+      answersByQuestionId[question.id] ?? [],
+      valuesByQuestionId[question.id] ?? "",
+      matchesByQuestionId[question.id] ?? {}
+    );
+    if (!answer) return;
+    setError(null);
+    setCheckingQuestionId(question.id);
+
+    try {
+      const res = await fetch("/api/review", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ answer }),
+      });
+      const j = (await res.json().catch(() => null)) as ReviewResponse | ApiError | null;
+      if (!res.ok || !j?.ok) {
+        setError((j && !j.ok ? j.error.message : null) ?? "Failed to check the answer.");
+        setCheckingQuestionId(null);
+        return;
+      }
+
+      setReviewed((prev) => ({ ...prev, [question.id]: j }));
+      setCheckingQuestionId(null);
+    } catch {
+      setError("Failed to check the answer.");
+      setCheckingQuestionId(null);
+    }
+  }
+
+  if (status === "unauthenticated") {
+    return (
+      <main className="p-6">
+        <h1 className="text-xl font-semibold">Review</h1>
+        <p className="mt-2 text-sm text-neutral-600">
+          <Link href="/auth/login" className="underline">
+            Sign in
+          </Link>{" "}
+          to review the questions you missed.
+        </p>
+      </main>
+    );
+  }
+
+  if (status === "loading" || reviewQuery.isLoading) {
+    return (
+      <main className="p-6">
+        <p className="text-sm text-neutral-600">Loading reviews…</p>
+      </main>
+    );
+  }
+
+  if (reviewQuery.isError || !reviewQuery.data) {
+    return (
+      <main className="p-6">
+        <p className="text-sm text-red-700">Failed to load reviews.</p>
+      </main>
+    );
+  }
+
+  const { cards, dueCount } = reviewQuery.data;
+  const reviewedCount = Object.keys(reviewed).length;
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="sticky top-0 z-10 border-b border-neutral-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto w-full max-w-3xl p-4">
+          <h1 className="text-lg font-semibold">Review</h1>
+          <p className="mt-1 text-xs text-neutral-600">
+            {dueCount} due · {reviewedCount}/{cards.length} reviewed this session
+          </p>
+          {error ? (
+            <p className="mt-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-900">{error}</p>
+          ) : null}
+        </div>
+      </header>
+
+      <main className="mx-auto w-full max-w-3xl p-4">
+        {cards.length === 0 ? (
+          <section className="rounded-lg border border-neutral-200 bg-white p-6 text-center">
+            <h2 className="text-base font-semibold">Nothing due</h2>
+            <p className="mt-2 text-sm text-neutral-600">
+              Questions you miss in quizzes come back here, spaced out further each time you get them right.
+            </p>
+          </section>
+        ) : (
+          <div className="space-y-3">
+            {cards.map(({ quiz, question: q }, idx) => {
+              const done = reviewed[q.id];
+              return (
+                <div key={q.id}>
+                  <p className="mb-1 text-xs text-neutral-600">
+                    From{" "}
+                    <Link href={`/quiz?id=${encodeURIComponent(quiz.id)}`} className="underline">
+                      {quiz.title}
+                    </Link>
+                    {done ? ` · Next review ${formatNextReview(done.card.dueAt)}` : null}
+                  </p>
+                  <QuestionCard
+                    q={q}
+                    index={idx}
+                    choiceIds={answersByQuestionId[q.id] ?? []}
+                    value={valuesByQuestionId[q.id] ?? ""}
+                    matches={matchesByQuestionId[q.id] ?? {}}
+                    submitted={Boolean(done)}
+                    result={done?.result}
+                    checking={checkingQuestionId === q.id}
+                    onCheck={done ? undefined : () => onCheck(q)}
+                    onToggleChoice={(choiceId) => toggleChoice(q, choiceId)}
+                    onArrange={(orderedIds) => setAnswersByQuestionId((prev) => ({ ...prev, [q.id]: orderedIds }))}
+                    onValueChange={(value) => setValuesByQuestionId((prev) => ({ ...prev, [q.id]: value }))}
+                    onMatch={(choiceId, targetId) =>
+                      setMatchesByQuestionId((prev) => {
+                        const next = { ...prev[q.id] };
+                        if (targetId) next[choiceId] = targetId;
+                        else delete next[choiceId];
+                        return { ...prev, [q.id]: next };
+                      })
+                    }
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {cards.length > 0 && reviewedCount === cards.length ? (
+          <div className="mt-6 text-center">
+            <button
+              type="button"
+              onClick={() => {
+                setReviewed({});
+                void reviewQuery.refetch();
+              }}
+              className="rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-white"
+            >
+              {dueCount > cards.length ? "Next batch" : "Check for more"}
+            </button>
+          </div>
+        ) : null}
+      </main>
+    </div>
+  );
+}
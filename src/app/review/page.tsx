@@ -0,0 +1,5 @@
+import { ReviewSession } from "./ReviewSession";
+
+export default function ReviewPage() {
+  return <ReviewSession />;
+}
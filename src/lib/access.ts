@@ -0,0 +1,43 @@
+import bcrypt from "bcrypt";
+import type { Prisma, QuizVisibility } from "@prisma/client";
+
+export const QUIZ_VISIBILITIES: readonly QuizVisibility[] = ["PUBLIC", "UNLISTED", "ACCESS_CODE"];
+
+export function isQuizVisibility(value: unknown): value is QuizVisibility {
+  return typeof value === "string" && (QUIZ_VISIBILITIES as readonly string[]).includes(value);
+}
+
+export const accessRulesSelect = { visibility: true, accessCodeHash: true } satisfies Prisma.QuizSelect;
+
+export type QuizAccess = Prisma.QuizGetPayload<{ select: typeof accessRulesSelect }>;
+
+export const ACCESS_CODE_MIN_LENGTH = 4;
+
+// Codes are read out in the room, so surrounding spaces and letter case don't matter.
+function normalizeAccessCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function hashAccessCode(code: string) {
+  return bcrypt.hash(normalizeAccessCode(code), 12);
+}
+
+// Checked when a learner starts an attempt; an attempt in progress needs no code.
+export async function checkAccessCode(quiz: QuizAccess, code: unknown) {
+  if (quiz.visibility !== "ACCESS_CODE") return { ok: true as const };
+  if (typeof code !== "string" || !code.trim()) {
+    return { ok: false as const, code: "ACCESS_CODE_REQUIRED", message: "Enter the access code to start this quiz." };
+  }
+  // A protected quiz without a code can't be started until an admin sets one.
+  const matches = quiz.accessCodeHash ? await bcrypt.compare(normalizeAccessCode(code), quiz.accessCodeHash) : false;
+  if (!matches) {
+    return { ok: false as const, code: "INVALID_ACCESS_CODE", message: "That access code is not correct." };
+  }
+  return { ok: true as const };
+}
+
+// Admin views say whether a code is set; the hash itself never leaves the server.
+export function withoutAccessCodeHash<T extends { accessCodeHash: string | null }>(quiz: T) {
+  const { accessCodeHash, ...rest } = quiz;
+  return { ...rest, hasAccessCode: accessCodeHash !== null };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  adaptiveLength,
+  pickNextQuestion,
+  servedQuestions,
+  targetDifficulty,
+  unservedQuestionIds,
+  type AdaptiveQuestion,
+} from "@/lib/adaptive";
+
+// Two questions at every level, e.g. "d3a" and "d3b" at level 3.
+const pool: AdaptiveQuestion[] = [1, 2, 3, 4, 5].flatMap((difficulty) => [
+  { id: `d${difficulty}a`, difficulty },
+  { id: `d${difficulty}b`, difficulty },
+]);
+
+const level = (id: string | null) => pool.find((q) => q.id === id)?.difficulty;
+
+describe("targetDifficulty", () => {
+  it("starts in the middle", () => {
+    expect(targetDifficulty([])).toBe(3);
+  });
+
+  it("steps up after a correct answer and down after a miss", () => {
+    expect(targetDifficulty([{ correct: true }])).toBe(4);
+    expect(targetDifficulty([{ correct: false }])).toBe(2);
+    expect(targetDifficulty([{ correct: true }, { correct: false }, { correct: false }])).toBe(2);
+  });
+
+  it("stays within the difficulty range", () => {
+    expect(targetDifficulty(Array.from({ length: 6 }, () => ({ correct: true })))).toBe(5);
+    expect(targetDifficulty(Array.from({ length: 6 }, () => ({ correct: false })))).toBe(1);
+    expect(targetDifficulty([...Array.from({ length: 6 }, () => ({ correct: true })), { correct: false }])).toBe(4);
+  });
+});
+
+describe("pickNextQuestion", () => {
+  it("serves the target level while it lasts, then the nearest one", () => {
+    expect(level(pickNextQuestion(pool, [], 3, "seed"))).toBe(3);
+    expect(level(pickNextQuestion(pool, ["d5a", "d5b"], 5, "seed"))).toBe(4);
+  });
+
+  it("never serves a question twice, and runs out with the pool", () => {
+    const served = pool.map((q) => q.id).filter((id) => id !== "d1b");
+    expect(pickNextQuestion(pool, served, 5, "seed")).toBe("d1b");
+    expect(pickNextQuestion(pool, [...served, "d1b"], 5, "seed")).toBeNull();
+  });
+
+  it("breaks ties the same way for the same seed", () => {
+    expect(pickNextQuestion(pool, [], 3, "attempt-1")).toBe(pickNextQuestion(pool, [], 3, "attempt-1"));
+    const picks = new Set(Array.from({ length: 20 }, (_, i) => pickNextQuestion(pool, [], 3, `seed-${i}`)));
+    expect(picks).toEqual(new Set(["d3a", "d3b"]));
+  });
+});
+
+describe("adaptiveLength", () => {
+  it("serves drawCount questions, capped by the pool", () => {
+    expect(adaptiveLength(4, 10)).toBe(4);
+    expect(adaptiveLength(20, 10)).toBe(10);
+    expect(adaptiveLength(null, 10)).toBe(10);
+  });
+});
+
+describe("servedQuestions", () => {
+  it("keeps the order the questions were served in", () => {
+    expect(servedQuestions(pool, ["d4a", "d2b"]).map((q) => q.id)).toEqual(["d4a", "d2b"]);
+    expect(servedQuestions(pool, [])).toEqual([]);
+  });
+});
+
+describe("unservedQuestionIds", () => {
+  it("fills the attempt up to its length, stepping down as if each were missed", () => {
+    const rest = unservedQuestionIds(pool, ["d3a"], [{ correct: true }], 4, "seed");
+    expect(rest).toHaveLength(3);
+    expect(rest.map(level)).toEqual([4, 3, 2]);
+  });
+
+  it("adds nothing to a finished attempt", () => {
+    expect(unservedQuestionIds(pool, ["d3a", "d4a"], [{ correct: true }, { correct: true }], 2, "seed")).toEqual([]);
+  });
+
+  it("stops when the pool runs out", () => {
+    expect(unservedQuestionIds(pool.slice(0, 3), [], [], 5, "seed")).toHaveLength(3);
+  });
+});
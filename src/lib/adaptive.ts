@@ -0,0 +1,69 @@
+import { seededShuffle } from "@/lib/shuffle";
+
+// Question difficulty runs from 1 (easiest) to 5 (hardest).
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 5;
+export const DEFAULT_DIFFICULTY = 3;
+
+export function isDifficulty(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= MIN_DIFFICULTY && (value as number) <= MAX_DIFFICULTY;
+}
+
+export type AdaptiveQuestion = { id: string; difficulty: number };
+
+// How many questions an adaptive attempt serves: the quiz's drawCount, capped by the pool.
+export function adaptiveLength(drawCount: number | null, poolSize: number) {
+  return drawCount ? Math.min(drawCount, poolSize) : poolSize;
+}
+
+// The level to serve next: start in the middle, one step up after a correct answer and
+// one step down after a miss (partial credit counts as a miss).
+export function targetDifficulty(results: readonly { correct: boolean }[]) {
+  return results.reduce(
+    (level, r) => Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, level + (r.correct ? 1 : -1))),
+    DEFAULT_DIFFICULTY
+  );
+}
+
+// The unserved question closest to the target level, ties broken by the seed; null when
+// the pool is used up.
+export function pickNextQuestion(
+  pool: readonly AdaptiveQuestion[],
+  servedIds: readonly string[],
+  target: number,
+  seed: string
+): string | null {
+  const served = new Set(servedIds);
+  const remaining = pool.filter((q) => !served.has(q.id));
+  const [next] = seededShuffle(remaining, `${seed}:adaptive:${servedIds.length}`).sort(
+    (a, b) => Math.abs(a.difficulty - target) - Math.abs(b.difficulty - target)
+  );
+  return next?.id ?? null;
+}
+
+// An adaptive attempt's questions in the order they were served. Unlike a draw, an
+// empty list means nothing has been served yet.
+export function servedQuestions<Q extends { id: string }>(questions: readonly Q[], questionIds: readonly string[]): Q[] {
+  const byId = new Map(questions.map((q) => [q.id, q] as const));
+  return questionIds.flatMap((id) => byId.get(id) ?? []);
+}
+
+// The questions a cut-short attempt would still have served, each one counted as a miss.
+// A timed-out attempt is scored against these too, so running out the clock can't help.
+export function unservedQuestionIds(
+  pool: readonly AdaptiveQuestion[],
+  servedIds: readonly string[],
+  results: readonly { correct: boolean }[],
+  length: number,
+  seed: string
+): string[] {
+  const ids = [...servedIds];
+  const outcomes = [...results];
+  while (ids.length < length) {
+    const next = pickNextQuestion(pool, ids, targetDifficulty(outcomes), seed);
+    if (!next) break;
+    ids.push(next);
+    outcomes.push({ correct: false });
+  }
+  return ids.slice(servedIds.length);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { parseAiken, serializeAiken } from "@/lib/aiken";
+import type { ImportDraft } from "@/lib/questionImport";
+
+describe("Aiken round trip", () => {
+  it("reads back choice questions as written", () => {
+    const drafts: ImportDraft[] = [
+      {
+        type: "SINGLE_CHOICE",
+        prompt: "What is 2 + 2?",
+        choices: [
+          { text: "4", isCorrect: true, order: 0 },
+          { text: "5", isCorrect: false, order: 1 },
+        ],
+      },
+      {
+        type: "MULTIPLE_CHOICE",
+        prompt: "Pick the primes.",
+        choices: [
+          { text: "2", isCorrect: true, order: 0 },
+          { text: "3", isCorrect: true, order: 1 },
+          { text: "4", isCorrect: false, order: 2 },
+        ],
+      },
+    ];
+    const parsed = parseAiken(serializeAiken(drafts));
+    if (!parsed.ok) throw new Error(parsed.message);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.rows.map((r) => r.draft)).toEqual(drafts);
+  });
+
+  it("leaves out questions without an Aiken form", () => {
+    const drafts: ImportDraft[] = [
+      { type: "SHORT_TEXT", prompt: "Capital of France?", acceptedAnswers: [{ text: "Paris" }] },
+      { type: "SINGLE_CHOICE", prompt: "Too many", choices: Array.from({ length: 27 }, (_, i) => ({ text: `${i}` })) },
+    ];
+    expect(serializeAiken(drafts).trim()).toBe("");
+  });
+});
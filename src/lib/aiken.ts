@@ -0,0 +1,100 @@
+import type { ImportDraft, ImportRow, ParsedImport, RowError } from "@/lib/questionImport";
+
+// Aiken: the question, options "A. text" or "A) text", then "ANSWER: B". A comma list
+// ("ANSWER: A, C") marks a multiple-choice question. Aiken has no feedback.
+
+const OPTION = /^([A-Z])[.)]\s+(.*)$/;
+const ANSWER = /^ANSWER:\s*(.*)$/i;
+
+type Pending = { line: number; prompt: string[]; options: Array<{ letter: string; text: string }> };
+
+export function parseAiken(content: string): ParsedImport {
+  const rows: ImportRow[] = [];
+  const errors: RowError[] = [];
+  let pending: Pending | null = null;
+  // Once a question has gone wrong, its remaining lines are skipped up to its ANSWER.
+  let skipping = false;
+
+  const fail = (line: number, message: string) => {
+    errors.push({ row: rows.length + errors.length + 1, line, message });
+  };
+
+  for (const [idx, raw] of content.split(/\r?\n/).entries()) {
+    const lineNo = idx + 1;
+    const line = raw.trim();
+    if (!line) continue;
+
+    const answer = ANSWER.exec(line);
+    if (skipping) {
+      if (answer) skipping = false;
+      continue;
+    }
+
+    const option = OPTION.exec(line);
+    if (answer) {
+      if (!pending) {
+        fail(lineNo, "ANSWER without a question.");
+        continue;
+      }
+      const { options } = pending;
+      const letters = answer[1].split(",").map((l) => l.trim().toUpperCase());
+      if (options.length < 2) {
+        fail(pending.line, `Expected options like "A. text" before line ${lineNo}.`);
+      } else if (!letters.every((l) => options.some((o) => o.letter === l))) {
+        fail(lineNo, `ANSWER must name the options, e.g. "ANSWER: ${options[0].letter}".`);
+      } else {
+        rows.push({
+          row: rows.length + errors.length + 1,
+          line: pending.line,
+          draft: {
+            type: letters.length > 1 ? "MULTIPLE_CHOICE" : "SINGLE_CHOICE",
+            prompt: pending.prompt.join("\n"),
+            choices: options.map((o, order) => ({ text: o.text, isCorrect: letters.includes(o.letter), order })),
+          },
+        });
+      }
+      pending = null;
+    } else if (option && pending) {
+      const last = pending.options.at(-1);
+      const expected = last ? String.fromCharCode(last.letter.charCodeAt(0) + 1) : "A";
+      if (option[1] === expected) {
+        pending.options.push({ letter: option[1], text: option[2] });
+      } else {
+        fail(lineNo, `Expected option ${expected}.`);
+        pending = null;
+        skipping = true;
+      }
+    } else if (pending?.options.length) {
+      fail(pending.line, `Question ended without an ANSWER line (line ${lineNo}).`);
+      pending = { line: lineNo, prompt: [line], options: [] };
+    } else if (pending) {
+      pending.prompt.push(line);
+    } else {
+      pending = { line: lineNo, prompt: [line], options: [] };
+    }
+  }
+  if (pending) fail(pending.line, "Question ended without an ANSWER line.");
+
+  return { ok: true, rows, errors, sections: [] };
+}
+
+// Choice questions as Aiken. Other types, and questions with more than 26 choices,
+// have no Aiken form and are left out.
+export function serializeAiken(drafts: readonly ImportDraft[]) {
+  const blocks = drafts.flatMap((d) => {
+    const choices = d.choices ?? [];
+    const isChoice = d.type === "SINGLE_CHOICE" || d.type === "MULTIPLE_CHOICE" || d.type === undefined;
+    if (!isChoice || choices.length > 26) return [];
+
+    const letter = (i: number) => String.fromCharCode(65 + i);
+    const correct = choices.flatMap((c, i) => (c.isCorrect ? [letter(i)] : []));
+    return [
+      [
+        d.prompt.replace(/\s*\r?\n\s*/g, " "),
+        ...choices.map((c, i) => `${letter(i)}. ${c.text.replace(/\s*\r?\n\s*/g, " ")}`),
+        `ANSWER: ${correct.join(", ")}`,
+      ].join("\n"),
+    ];
+  });
+  return blocks.join("\n\n") + "\n";
+}
@@ -0,0 +1,136 @@
+import type { Prisma, QuestionType } from "@prisma/client";
+
+// Shapes of answer payloads sent by QuizPaper to /api/quiz/save and /api/quiz/submit,
+// and the Prisma data used to persist them.
+
+export type AnswerInput = {
+  questionId: string;
+  choiceIds?: string[];
+  numericValue?: number | null;
+  textValue?: string | null;
+  orderedChoiceIds?: string[];
+  matches?: MatchInput[];
+};
+
+// One MATCHING pairing: a left-hand choice and the right-hand target picked for it.
+export type MatchInput = {
+  choiceId: string;
+  targetId: string;
+};
+
+// Bounds the work regex answer keys do per response.
+export const MAX_TEXT_ANSWER_LENGTH = 500;
+
+export function parseNumericValue(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function parseTextValue(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, MAX_TEXT_ANSWER_LENGTH) : null;
+}
+
+export function parseIdList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string" && id.length > 0) : [];
+}
+
+// Drops malformed pairs and keeps the last pairing per choice.
+export function parseMatches(value: unknown): MatchInput[] {
+  if (!Array.isArray(value)) return [];
+  const byChoiceId = new Map<string, string>();
+  for (const m of value as Array<Partial<MatchInput> | null>) {
+    if (typeof m?.choiceId === "string" && m.choiceId && typeof m.targetId === "string" && m.targetId) {
+      byChoiceId.set(m.choiceId, m.targetId);
+    }
+  }
+  return [...byChoiceId].map(([choiceId, targetId]) => ({ choiceId, targetId }));
+}
+
+type AnswerableQuestion = {
+  type: QuestionType;
+  choices: Array<{ id: string }>;
+  matchTargets: Array<{ id: string }>;
+};
+
+// Why a submitted answer doesn't fit its question, or null if it does.
+export function answerInputError(q: AnswerableQuestion, a: AnswerInput): string | null {
+  // Ensure submitted choices belong to the question
+  const validChoiceIds = new Set(q.choices.map((c) => c.id));
+  for (const cid of a.choiceIds ?? []) {
+    if (cid && !validChoiceIds.has(cid)) return "Invalid choiceId.";
+  }
+
+  if (a.numericValue != null && (q.type !== "NUMERIC" || parseNumericValue(a.numericValue) === null)) {
+    return "Invalid numericValue.";
+  }
+
+  if (a.textValue != null && (q.type !== "SHORT_TEXT" || typeof a.textValue !== "string")) {
+    return "Invalid textValue.";
+  }
+
+  // An arrangement must use every choice of the question exactly once.
+  if (a.orderedChoiceIds?.length) {
+    const ordered = parseIdList(a.orderedChoiceIds);
+    const isPermutation =
+      q.type === "ORDERING" &&
+      ordered.length === q.choices.length &&
+      new Set(ordered).size === ordered.length &&
+      ordered.every((id) => validChoiceIds.has(id));
+    if (!isPermutation) return "Invalid orderedChoiceIds.";
+  }
+
+  if (a.matches?.length) {
+    const validTargetIds = new Set(q.matchTargets.map((t) => t.id));
+    const matches = parseMatches(a.matches);
+    const isValid =
+      q.type === "MATCHING" &&
+      matches.length === a.matches.length &&
+      matches.every((m) => validChoiceIds.has(m.choiceId) && validTargetIds.has(m.targetId));
+    if (!isValid) return "Invalid matches.";
+  }
+
+  return null;
+}
+
+export function answerCreateData(a: AnswerInput) {
+  return {
+    questionId: a.questionId,
+    choices: { connect: (a.choiceIds ?? []).map((id) => ({ id })) },
+    numericValue: parseNumericValue(a.numericValue),
+    textValue: parseTextValue(a.textValue),
+    orderedChoiceIds: parseIdList(a.orderedChoiceIds),
+    matches: { create: parseMatches(a.matches) },
+  };
+}
+
+export function answerUpdateData(a: AnswerInput) {
+  return {
+    choices: { set: (a.choiceIds ?? []).map((id) => ({ id })) },
+    numericValue: parseNumericValue(a.numericValue),
+    textValue: parseTextValue(a.textValue),
+    orderedChoiceIds: parseIdList(a.orderedChoiceIds),
+    matches: { deleteMany: {}, create: parseMatches(a.matches) },
+  };
+}
+
+// Reads a persisted answer back in payload form, e.g. to grade an attempt from its saved answers.
+export const savedAnswerSelect = {
+  questionId: true,
+  choices: { select: { id: true } },
+  numericValue: true,
+  textValue: true,
+  orderedChoiceIds: true,
+  matches: { select: { choiceId: true, targetId: true } },
+} satisfies Prisma.AnswerSelect;
+
+export function answerInputFromSaved(a: Prisma.AnswerGetPayload<{ select: typeof savedAnswerSelect }>): AnswerInput {
+  return {
+    questionId: a.questionId,
+    choiceIds: a.choices.map((c) => c.id),
+    numericValue: a.numericValue,
+    textValue: a.textValue,
+    orderedChoiceIds: a.orderedChoiceIds,
+    matches: a.matches,
+  };
+}
@@ -0,0 +1,308 @@
+import type { DeliveryMode, FinalScorePolicy, Prisma } from "@prisma/client";
+
+import { adaptiveLength, servedQuestions, unservedQuestionIds } from "@/lib/adaptive";
+import { answerInputFromSaved, savedAnswerSelect } from "@/lib/answers";
+import {
+  gradableQuestionSelect,
+  gradeAttempt,
+  gradeQuestion,
+  roundScore,
+  type GradingSettings,
+} from "@/lib/grading";
+import { lockedQuestionIds, type PagingRules } from "@/lib/paging";
+import { drawQuestionIds, scopeToAttempt, type PoolQuestion } from "@/lib/pools";
+import { scheduleMissedQuestions } from "@/lib/review";
+import {
+  closedSectionIds,
+  paperOrderBy,
+  sectionLockedQuestionIds,
+  sectionRulesSelect,
+  sectionsApply,
+  sectionVisitSelect,
+  versionSections,
+} from "@/lib/sections";
+import { secretSeed } from "@/lib/shuffle";
+import { versionSettingsSelect } from "@/lib/versions";
+
+// Saves and submissions arriving this soon after the deadline still count, to absorb
+// network latency and the client's auto-submit round trip.
+export const DEADLINE_GRACE_MS = 5_000;
+
+// When an attempt must be handed in: its time limit, or the quiz closing if that comes first.
+export function attemptDeadline(
+  startedAt: Date,
+  timeLimitSeconds: number | null,
+  closesAt: Date | null = null
+): Date | null {
+  const timeUp = timeLimitSeconds ? new Date(startedAt.getTime() + timeLimitSeconds * 1000) : null;
+  if (!closesAt) return timeUp;
+  return timeUp && timeUp < closesAt ? timeUp : closesAt;
+}
+
+export function isPastDeadline(deadline: Date | null, now = new Date()) {
+  return deadline !== null && now.getTime() > deadline.getTime() + DEADLINE_GRACE_MS;
+}
+
+// Seed for the shuffled layout of a learner's Nth attempt. It is derived rather than
+// random so the paper shown before the attempt exists (untimed quizzes create it on
+// the first save) is the one it is then stored with, and keyed with the server secret
+// so learners can't work out the draw or layout of their later attempts.
+function attemptShuffleSeed(userId: string, quizId: string, attemptNo: number, isPractice: boolean) {
+  return secretSeed(`${quizId}:${userId}:${isPractice ? "practice:" : ""}${attemptNo}`);
+}
+
+// What a learner's Nth attempt is stored with: its layout seed and question draw.
+// Adaptive attempts start with nothing drawn; questions are added as they're served.
+export function attemptLayout(
+  pool: readonly PoolQuestion[],
+  quiz: { id: string; drawCount: number | null; deliveryMode: DeliveryMode },
+  userId: string,
+  attemptNo: number,
+  isPractice = false
+) {
+  const shuffleSeed = attemptShuffleSeed(userId, quiz.id, attemptNo, isPractice);
+  if (quiz.deliveryMode === "ADAPTIVE") return { shuffleSeed, questionIds: [] };
+  return { shuffleSeed, questionIds: drawQuestionIds(pool, quiz.drawCount, shuffleSeed) };
+}
+
+export const finalizedAttemptSelect = {
+  id: true,
+  score: true,
+  maxScore: true,
+  attemptNo: true,
+} satisfies Prisma.AttemptSelect;
+
+// Grades an IN_PROGRESS attempt from its saved answers and closes it. An adaptive attempt
+// is graded on the questions it served, out of its full length: the ones it never got
+// to count as misses.
+export async function finalizeAttempt(tx: Prisma.TransactionClient, attemptId: string, submittedAt: Date) {
+  const { userId, quiz, version, answers, questionIds, shuffleSeed } = await tx.attempt.findUniqueOrThrow({
+    where: { id: attemptId },
+    select: {
+      userId: true,
+      questionIds: true,
+      shuffleSeed: true,
+      quiz: { select: { revealPolicy: true, isPublished: true, closesAt: true } },
+      // Graded on the version the attempt was taken on, under its settings.
+      version: {
+        select: {
+          ...versionSettingsSelect,
+          questions: { orderBy: paperOrderBy, select: { ...gradableQuestionSelect, difficulty: true } },
+        },
+      },
+      answers: { select: savedAnswerSelect },
+    },
+  });
+
+  const isAdaptive = version.deliveryMode === "ADAPTIVE";
+  const questions = isAdaptive
+    ? servedQuestions(version.questions, questionIds)
+    : scopeToAttempt(version.questions, questionIds);
+  const answersByQuestionId = new Map(answers.map((a) => [a.questionId, answerInputFromSaved(a)] as const));
+  const { score, maxScore: servedMax, results } = gradeAttempt(questions, answersByQuestionId, version);
+
+  const length = adaptiveLength(version.drawCount, version.questions.length);
+  const unserved = isAdaptive
+    ? servedQuestions(
+        version.questions,
+        unservedQuestionIds(version.questions, questionIds, results, length, shuffleSeed ?? attemptId)
+      )
+    : [];
+  const maxScore = roundScore(servedMax + unserved.reduce((sum, q) => sum + q.points, 0));
+  const totalQuestions = questions.length + unserved.length;
+
+  const attempt = await tx.attempt.update({
+    where: { id: attemptId },
+    data: { status: "SUBMITTED", submittedAt, score, maxScore },
+    select: finalizedAttemptSelect,
+  });
+  await scheduleMissedQuestions(tx, userId, quiz, results, submittedAt);
+
+  return { attempt, results, totalQuestions };
+}
+
+// There is no background job: expired attempts are closed lazily, whenever their
+// owner next touches the quiz. Each is submitted as of its deadline.
+export async function finalizeExpiredAttempts(
+  tx: Prisma.TransactionClient,
+  where: { userId: string; quizId: string },
+  now = new Date()
+) {
+  const open = await tx.attempt.findMany({
+    where: {
+      ...where,
+      status: "IN_PROGRESS",
+      isPractice: false,
+      OR: [{ version: { timeLimitSeconds: { not: null } } }, { quiz: { closesAt: { not: null } } }],
+    },
+    select: {
+      id: true,
+      startedAt: true,
+      version: { select: { timeLimitSeconds: true } },
+      quiz: { select: { closesAt: true } },
+    },
+  });
+
+  const finalized = [];
+  for (const a of open) {
+    const deadline = attemptDeadline(a.startedAt, a.version.timeLimitSeconds, a.quiz.closesAt);
+    if (deadline && isPastDeadline(deadline, now)) {
+      finalized.push(await finalizeAttempt(tx, a.id, deadline));
+    }
+  }
+  return finalized;
+}
+
+export const FINAL_SCORE_POLICIES: readonly FinalScorePolicy[] = ["BEST", "LATEST", "AVERAGE", "FIRST"];
+
+export function isFinalScorePolicy(value: unknown): value is FinalScorePolicy {
+  return typeof value === "string" && (FINAL_SCORE_POLICIES as readonly string[]).includes(value);
+}
+
+export const attemptRulesSelect = {
+  id: true,
+  maxAttempts: true,
+  attemptCooldownSeconds: true,
+  finalScorePolicy: true,
+} satisfies Prisma.QuizSelect;
+
+export type AttemptRules = Prisma.QuizGetPayload<{ select: typeof attemptRulesSelect }>;
+
+type ScoredAttempt = { score: number | null; maxScore: number | null };
+
+// The score that counts under the quiz's policy, from attempts in attemptNo order.
+export function finalScore(attempts: ScoredAttempt[], policy: FinalScorePolicy) {
+  const scored = attempts.filter((a): a is { score: number; maxScore: number | null } => a.score !== null);
+  if (scored.length === 0) return { score: null, maxScore: null };
+
+  switch (policy) {
+    case "FIRST":
+      return scored[0];
+    case "LATEST":
+      return scored[scored.length - 1];
+    case "AVERAGE":
+      return {
+        score: roundScore(scored.reduce((sum, a) => sum + a.score, 0) / scored.length),
+        maxScore: scored[scored.length - 1].maxScore,
+      };
+    default:
+      return scored.reduce((best, a) => (a.score > best.score ? a : best));
+  }
+}
+
+// A learner's standing on a quiz: attempts used, whether another may start now, and
+// the score that counts.
+export async function getAttemptSummary(
+  tx: Prisma.TransactionClient,
+  quiz: AttemptRules,
+  userId: string,
+  now = new Date()
+) {
+  const attempts = await tx.attempt.findMany({
+    where: { userId, quizId: quiz.id, isPractice: false },
+    orderBy: { attemptNo: "asc" },
+    select: { attemptNo: true, status: true, submittedAt: true, score: true, maxScore: true },
+  });
+
+  const finished = attempts.filter((a) => a.status !== "IN_PROGRESS");
+  const lastSubmittedAt = finished.reduce<Date | null>(
+    (latest, a) => (a.submittedAt && (!latest || a.submittedAt > latest) ? a.submittedAt : latest),
+    null
+  );
+  const cooldownEndsAt =
+    quiz.attemptCooldownSeconds && lastSubmittedAt
+      ? new Date(lastSubmittedAt.getTime() + quiz.attemptCooldownSeconds * 1000)
+      : null;
+  const { score, maxScore } = finalScore(finished, quiz.finalScorePolicy);
+
+  return {
+    used: attempts.length,
+    maxAttempts: quiz.maxAttempts,
+    remaining: quiz.maxAttempts === null ? null : Math.max(0, quiz.maxAttempts - attempts.length),
+    nextAttemptAt: cooldownEndsAt && cooldownEndsAt > now ? cooldownEndsAt : null,
+    lastAttemptNo: attempts.length ? attempts[attempts.length - 1].attemptNo : 0,
+    finalScorePolicy: quiz.finalScorePolicy,
+    finalScore: score,
+    finalMaxScore: maxScore,
+  };
+}
+
+export type AttemptSummary = Awaited<ReturnType<typeof getAttemptSummary>>;
+
+// Gate for creating a new attempt. Returns the attemptNo to use, or why it's refused.
+export async function checkNewAttempt(tx: Prisma.TransactionClient, quiz: AttemptRules, userId: string, now = new Date()) {
+  const summary = await getAttemptSummary(tx, quiz, userId, now);
+
+  if (summary.remaining === 0) {
+    return {
+      ok: false as const,
+      code: "ATTEMPT_LIMIT_REACHED",
+      message: `You have used all ${summary.maxAttempts} attempts for this quiz.`,
+    };
+  }
+  if (summary.nextAttemptAt) {
+    return {
+      ok: false as const,
+      code: "ATTEMPT_COOLDOWN",
+      message: `You can start another attempt at ${summary.nextAttemptAt.toISOString()}.`,
+    };
+  }
+  return { ok: true as const, attemptNo: summary.lastAttemptNo + 1 };
+}
+
+// Practice attempts skip the limits and cooldown; they only need their own number.
+export async function nextPracticeAttemptNo(tx: Prisma.TransactionClient, quizId: string, userId: string) {
+  const last = await tx.attempt.aggregate({
+    where: { userId, quizId, isPractice: true },
+    _max: { attemptNo: true },
+  });
+  return (last._max.attemptNo ?? 0) + 1;
+}
+
+// Questions whose answers can no longer change: checked in practice, moved past in a
+// forward-only quiz, or outside the section the learner is working in.
+export async function lockedAnswerQuestionIds(
+  tx: Prisma.TransactionClient,
+  questions: readonly { id: string; sectionId: string | null }[],
+  quiz: PagingRules,
+  attempt: { id: string; questionIds: string[]; shuffleSeed: string | null; position: number }
+) {
+  const { isPractice, sectionId, answers, sections, quiz: rules } = await tx.attempt.findUniqueOrThrow({
+    where: { id: attempt.id },
+    select: {
+      isPractice: true,
+      sectionId: true,
+      answers: { where: { checkedAt: { not: null } }, select: { questionId: true } },
+      sections: { select: sectionVisitSelect },
+      quiz: { select: { sections: { select: sectionRulesSelect } } },
+    },
+  });
+
+  const versioned = versionSections(rules.sections, questions);
+  const bySection = !sectionsApply({ deliveryMode: quiz.deliveryMode, sections: versioned }, isPractice)
+    ? []
+    : sectionLockedQuestionIds(
+        questions,
+        sectionId,
+        closedSectionIds(versioned, sections, new Date(), DEADLINE_GRACE_MS)
+      );
+
+  return new Set([
+    ...lockedQuestionIds(questions, quiz, attempt),
+    ...answers.map((a) => a.questionId),
+    ...bySection,
+  ]);
+}
+
+// Feedback for the answers a practice attempt has checked, so a resumed session
+// shows it again.
+export async function checkedAnswerResults(tx: Prisma.TransactionClient, attemptId: string, settings: GradingSettings) {
+  const checked = await tx.answer.findMany({
+    where: { attemptId, checkedAt: { not: null } },
+    select: { ...savedAnswerSelect, question: { select: { ...gradableQuestionSelect, rationale: true } } },
+  });
+  return checked.map((a) => ({
+    ...gradeQuestion(a.question, answerInputFromSaved(a), settings),
+    rationale: a.question.rationale,
+  }));
+}
@@ -0,0 +1,26 @@
+import type { Prisma } from "@prisma/client";
+
+export const availabilitySelect = { opensAt: true, closesAt: true } satisfies Prisma.QuizSelect;
+
+export type QuizWindow = Prisma.QuizGetPayload<{ select: typeof availabilitySelect }>;
+
+// Whether learners can work on the quiz right now. graceMs keeps the door open a moment
+// past closing, for a hand-in sent as the quiz closed.
+export function checkQuizWindow(quiz: QuizWindow, now = new Date(), graceMs = 0) {
+  if (quiz.opensAt && now.getTime() < quiz.opensAt.getTime()) {
+    return { ok: false as const, code: "QUIZ_NOT_OPEN", message: "This quiz isn't open yet." };
+  }
+  if (quiz.closesAt && now.getTime() > quiz.closesAt.getTime() + graceMs) {
+    return { ok: false as const, code: "QUIZ_CLOSED", message: "This quiz has closed." };
+  }
+  return { ok: true as const };
+}
+
+// Admin input: an ISO 8601 timestamp with its offset (or Z), or null to clear. Returns
+// undefined when the value can't be read.
+export function parseWindowTimestamp(value: unknown): Date | null | undefined {
+  if (value === null) return null;
+  if (typeof value !== "string" || !/(Z|[+-]\d{2}:\d{2})$/i.test(value)) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
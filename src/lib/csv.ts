@@ -0,0 +1,65 @@
+// RFC 4180 CSV: comma-separated, fields optionally wrapped in double quotes, with ""
+// for a quote inside a quoted field. Quoted fields may span lines.
+
+export type CsvRecord = {
+  fields: string[];
+  // 1-based line the record starts on, for error messages.
+  line: number;
+};
+
+export function parseCsv(text: string) {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Blank lines are skipped.
+    if (fields.length > 1 || fields[0] !== "") records.push({ fields, line: recordLine });
+    fields = [];
+    field = "";
+    recordLine = line;
+  };
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      line++;
+      endRecord();
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) return { ok: false as const, line: recordLine, message: "Unclosed quoted field." };
+  if (field !== "" || fields.length) endRecord();
+
+  return { ok: true as const, records };
+}
+
+function escapeField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCsv(rows: readonly (readonly string[])[]) {
+  return rows.map((row) => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+}
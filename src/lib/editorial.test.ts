@@ -0,0 +1,115 @@
+import type { EditorialStatus, Prisma, QuizActivityType } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { applyReviewAction, checkDraftEditable, publishApproved, reopenDraft } from "@/lib/editorial";
+import { publishDraft } from "@/lib/versions";
+
+vi.mock("@/lib/versions", () => ({ publishDraft: vi.fn(async () => 2) }));
+
+type Activity = { quizId: string; actorId: string; type: QuizActivityType; note: string | null };
+
+// One quiz and its timeline, behind the calls the review steps make.
+function fakeTx(editorialStatus: EditorialStatus, activity: Activity[] = []) {
+  const quiz = { editorialStatus };
+  const tx = {
+    quiz: {
+      findUnique: async () => ({ ...quiz }),
+      findUniqueOrThrow: async () => ({ ...quiz }),
+      update: async ({ data }: { data: Partial<typeof quiz> }) => Object.assign(quiz, data),
+      updateMany: async ({ where, data }: { where: Partial<typeof quiz>; data: Partial<typeof quiz> }) => {
+        if (!where.editorialStatus || where.editorialStatus === quiz.editorialStatus) Object.assign(quiz, data);
+      },
+    },
+    quizActivity: {
+      findFirst: async ({ where }: { where: { type: QuizActivityType } }) =>
+        activity.filter((a) => a.type === where.type).at(-1) ?? null,
+      create: async ({ data }: { data: Activity }) => activity.push(data),
+    },
+  };
+  return { tx: tx as unknown as Prisma.TransactionClient, quiz, activity };
+}
+
+const submitted = (actorId: string): Activity => ({ quizId: "quiz", actorId, type: "SUBMITTED", note: null });
+
+beforeEach(() => {
+  vi.mocked(publishDraft).mockClear();
+});
+
+describe("applyReviewAction", () => {
+  it("submits a draft for review", async () => {
+    const { tx, quiz, activity } = fakeTx("DRAFT");
+    expect(await applyReviewAction(tx, "quiz", "author", "SUBMIT", "Ready")).toEqual({ ok: true, status: "IN_REVIEW" });
+    expect(quiz.editorialStatus).toBe("IN_REVIEW");
+    expect(activity).toEqual([{ quizId: "quiz", actorId: "author", type: "SUBMITTED", note: "Ready" }]);
+  });
+
+  it("turns down a step the quiz isn't ready for, without recording it", async () => {
+    const { tx, quiz, activity } = fakeTx("APPROVED");
+    const result = await applyReviewAction(tx, "quiz", "author", "SUBMIT", null);
+    expect(result).toMatchObject({ ok: false, code: "INVALID_REVIEW_STEP" });
+    expect(quiz.editorialStatus).toBe("APPROVED");
+    expect(activity).toEqual([]);
+  });
+
+  it("needs someone other than the author to approve", async () => {
+    const { tx, quiz } = fakeTx("IN_REVIEW", [submitted("author")]);
+    expect(await applyReviewAction(tx, "quiz", "author", "APPROVE", null)).toMatchObject({
+      ok: false,
+      code: "SELF_APPROVAL",
+    });
+    expect(quiz.editorialStatus).toBe("IN_REVIEW");
+
+    expect(await applyReviewAction(tx, "quiz", "reviewer", "APPROVE", null)).toEqual({ ok: true, status: "APPROVED" });
+  });
+
+  it("sends a quiz in review or approved back to draft", async () => {
+    for (const status of ["IN_REVIEW", "APPROVED"] as const) {
+      const { tx, quiz, activity } = fakeTx(status);
+      await applyReviewAction(tx, "quiz", "reviewer", "REQUEST_CHANGES", "Fix question 3");
+      expect(quiz.editorialStatus).toBe("DRAFT");
+      expect(activity.at(-1)?.type).toBe("CHANGES_REQUESTED");
+    }
+    const { tx } = fakeTx("DRAFT");
+    expect(await applyReviewAction(tx, "quiz", "reviewer", "REQUEST_CHANGES", null)).toMatchObject({ ok: false });
+  });
+});
+
+describe("publishApproved", () => {
+  it("publishes an approved draft and closes the round", async () => {
+    const { tx, quiz, activity } = fakeTx("APPROVED");
+    expect(await publishApproved(tx, "quiz", "reviewer")).toEqual({ ok: true, number: 2 });
+    expect(publishDraft).toHaveBeenCalledWith(tx, "quiz");
+    expect(quiz.editorialStatus).toBe("PUBLISHED");
+    expect(activity).toEqual([{ quizId: "quiz", actorId: "reviewer", type: "PUBLISHED", note: "Version 2" }]);
+  });
+
+  it("publishes nothing that hasn't been approved", async () => {
+    for (const status of ["DRAFT", "IN_REVIEW", "PUBLISHED"] as const) {
+      const { tx, quiz } = fakeTx(status);
+      expect(await publishApproved(tx, "quiz", "reviewer")).toMatchObject({ ok: false, code: "NOT_APPROVED" });
+      expect(quiz.editorialStatus).toBe(status);
+    }
+    expect(publishDraft).not.toHaveBeenCalled();
+  });
+});
+
+describe("editing the draft", () => {
+  it("is locked while in review or approved", async () => {
+    for (const status of ["IN_REVIEW", "APPROVED"] as const) {
+      expect(await checkDraftEditable(fakeTx(status).tx, "quiz")).toMatchObject({ ok: false, code: "QUIZ_IN_REVIEW" });
+    }
+    for (const status of ["DRAFT", "PUBLISHED"] as const) {
+      expect(await checkDraftEditable(fakeTx(status).tx, "quiz")).toEqual({ ok: true });
+    }
+  });
+
+  it("starts the next round once the quiz is published", async () => {
+    const published = fakeTx("PUBLISHED");
+    await reopenDraft(published.tx, "quiz");
+    expect(published.quiz.editorialStatus).toBe("DRAFT");
+
+    const draft = fakeTx("DRAFT");
+    await reopenDraft(draft.tx, "quiz");
+    expect(draft.quiz.editorialStatus).toBe("DRAFT");
+  });
+});
@@ -0,0 +1,114 @@
+import type { EditorialStatus, Prisma, QuizActivityType } from "@prisma/client";
+
+import { publishDraft } from "@/lib/versions";
+
+// Editorial review: an author submits the draft, a reviewer approves it or requests
+// changes, and only an approved draft is published as a new version.
+
+export const REVIEW_ACTIONS = ["SUBMIT", "REQUEST_CHANGES", "APPROVE"] as const;
+
+export type ReviewAction = (typeof REVIEW_ACTIONS)[number];
+
+export function isReviewAction(value: unknown): value is ReviewAction {
+  return typeof value === "string" && (REVIEW_ACTIONS as readonly string[]).includes(value);
+}
+
+export const MAX_NOTE_LENGTH = 2000;
+
+// Timeline entries quote this much of a comment.
+const EXCERPT_LENGTH = 140;
+
+export function excerpt(text: string) {
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+}
+
+export function logActivity(
+  tx: Prisma.TransactionClient,
+  quizId: string,
+  actorId: string,
+  type: QuizActivityType,
+  note: string | null = null
+) {
+  return tx.quizActivity.create({ data: { quizId, actorId, type, note } });
+}
+
+const REVIEW_STEPS: Record<
+  ReviewAction,
+  { from: readonly EditorialStatus[]; to: EditorialStatus; type: QuizActivityType; invalid: string }
+> = {
+  SUBMIT: { from: ["DRAFT"], to: "IN_REVIEW", type: "SUBMITTED", invalid: "Only a draft can be submitted for review." },
+  // An approval can be withdrawn until the quiz is published.
+  REQUEST_CHANGES: {
+    from: ["IN_REVIEW", "APPROVED"],
+    to: "DRAFT",
+    type: "CHANGES_REQUESTED",
+    invalid: "This quiz is not in review.",
+  },
+  APPROVE: { from: ["IN_REVIEW"], to: "APPROVED", type: "APPROVED", invalid: "This quiz is not in review." },
+};
+
+// Moves the quiz through review and records the step on its timeline. Approval has to
+// come from someone other than whoever submitted the draft.
+export async function applyReviewAction(
+  tx: Prisma.TransactionClient,
+  quizId: string,
+  actorId: string,
+  action: ReviewAction,
+  note: string | null
+) {
+  const quiz = await tx.quiz.findUniqueOrThrow({ where: { id: quizId }, select: { editorialStatus: true } });
+  const step = REVIEW_STEPS[action];
+  if (!step.from.includes(quiz.editorialStatus)) {
+    return { ok: false as const, code: "INVALID_REVIEW_STEP", message: step.invalid };
+  }
+  if (action === "APPROVE") {
+    const submitted = await tx.quizActivity.findFirst({
+      where: { quizId, type: "SUBMITTED" },
+      orderBy: { createdAt: "desc" },
+      select: { actorId: true },
+    });
+    if (submitted?.actorId === actorId) {
+      return { ok: false as const, code: "SELF_APPROVAL", message: "Someone other than the author has to approve it." };
+    }
+  }
+
+  await tx.quiz.update({ where: { id: quizId }, data: { editorialStatus: step.to } });
+  await logActivity(tx, quizId, actorId, step.type, note);
+  return { ok: true as const, status: step.to };
+}
+
+// Publishes the approved draft as the next version and closes the review round.
+export async function publishApproved(tx: Prisma.TransactionClient, quizId: string, actorId: string) {
+  const quiz = await tx.quiz.findUniqueOrThrow({ where: { id: quizId }, select: { editorialStatus: true } });
+  if (quiz.editorialStatus !== "APPROVED") {
+    return { ok: false as const, code: "NOT_APPROVED", message: "Only an approved quiz can be published." };
+  }
+
+  const number = await publishDraft(tx, quizId);
+  await tx.quiz.update({ where: { id: quizId }, data: { editorialStatus: "PUBLISHED" } });
+  await logActivity(tx, quizId, actorId, "PUBLISHED", `Version ${number}`);
+  return { ok: true as const, number };
+}
+
+// The draft, with the quiz's sections and settings, is frozen while in review or
+// approved. Only reads: callers that go on to edit questions call reopenDraft in the
+// transaction that writes.
+export async function checkDraftEditable(db: Prisma.TransactionClient, quizId: string) {
+  const quiz = await db.quiz.findUnique({ where: { id: quizId }, select: { editorialStatus: true } });
+  if (quiz?.editorialStatus === "IN_REVIEW" || quiz?.editorialStatus === "APPROVED") {
+    return {
+      ok: false as const,
+      code: "QUIZ_IN_REVIEW",
+      message:
+        quiz.editorialStatus === "IN_REVIEW"
+          ? "This quiz is in review; it can't change until changes are requested."
+          : "This quiz has been approved; request changes before editing it.",
+    };
+  }
+  return { ok: true as const };
+}
+
+// Editing a published quiz's draft starts the next review round.
+export async function reopenDraft(tx: Prisma.TransactionClient, quizId: string) {
+  await tx.quiz.updateMany({ where: { id: quizId, editorialStatus: "PUBLISHED" }, data: { editorialStatus: "DRAFT" } });
+}
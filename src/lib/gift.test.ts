@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { parseGift, serializeGift } from "@/lib/gift";
+import type { ImportDraft } from "@/lib/questionImport";
+
+const drafts: ImportDraft[] = [
+  {
+    type: "SINGLE_CHOICE",
+    prompt: "What is 2 + 2? {Don't overthink it: = is fine}",
+    rationale: "Basic sums.\nSecond line.",
+    choices: [
+      { text: "4", isCorrect: true },
+      { text: "5 ~ 6", isCorrect: false },
+    ],
+  },
+  {
+    type: "MULTIPLE_CHOICE",
+    prompt: "Pick the primes.",
+    choices: [
+      { text: "2", isCorrect: true },
+      { text: "3", isCorrect: true },
+      { text: "4", isCorrect: false },
+    ],
+  },
+  {
+    type: "SHORT_TEXT",
+    prompt: "Capital of France?",
+    acceptedAnswers: [
+      { text: "Paris", isRegex: false },
+      { text: "paris#fr", isRegex: false },
+    ],
+  },
+];
+
+// The parts of a question GIFT carries.
+function carried(d: ImportDraft) {
+  return {
+    type: d.type,
+    prompt: d.prompt,
+    rationale: d.rationale ?? null,
+    choices: (d.choices ?? []).map((c) => ({ text: c.text, isCorrect: Boolean(c.isCorrect) })),
+    acceptedAnswers: (d.acceptedAnswers ?? []).map((a) => ({ text: a.text, isRegex: Boolean(a.isRegex) })),
+  };
+}
+
+describe("GIFT round trip", () => {
+  it("reads back choice and short-answer questions as written", () => {
+    const parsed = parseGift(serializeGift(drafts));
+    if (!parsed.ok) throw new Error(parsed.message);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.rows.map((r) => carried(r.draft))).toEqual(drafts.map(carried));
+  });
+
+  it("lists questions without a GIFT form as comments", () => {
+    const ordering: ImportDraft = { type: "ORDERING", prompt: "Smallest first.", choices: [{ text: "1" }] };
+    const gift = serializeGift([ordering, drafts[0]]);
+
+    expect(gift).toContain("// Not exported (ORDERING has no GIFT form): Smallest first.");
+    const parsed = parseGift(gift);
+    expect(parsed.ok && parsed.rows.map((r) => r.draft.prompt)).toEqual([drafts[0].prompt]);
+  });
+
+  it("leaves regex answers out", () => {
+    const regex: ImportDraft = {
+      type: "SHORT_TEXT",
+      prompt: "Any colour?",
+      acceptedAnswers: [{ text: "red|blue", isRegex: true }],
+    };
+    expect(serializeGift([regex])).toContain("// Not exported");
+  });
+});
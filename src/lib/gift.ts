@@ -0,0 +1,216 @@
+import type { ImportDraft, ImportRow, ParsedImport, RowError } from "@/lib/questionImport";
+
+// Moodle GIFT. Supported: multiple choice (= and ~ answers, %weight% for several
+// correct answers), true/false and short answer. Comment lines directly above a question
+// and its feedback become the rationale. Titles and [format] markers are dropped.
+
+// Index of the first unescaped occurrence of token at or after from, or -1.
+function findUnescaped(text: string, token: string, from = 0) {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text.startsWith(token, i)) return i;
+  }
+  return -1;
+}
+
+function unescape(text: string) {
+  return text.replace(/\\(.)/g, (_, ch: string) => (ch === "n" ? "\n" : ch)).trim();
+}
+
+function escape(text: string) {
+  return text.replace(/[\\~=#{}:]/g, (ch) => `\\${ch}`).replace(/\r?\n/g, "\\n");
+}
+
+type Block = { line: number; comments: string[]; text: string };
+
+// Questions are separated by blank lines, except inside an answer block.
+function splitBlocks(content: string) {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let depth = 0;
+
+  for (const [idx, raw] of content.split(/\r?\n/).entries()) {
+    const line = raw.trim();
+    if (!line && depth === 0) {
+      if (current?.text) blocks.push(current);
+      current = null;
+      continue;
+    }
+    if (line.startsWith("//") && depth === 0) {
+      current ??= { line: idx + 1, comments: [], text: "" };
+      current.comments.push(line.slice(2).trim());
+      continue;
+    }
+    // Category switches only matter to Moodle's question bank.
+    if (line.startsWith("$CATEGORY:") && depth === 0) continue;
+
+    current ??= { line: idx + 1, comments: [], text: "" };
+    if (!current.text) current.line = idx + 1;
+    current.text += (current.text ? "\n" : "") + raw;
+    for (let i = 0; i < raw.length; i++) {
+      if (raw[i] === "\\") i++;
+      else if (raw[i] === "{") depth++;
+      else if (raw[i] === "}") depth = Math.max(0, depth - 1);
+    }
+  }
+  if (current?.text) blocks.push(current);
+  return blocks;
+}
+
+type Answer = { marker: "=" | "~"; weight: number | null; text: string; feedback: string | null };
+
+function parseAnswers(body: string) {
+  const answers: Answer[] = [];
+  const starts: number[] = [];
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "\\") i++;
+    else if (body[i] === "=" || body[i] === "~") starts.push(i);
+  }
+  if (!starts.length || body.slice(0, starts[0]).trim()) return null;
+
+  for (const [n, start] of starts.entries()) {
+    let text = body.slice(start + 1, starts[n + 1] ?? body.length);
+    let weight: number | null = null;
+    const weighted = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(text);
+    if (weighted) {
+      weight = Number(weighted[1]);
+      text = text.slice(weighted[0].length);
+    }
+    const hash = findUnescaped(text, "#");
+    const feedback = hash >= 0 ? unescape(text.slice(hash + 1)) : null;
+    answers.push({
+      marker: body[start] as Answer["marker"],
+      weight,
+      text: unescape(hash >= 0 ? text.slice(0, hash) : text),
+      feedback: feedback || null,
+    });
+  }
+  return answers;
+}
+
+type BlockResult = { ok: true; draft: ImportDraft } | { ok: false; message: string };
+
+function parseBlock(block: Block): BlockResult {
+  let text = block.text.trim();
+  const invalid = (message: string) => ({ ok: false as const, message });
+
+  if (text.startsWith("::")) {
+    const end = findUnescaped(text, "::", 2);
+    if (end < 0) return invalid("The title is missing its closing ::.");
+    text = text.slice(end + 2).trim();
+  }
+  text = text.replace(/^\[(html|moodle|plain|markdown)\]/i, "");
+
+  const open = findUnescaped(text, "{");
+  if (open < 0) return invalid("Expected answers in { }.");
+  const close = findUnescaped(text, "}", open + 1);
+  if (close < 0) return invalid("The answer block is missing its closing }.");
+
+  const before = unescape(text.slice(0, open));
+  const after = unescape(text.slice(close + 1));
+  // Missing-word questions put the blank where the answers were.
+  const prompt = after ? `${before} _____ ${after}` : before;
+
+  let body = text.slice(open + 1, close);
+  const generalAt = findUnescaped(body, "####");
+  const general = generalAt >= 0 ? unescape(body.slice(generalAt + 4)) : "";
+  if (generalAt >= 0) body = body.slice(0, generalAt);
+  body = body.trim();
+
+  const rationale = (feedback: string[]) =>
+    [...block.comments, general, ...feedback].filter(Boolean).join("\n") || null;
+
+  const trueFalse = /^(T|F|TRUE|FALSE)\s*(?:#([\s\S]*))?$/i.exec(body);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith("T");
+    return {
+      ok: true,
+      draft: {
+        type: "SINGLE_CHOICE",
+        prompt,
+        rationale: rationale((trueFalse[2] ?? "").split(/(?<!\\)#/).map(unescape)),
+        choices: [
+          { text: "True", isCorrect: isTrue, order: 0 },
+          { text: "False", isCorrect: !isTrue, order: 1 },
+        ],
+      },
+    };
+  }
+  if (!body) return invalid("Essay questions are not supported.");
+  if (body.startsWith("#")) return invalid("Numerical questions are not supported.");
+
+  const answers = parseAnswers(body);
+  if (!answers) return invalid("Each answer must start with = or ~.");
+  if (answers.some((a) => a.marker === "=" && findUnescaped(a.text, "->") >= 0)) {
+    return invalid("Matching questions are not supported.");
+  }
+
+  const isCorrect = (a: Answer) => a.marker === "=" || (a.weight ?? 0) > 0;
+  const feedback = answers.flatMap((a) => (a.feedback ? [`${a.text}: ${a.feedback}`] : []));
+
+  // Only = answers, without wrong options: short answer.
+  if (answers.every((a) => a.marker === "=")) {
+    return {
+      ok: true,
+      draft: {
+        type: "SHORT_TEXT",
+        prompt,
+        rationale: rationale(feedback),
+        acceptedAnswers: answers.map((a) => ({ text: a.text, isRegex: false })),
+      },
+    };
+  }
+
+  const correctCount = answers.filter(isCorrect).length;
+  return {
+    ok: true,
+    draft: {
+      type: correctCount > 1 ? "MULTIPLE_CHOICE" : "SINGLE_CHOICE",
+      prompt,
+      rationale: rationale(feedback),
+      choices: answers.map((a, order) => ({ text: a.text, isCorrect: isCorrect(a), order })),
+    },
+  };
+}
+
+export function parseGift(content: string): ParsedImport {
+  const rows: ImportRow[] = [];
+  const errors: RowError[] = [];
+  splitBlocks(content).forEach((block, idx) => {
+    const parsed = parseBlock(block);
+    if (parsed.ok) rows.push({ row: idx + 1, line: block.line, draft: parsed.draft });
+    else errors.push({ row: idx + 1, line: block.line, message: parsed.message });
+  });
+  return { ok: true, rows, errors, sections: [] };
+}
+
+// Choice and short-answer questions as GIFT, with the rationale as comments above each.
+// Other types have no GIFT form and are listed as comments instead.
+export function serializeGift(drafts: readonly ImportDraft[]) {
+  const blocks = drafts.map((d) => {
+    const comments = (d.rationale ?? "")
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line) => `// ${line}`);
+
+    let answers: string[];
+    if (d.type === "SHORT_TEXT" && (d.acceptedAnswers ?? []).every((a) => !a.isRegex)) {
+      answers = (d.acceptedAnswers ?? []).map((a) => `=${escape(a.text)}`);
+    } else if (d.type === "SINGLE_CHOICE" || d.type === "MULTIPLE_CHOICE" || d.type === undefined) {
+      const choices = d.choices ?? [];
+      const correctCount = choices.filter((c) => c.isCorrect).length;
+      // Several correct answers share the credit.
+      const weight = Number((100 / Math.max(correctCount, 1)).toFixed(5));
+      answers = choices.map((c) =>
+        correctCount > 1
+          ? `~${c.isCorrect ? `%${weight}%` : "%-100%"}${escape(c.text)}`
+          : `${c.isCorrect ? "=" : "~"}${escape(c.text)}`
+      );
+    } else {
+      return `// Not exported (${d.type} has no GIFT form): ${d.prompt.replace(/\r?\n/g, " ")}`;
+    }
+
+    return [...comments, `${escape(d.prompt)} {`, ...answers.map((a) => `  ${a}`), "}"].join("\n");
+  });
+  return blocks.join("\n\n") + "\n";
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+
+import { gradeAttempt, gradeQuestion, type GradableQuestion, type GradingSettings } from "@/lib/grading";
+
+const allOrNothing: GradingSettings = { scoringPolicy: "ALL_OR_NOTHING", wrongAnswerPenalty: 0 };
+
+function question(overrides: Partial<GradableQuestion>): GradableQuestion {
+  return {
+    id: "q1",
+    type: "MULTIPLE_CHOICE",
+    scoringPolicy: null,
+    points: 1,
+    choices: [],
+    numericMode: null,
+    numericAnswer: null,
+    numericTolerance: null,
+    numericMin: null,
+    numericMax: null,
+    acceptedAnswers: [],
+    matchTargets: [],
+    ...overrides,
+  };
+}
+
+// a and b are correct, c and d are not.
+const multiple = question({
+  points: 2,
+  choices: [
+    { id: "a", isCorrect: true, order: 0, matchTargetId: null },
+    { id: "b", isCorrect: true, order: 1, matchTargetId: null },
+    { id: "c", isCorrect: false, order: 2, matchTargetId: null },
+    { id: "d", isCorrect: false, order: 3, matchTargetId: null },
+  ],
+});
+
+describe("multiple choice policies", () => {
+  const answer = { questionId: "q1", choiceIds: ["a", "c"] };
+
+  it("gives nothing for a partly right answer under ALL_OR_NOTHING", () => {
+    const result = gradeQuestion(multiple, answer, allOrNothing);
+    expect(result).toMatchObject({ policy: "ALL_OR_NOTHING", correct: false, credit: 0 });
+  });
+
+  it("dilutes PROPORTIONAL credit with wrong picks", () => {
+    const result = gradeQuestion(multiple, answer, { scoringPolicy: "PROPORTIONAL", wrongAnswerPenalty: 0 });
+    // One hit over two keys plus one miss.
+    expect(result).toMatchObject({ correct: false, credit: 0.33, points: 0.67 });
+  });
+
+  it("cancels a right pick with a wrong one under RIGHT_MINUS_WRONG", () => {
+    const settings: GradingSettings = { scoringPolicy: "RIGHT_MINUS_WRONG", wrongAnswerPenalty: 0 };
+    expect(gradeQuestion(multiple, answer, settings).credit).toBe(0);
+    expect(gradeQuestion(multiple, { questionId: "q1", choiceIds: ["a"] }, settings).credit).toBe(0.5);
+  });
+
+  it("lets the question's own policy override the quiz's", () => {
+    const result = gradeQuestion({ ...multiple, scoringPolicy: "PROPORTIONAL" }, answer, allOrNothing);
+    expect(result.policy).toBe("PROPORTIONAL");
+    expect(result.credit).toBe(0.33);
+  });
+
+  it("gives full credit for the exact key", () => {
+    const result = gradeQuestion(multiple, { questionId: "q1", choiceIds: ["b", "a"] }, allOrNothing);
+    expect(result).toMatchObject({ correct: true, credit: 1, points: 2, maxPoints: 2 });
+  });
+});
+
+describe("wrong answer penalty", () => {
+  const settings: GradingSettings = { scoringPolicy: "ALL_OR_NOTHING", wrongAnswerPenalty: 0.25 };
+
+  it("takes a share of the points for an answer that earned nothing", () => {
+    expect(gradeQuestion(multiple, { questionId: "q1", choiceIds: ["c"] }, settings).points).toBe(-0.5);
+  });
+
+  it("leaves blank answers alone", () => {
+    expect(gradeQuestion(multiple, undefined, settings).points).toBe(0);
+  });
+
+  it("leaves answers with partial credit alone", () => {
+    const partial = { scoringPolicy: "PROPORTIONAL", wrongAnswerPenalty: 0.25 } satisfies GradingSettings;
+    expect(gradeQuestion(multiple, { questionId: "q1", choiceIds: ["a"] }, partial).points).toBe(1);
+  });
+});
+
+describe("ordering", () => {
+  const ordering = question({
+    type: "ORDERING",
+    choices: ["a", "b", "c"].map((id, order) => ({ id, isCorrect: false, order, matchTargetId: null })),
+  });
+  // Of the three pairs, (a, b) and (a, c) keep the key's order; (b, c) doesn't.
+  const answer = { questionId: "q1", orderedChoiceIds: ["a", "c", "b"] };
+
+  it("needs the exact sequence under ALL_OR_NOTHING", () => {
+    expect(gradeQuestion(ordering, answer, allOrNothing).credit).toBe(0);
+  });
+
+  it("scores pairs kept in order otherwise", () => {
+    expect(gradeQuestion(ordering, answer, { scoringPolicy: "PROPORTIONAL", wrongAnswerPenalty: 0 }).credit).toBe(0.67);
+    expect(gradeQuestion(ordering, answer, { scoringPolicy: "RIGHT_MINUS_WRONG", wrongAnswerPenalty: 0 }).credit).toBe(
+      0.33
+    );
+  });
+});
+
+describe("matching", () => {
+  const matching = question({
+    type: "MATCHING",
+    choices: [
+      { id: "a", isCorrect: false, order: 0, matchTargetId: "x" },
+      { id: "b", isCorrect: false, order: 1, matchTargetId: "y" },
+    ],
+    matchTargets: [{ id: "x" }, { id: "y" }],
+  });
+  const answer = { questionId: "q1", matches: [{ choiceId: "a", targetId: "x" }] };
+
+  it("scores pairs proportionally unless the question says otherwise", () => {
+    const result = gradeQuestion(matching, answer, allOrNothing);
+    expect(result).toMatchObject({ policy: "PROPORTIONAL", credit: 0.5, matchedPairs: { correct: 1, total: 2 } });
+  });
+});
+
+describe("numeric and short text", () => {
+  it("accepts values within a relative tolerance", () => {
+    const numeric = question({ type: "NUMERIC", numericMode: "RELATIVE", numericAnswer: 200, numericTolerance: 0.05 });
+    expect(gradeQuestion(numeric, { questionId: "q1", numericValue: 209 }, allOrNothing).correct).toBe(true);
+    expect(gradeQuestion(numeric, { questionId: "q1", numericValue: 211 }, allOrNothing).correct).toBe(false);
+  });
+
+  it("ignores case and punctuation in literal answers", () => {
+    const text = question({ type: "SHORT_TEXT", acceptedAnswers: [{ id: "t", text: "New York", isRegex: false }] });
+    const result = gradeQuestion(text, { questionId: "q1", textValue: "  new-york! " }, allOrNothing);
+    expect(result).toMatchObject({ correct: true, matchedAnswer: { id: "t", text: "New York" } });
+  });
+});
+
+describe("gradeAttempt", () => {
+  it("counts unanswered questions towards the maximum", () => {
+    const second = { ...multiple, id: "q2" };
+    const answers = new Map([["q1", { questionId: "q1", choiceIds: ["a", "b"] }]]);
+    const grade = gradeAttempt([multiple, second], answers, allOrNothing);
+    expect(grade.score).toBe(2);
+    expect(grade.maxScore).toBe(4);
+    expect(grade.results.map((r) => r.questionId)).toEqual(["q1", "q2"]);
+  });
+});
@@ -0,0 +1,301 @@
+import type { NumericMode, Prisma, QuestionType, ScoringPolicy } from "@prisma/client";
+
+import { parseMatches, parseTextValue, type AnswerInput } from "@/lib/answers";
+
+export const SCORING_POLICIES: readonly ScoringPolicy[] = ["ALL_OR_NOTHING", "PROPORTIONAL", "RIGHT_MINUS_WRONG"];
+
+export function isScoringPolicy(value: unknown): value is ScoringPolicy {
+  return typeof value === "string" && (SCORING_POLICIES as readonly string[]).includes(value);
+}
+
+export type GradableQuestion = {
+  id: string;
+  type: QuestionType;
+  scoringPolicy: ScoringPolicy | null;
+  points: number;
+  choices: Array<{ id: string; isCorrect: boolean; order: number; matchTargetId: string | null }>;
+  numericMode: NumericMode | null;
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  numericMin: number | null;
+  numericMax: number | null;
+  acceptedAnswers: Array<{ id: string; text: string; isRegex: boolean }>;
+  matchTargets: Array<{ id: string }>;
+};
+
+// Everything gradeQuestion needs; spread into question queries that feed the grader.
+export const gradableQuestionSelect = {
+  id: true,
+  type: true,
+  scoringPolicy: true,
+  points: true,
+  choices: { select: { id: true, isCorrect: true, order: true, matchTargetId: true } },
+  numericMode: true,
+  numericAnswer: true,
+  numericTolerance: true,
+  numericMin: true,
+  numericMax: true,
+  acceptedAnswers: { orderBy: { order: "asc" }, select: { id: true, text: true, isRegex: true } },
+  matchTargets: { select: { id: true } },
+} satisfies Prisma.QuestionSelect;
+
+export type GradingSettings = {
+  scoringPolicy: ScoringPolicy;
+  wrongAnswerPenalty: number;
+};
+
+export type QuestionResult = {
+  questionId: string;
+  policy: ScoringPolicy;
+  correct: boolean;
+  // Fraction of the question's credit earned, 0..1.
+  credit: number;
+  // Points earned after weighting and penalties; negative when a wrong answer is penalized.
+  points: number;
+  maxPoints: number;
+  // SHORT_TEXT only: the accepted answer the response matched.
+  matchedAnswer?: { id: string; text: string } | null;
+  // MATCHING only: how many left-hand items were paired correctly.
+  matchedPairs?: { correct: number; total: number };
+};
+
+export type AttemptGrade = {
+  score: number;
+  maxScore: number;
+  results: QuestionResult[];
+};
+
+export function roundScore(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+type Credit = {
+  answered: boolean;
+  correct: boolean;
+  credit: number;
+  matchedAnswer?: { id: string; text: string } | null;
+  matchedPairs?: { correct: number; total: number };
+};
+
+function gradeChoices(question: GradableQuestion, answer: AnswerInput | undefined, policy: ScoringPolicy): Credit {
+  const submitted = new Set((answer?.choiceIds ?? []).filter(Boolean));
+  const correct = new Set(question.choices.filter((c) => c.isCorrect).map((c) => c.id));
+
+  let hits = 0;
+  let misses = 0;
+  for (const cid of submitted) {
+    if (correct.has(cid)) hits += 1;
+    else misses += 1;
+  }
+
+  const isCorrect = (() => {
+    if (question.type === "SINGLE_CHOICE") {
+      return submitted.size === 1 && hits === 1 && correct.size === 1;
+    }
+
+    // MULTIPLE_CHOICE
+    return misses === 0 && hits === correct.size;
+  })();
+
+  const credit = (() => {
+    if (isCorrect) return 1;
+    if (question.type === "SINGLE_CHOICE" || correct.size === 0) return 0;
+
+    switch (policy) {
+      case "PROPORTIONAL":
+        // Overlap between the selection and the key, so over-selecting dilutes credit.
+        return hits / (correct.size + misses);
+      case "RIGHT_MINUS_WRONG":
+        return Math.max(0, (hits - misses) / correct.size);
+      default:
+        return 0;
+    }
+  })();
+
+  return { answered: submitted.size > 0, correct: isCorrect, credit };
+}
+
+function isNumericMatch(question: GradableQuestion, value: number) {
+  const expected = question.numericAnswer;
+
+  switch (question.numericMode) {
+    case "RANGE":
+      if (question.numericMin == null || question.numericMax == null) return false;
+      return value >= question.numericMin && value <= question.numericMax;
+    case "ABSOLUTE":
+      if (expected == null) return false;
+      return Math.abs(value - expected) <= (question.numericTolerance ?? 0);
+    case "RELATIVE":
+      if (expected == null) return false;
+      return Math.abs(value - expected) <= (question.numericTolerance ?? 0) * Math.abs(expected);
+    case "EXACT":
+      if (expected == null) return false;
+      // Absorb binary floating-point noise such as 0.1 + 0.2.
+      return Math.abs(value - expected) <= 1e-9 * Math.max(1, Math.abs(expected));
+    default:
+      return false;
+  }
+}
+
+function gradeNumeric(question: GradableQuestion, answer: AnswerInput | undefined): Credit {
+  const value = answer?.numericValue;
+  if (value == null || !Number.isFinite(value)) return { answered: false, correct: false, credit: 0 };
+
+  const correct = isNumericMatch(question, value);
+  return { answered: true, correct, credit: correct ? 1 : 0 };
+}
+
+// Case-, whitespace- and punctuation-insensitive form used for literal SHORT_TEXT answers.
+export function normalizeTextAnswer(value: string) {
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Regex answers must match the whole response; returns null for an invalid pattern.
+export function compileAnswerPattern(source: string): RegExp | null {
+  try {
+    return new RegExp(`^(?:${source})$`, "iu");
+  } catch {
+    return null;
+  }
+}
+
+function gradeShortText(question: GradableQuestion, answer: AnswerInput | undefined): Credit {
+  const response = parseTextValue(answer?.textValue);
+  if (!response) return { answered: false, correct: false, credit: 0, matchedAnswer: null };
+
+  const normalized = normalizeTextAnswer(response);
+  const match = question.acceptedAnswers.find((accepted) => {
+    if (accepted.isRegex) return compileAnswerPattern(accepted.text)?.test(response) ?? false;
+    return normalizeTextAnswer(accepted.text) === normalized;
+  });
+
+  return {
+    answered: true,
+    correct: Boolean(match),
+    credit: match ? 1 : 0,
+    matchedAnswer: match ? { id: match.id, text: match.text } : null,
+  };
+}
+
+// ALL_OR_NOTHING needs the exact sequence; the other policies score each pair of
+// choices by whether the learner kept them in the key's relative order.
+function gradeOrdering(question: GradableQuestion, answer: AnswerInput | undefined, policy: ScoringPolicy): Credit {
+  const submitted = answer?.orderedChoiceIds ?? [];
+  if (submitted.length === 0) return { answered: false, correct: false, credit: 0 };
+
+  const key = question.choices
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .map((c) => c.id);
+  const position = new Map(submitted.map((id, idx) => [id, idx] as const));
+
+  const correct = key.length === submitted.length && key.every((id, idx) => submitted[idx] === id);
+  if (correct) return { answered: true, correct, credit: 1 };
+  if (policy === "ALL_OR_NOTHING" || key.length < 2) return { answered: true, correct, credit: 0 };
+
+  let concordant = 0;
+  let discordant = 0;
+  for (let i = 0; i < key.length; i += 1) {
+    for (let j = i + 1; j < key.length; j += 1) {
+      const a = position.get(key[i]);
+      const b = position.get(key[j]);
+      if (a === undefined || b === undefined) continue;
+      if (a < b) concordant += 1;
+      else discordant += 1;
+    }
+  }
+
+  const pairs = (key.length * (key.length - 1)) / 2;
+  const credit =
+    policy === "RIGHT_MINUS_WRONG" ? Math.max(0, (concordant - discordant) / pairs) : concordant / pairs;
+  return { answered: true, correct, credit };
+}
+
+// Each left-hand item is worth an equal share; RIGHT_MINUS_WRONG cancels a correct
+// pair for every wrong one, and unpaired items count as neither.
+function gradeMatching(question: GradableQuestion, answer: AnswerInput | undefined, policy: ScoringPolicy): Credit {
+  const matches = parseMatches(answer?.matches);
+  const total = question.choices.length;
+  const keyByChoiceId = new Map(question.choices.map((c) => [c.id, c.matchTargetId] as const));
+
+  let hits = 0;
+  let misses = 0;
+  for (const m of matches) {
+    if (!keyByChoiceId.has(m.choiceId)) continue;
+    if (keyByChoiceId.get(m.choiceId) === m.targetId) hits += 1;
+    else misses += 1;
+  }
+
+  const correct = total > 0 && hits === total;
+  const credit = (() => {
+    if (correct) return 1;
+    if (total === 0) return 0;
+    switch (policy) {
+      case "ALL_OR_NOTHING":
+        return 0;
+      case "RIGHT_MINUS_WRONG":
+        return Math.max(0, (hits - misses) / total);
+      default:
+        return hits / total;
+    }
+  })();
+
+  return { answered: hits + misses > 0, correct, credit, matchedPairs: { correct: hits, total } };
+}
+
+export function gradeQuestion(
+  question: GradableQuestion,
+  answer: AnswerInput | undefined,
+  settings: GradingSettings
+): QuestionResult {
+  // MATCHING is scored per pair unless the question itself says otherwise.
+  const policy = question.scoringPolicy ?? (question.type === "MATCHING" ? "PROPORTIONAL" : settings.scoringPolicy);
+  const { answered, correct, credit, matchedAnswer, matchedPairs } = (() => {
+    switch (question.type) {
+      case "NUMERIC":
+        return gradeNumeric(question, answer);
+      case "SHORT_TEXT":
+        return gradeShortText(question, answer);
+      case "ORDERING":
+        return gradeOrdering(question, answer, policy);
+      case "MATCHING":
+        return gradeMatching(question, answer, policy);
+      default:
+        return gradeChoices(question, answer, policy);
+    }
+  })();
+
+  // Blank answers are never penalized; only answers that earned nothing are.
+  const penalized = answered && credit === 0;
+  const points = penalized ? -settings.wrongAnswerPenalty * question.points : credit * question.points;
+
+  return {
+    questionId: question.id,
+    policy,
+    correct,
+    credit: roundScore(credit),
+    points: roundScore(points),
+    maxPoints: question.points,
+    ...(question.type === "SHORT_TEXT" ? { matchedAnswer } : {}),
+    ...(question.type === "MATCHING" ? { matchedPairs } : {}),
+  };
+}
+
+export function gradeAttempt(
+  questions: GradableQuestion[],
+  answersByQuestionId: Map<string, AnswerInput>,
+  settings: GradingSettings
+): AttemptGrade {
+  // Grade every question, so unanswered ones show up in the breakdown with no credit.
+  const results = questions.map((q) => gradeQuestion(q, answersByQuestionId.get(q.id), settings));
+  return {
+    score: roundScore(results.reduce((sum, r) => sum + r.points, 0)),
+    maxScore: roundScore(results.reduce((sum, r) => sum + r.maxPoints, 0)),
+    results,
+  };
+}
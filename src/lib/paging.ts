@@ -0,0 +1,42 @@
+import type { DeliveryMode } from "@prisma/client";
+
+import { scopeToAttempt } from "@/lib/pools";
+import { orderQuestions } from "@/lib/shuffle";
+import type { VersionSettings } from "@/lib/versions";
+
+export const DELIVERY_MODES: readonly DeliveryMode[] = ["ALL_AT_ONCE", "PAGED", "ADAPTIVE"];
+
+export function isDeliveryMode(value: unknown): value is DeliveryMode {
+  return typeof value === "string" && (DELIVERY_MODES as readonly string[]).includes(value);
+}
+
+// How an attempt moves through its pages, from the settings of its version.
+export type PagingRules = Pick<VersionSettings, "deliveryMode" | "allowBackNavigation" | "shuffleQuestions">;
+
+type PagedAttempt = { questionIds: string[]; shuffleSeed: string | null; position: number };
+
+function isForwardOnly(quiz: PagingRules) {
+  return quiz.deliveryMode === "PAGED" && !quiz.allowBackNavigation;
+}
+
+// The position to store for a save, clamped to the paper; null when it would move a
+// forward-only attempt backwards.
+export function resolvePosition(quiz: PagingRules, current: number, requested: number | undefined, count: number) {
+  if (requested === undefined) return current;
+  const position = Math.min(Math.max(0, requested), Math.max(0, count - 1));
+  return isForwardOnly(quiz) && position < current ? null : position;
+}
+
+// Questions a forward-only attempt has moved past, or that an adaptive attempt served
+// before the current one. Their saved answers are final: later saves and the
+// submission leave them alone.
+export function lockedQuestionIds(
+  questions: readonly { id: string; sectionId?: string | null }[],
+  quiz: PagingRules,
+  attempt: PagedAttempt
+) {
+  if (quiz.deliveryMode === "ADAPTIVE") return new Set(attempt.questionIds.slice(0, -1));
+  if (!isForwardOnly(quiz)) return new Set<string>();
+  const order = orderQuestions(scopeToAttempt(questions, attempt.questionIds), quiz.shuffleQuestions, attempt.shuffleSeed);
+  return new Set(order.slice(0, attempt.position).map((q) => q.id));
+}
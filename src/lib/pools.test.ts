@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { drawQuestionIds, scopeToAttempt, type PoolQuestion } from "@/lib/pools";
+
+// Six easy questions, three hard ones and one without a group, in quiz order.
+const pool: PoolQuestion[] = [
+  ...Array.from({ length: 6 }, (_, i) => ({ id: `easy${i}`, poolGroup: "easy" })),
+  ...Array.from({ length: 3 }, (_, i) => ({ id: `hard${i}`, poolGroup: "hard" })),
+  { id: "loose", poolGroup: null },
+];
+
+function countByGroup(ids: readonly string[]) {
+  const counts: Record<string, number> = {};
+  for (const q of pool.filter((q) => ids.includes(q.id))) {
+    const key = q.poolGroup ?? "";
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+describe("drawQuestionIds", () => {
+  it("uses every question without a draw, or when the draw covers the pool", () => {
+    expect(drawQuestionIds(pool, null, "seed")).toEqual([]);
+    expect(drawQuestionIds(pool, pool.length, "seed")).toEqual([]);
+    expect(drawQuestionIds(pool, pool.length + 5, "seed")).toEqual([]);
+  });
+
+  it("takes from each group in proportion to its size", () => {
+    // Exact shares of 6/10, 3/10 and 1/10 of five are 3, 1.5 and 0.5.
+    for (let i = 0; i < 20; i += 1) {
+      const counts = countByGroup(drawQuestionIds(pool, 5, `seed-${i}`));
+      expect(counts.easy).toBe(3);
+      expect((counts.hard ?? 0) + (counts[""] ?? 0)).toBe(2);
+      expect(counts.hard).toBeGreaterThanOrEqual(1);
+    }
+  });
+
+  it("gives whole shares exactly", () => {
+    const ids = drawQuestionIds(pool.slice(0, 9), 6, "seed");
+    expect(countByGroup(ids)).toEqual({ easy: 4, hard: 2 });
+  });
+
+  it("draws the same questions for the same seed, in quiz order", () => {
+    const ids = drawQuestionIds(pool, 5, "attempt-1");
+    expect(drawQuestionIds(pool, 5, "attempt-1")).toEqual(ids);
+    expect(ids).toEqual(pool.map((q) => q.id).filter((id) => ids.includes(id)));
+  });
+
+  it("varies the draw between seeds", () => {
+    const draws = new Set(Array.from({ length: 20 }, (_, i) => drawQuestionIds(pool, 5, `seed-${i}`).join()));
+    expect(draws.size).toBeGreaterThan(1);
+  });
+});
+
+describe("scopeToAttempt", () => {
+  it("keeps the drawn questions, or all of them when nothing was drawn", () => {
+    expect(scopeToAttempt(pool, ["hard1", "easy0"]).map((q) => q.id)).toEqual(["easy0", "hard1"]);
+    expect(scopeToAttempt(pool, [])).toEqual(pool);
+  });
+});
@@ -0,0 +1,45 @@
+import type { Prisma } from "@prisma/client";
+
+import { seededShuffle } from "@/lib/shuffle";
+
+export type PoolQuestion = { id: string; poolGroup: string | null };
+
+export const poolQuestionSelect = { id: true, poolGroup: true } satisfies Prisma.QuestionSelect;
+
+// Draws drawCount questions, taking from each poolGroup in proportion to its size
+// (largest remainder). Returns ids in quiz order, or [] when every question is used.
+export function drawQuestionIds(questions: readonly PoolQuestion[], drawCount: number | null, seed: string): string[] {
+  if (!drawCount || drawCount >= questions.length) return [];
+
+  const groups = new Map<string, PoolQuestion[]>();
+  for (const q of questions) {
+    const key = q.poolGroup ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), q]);
+  }
+
+  const shares = [...groups.entries()].map(([key, members]) => {
+    const exact = (drawCount * members.length) / questions.length;
+    return { key, members, take: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  // Seats left over after flooring go to the largest remainders; ties are broken by the seed.
+  let left = drawCount - shares.reduce((sum, s) => sum + s.take, 0);
+  const byRemainder = seededShuffle(shares, `${seed}:groups`).sort((a, b) => b.remainder - a.remainder);
+  for (const share of byRemainder) {
+    if (left === 0) break;
+    share.take += 1;
+    left -= 1;
+  }
+
+  const drawn = new Set(
+    shares.flatMap((s) => seededShuffle(s.members, `${seed}:draw:${s.key}`).slice(0, s.take).map((q) => q.id))
+  );
+  return questions.filter((q) => drawn.has(q.id)).map((q) => q.id);
+}
+
+// An attempt's own questions: the ones it is answered, graded and reviewed against.
+export function scopeToAttempt<Q extends { id: string }>(questions: readonly Q[], questionIds: readonly string[]): Q[] {
+  if (questionIds.length === 0) return questions.slice();
+  const drawn = new Set(questionIds);
+  return questions.filter((q) => drawn.has(q.id));
+}
@@ -0,0 +1,89 @@
+import type { Prisma } from "@prisma/client";
+
+import { roundScore } from "@/lib/grading";
+
+// Admin input: a whole percentage, or null to pass any graded attempt.
+export function isPassPercent(value: unknown): value is number | null {
+  return value === null || (typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 100);
+}
+
+export function isPassingScore(score: number | null, maxScore: number | null, passPercent: number | null) {
+  if (score === null) return false;
+  if (passPercent === null || !maxScore) return true;
+  return roundScore((score / maxScore) * 100) >= passPercent;
+}
+
+// The quizzes among quizIds the learner has passed: one graded, non-practice attempt at
+// or above the pass mark is enough, whatever the quiz's final score policy.
+export async function passedQuizIds(db: Prisma.TransactionClient, userId: string, quizIds: readonly string[]) {
+  if (quizIds.length === 0) return new Set<string>();
+  const attempts = await db.attempt.findMany({
+    where: {
+      userId,
+      quizId: { in: [...quizIds] },
+      isPractice: false,
+      status: { not: "IN_PROGRESS" },
+      score: { not: null },
+    },
+    select: { quizId: true, score: true, maxScore: true, quiz: { select: { passPercent: true } } },
+  });
+  const passed = attempts.filter((a) => isPassingScore(a.score, a.maxScore, a.quiz.passPercent));
+  return new Set(passed.map((a) => a.quizId));
+}
+
+const requiredQuizSelect = { id: true, title: true, passPercent: true } satisfies Prisma.QuizSelect;
+
+export type RequiredQuiz = Prisma.QuizGetPayload<{ select: typeof requiredQuizSelect }>;
+
+// Prerequisites of each quiz the learner still has to pass. Signed-out visitors
+// (userId null) have passed nothing.
+export async function unmetPrerequisitesByQuizId(
+  db: Prisma.TransactionClient,
+  quizIds: readonly string[],
+  userId: string | null
+) {
+  const links = await db.quizPrerequisite.findMany({
+    where: { quizId: { in: [...quizIds] } },
+    orderBy: { createdAt: "asc" },
+    select: { quizId: true, requiredQuiz: { select: requiredQuizSelect } },
+  });
+  const passed = userId ? await passedQuizIds(db, userId, links.map((l) => l.requiredQuiz.id)) : new Set<string>();
+
+  const unmet = new Map<string, RequiredQuiz[]>(quizIds.map((id) => [id, []]));
+  for (const l of links) {
+    if (!passed.has(l.requiredQuiz.id)) unmet.get(l.quizId)?.push(l.requiredQuiz);
+  }
+  return unmet;
+}
+
+// Gate for starting an attempt: every prerequisite must have been passed.
+export async function checkPrerequisites(db: Prisma.TransactionClient, quizId: string, userId: string) {
+  const unmet = (await unmetPrerequisitesByQuizId(db, [quizId], userId)).get(quizId) ?? [];
+  if (unmet.length === 0) return { ok: true as const };
+  return {
+    ok: false as const,
+    code: "PREREQUISITES_NOT_MET",
+    message: `Pass ${unmet.map((q) => `"${q.title}"`).join(", ")} first.`,
+  };
+}
+
+// Whether making requiredIds prerequisites of quizId would close a loop, leaving every
+// quiz on it locked.
+export async function createsPrerequisiteCycle(
+  db: Prisma.TransactionClient,
+  quizId: string,
+  requiredIds: readonly string[]
+) {
+  const seen = new Set<string>();
+  let frontier = [...requiredIds];
+  while (frontier.length) {
+    if (frontier.includes(quizId)) return true;
+    frontier.forEach((id) => seen.add(id));
+    const links = await db.quizPrerequisite.findMany({
+      where: { quizId: { in: frontier } },
+      select: { requiredQuizId: true },
+    });
+    frontier = [...new Set(links.map((l) => l.requiredQuizId))].filter((id) => !seen.has(id));
+  }
+  return false;
+}
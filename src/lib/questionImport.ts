@@ -0,0 +1,326 @@
+import type { Prisma } from "@prisma/client";
+
+import { parseAiken } from "@/lib/aiken";
+import { parseCsv } from "@/lib/csv";
+import { parseGift } from "@/lib/gift";
+import { createQuestion, validateNewQuestion, type QuestionDraft, type ValidQuestion } from "@/lib/questions";
+
+// Bulk question import. Rows come in as our JSON schema, flat CSV, or Moodle's GIFT
+// and Aiken text formats, are shaped into question drafts, and go through the same
+// rules as the question editor.
+
+export const IMPORT_FORMATS = ["JSON", "CSV", "GIFT", "AIKEN"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return typeof value === "string" && (IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// A question in a file. Sections are named by title, as ids don't carry between quizzes.
+export type ImportDraft = Omit<QuestionDraft, "sectionId"> & { section?: string | null };
+
+export type ImportRow = { row: number; line?: number; draft: ImportDraft };
+
+export type RowError = { row: number; line?: number; message: string };
+
+type Shaped = { ok: true; draft: ImportDraft } | { ok: false; message: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const OPTIONAL_STRINGS = ["hint", "rationale", "poolGroup", "section", "scoringPolicy", "numericMode", "type"] as const;
+const OPTIONAL_NUMBERS = [
+  "points",
+  "difficulty",
+  "numericAnswer",
+  "numericTolerance",
+  "numericMin",
+  "numericMax",
+] as const;
+
+// Checks a JSON question's field types; the authoring rules come after.
+export function shapeDraft(value: unknown): Shaped {
+  if (!isRecord(value)) return { ok: false, message: "Each question must be an object." };
+  if (typeof value.prompt !== "string") return { ok: false, message: "prompt is required." };
+  for (const key of OPTIONAL_STRINGS) {
+    if (value[key] != null && typeof value[key] !== "string") return { ok: false, message: `${key} must be text.` };
+  }
+  for (const key of OPTIONAL_NUMBERS) {
+    if (value[key] != null && typeof value[key] !== "number") return { ok: false, message: `${key} must be a number.` };
+  }
+
+  const choices = value.choices ?? [];
+  if (!Array.isArray(choices)) return { ok: false, message: "choices must be a list." };
+  for (const c of choices) {
+    if (!isRecord(c) || typeof c.text !== "string") return { ok: false, message: "Each choice needs text." };
+    if (c.match != null && typeof c.match !== "string") return { ok: false, message: "match must be text." };
+  }
+  const acceptedAnswers = value.acceptedAnswers ?? [];
+  if (!Array.isArray(acceptedAnswers) || acceptedAnswers.some((a) => !isRecord(a) || typeof a.text !== "string")) {
+    return { ok: false, message: "Each accepted answer needs text." };
+  }
+  const distractors = value.distractors ?? [];
+  if (!Array.isArray(distractors) || distractors.some((d) => typeof d !== "string")) {
+    return { ok: false, message: "distractors must be a list of text." };
+  }
+
+  const text = (key: string) => (value[key] as string | null | undefined) ?? undefined;
+  const num = (key: string) => (value[key] as number | null | undefined) ?? undefined;
+  return {
+    ok: true,
+    draft: {
+      prompt: value.prompt,
+      hint: text("hint"),
+      rationale: text("rationale"),
+      type: text("type") as ImportDraft["type"],
+      scoringPolicy: text("scoringPolicy") as ImportDraft["scoringPolicy"],
+      points: num("points"),
+      poolGroup: text("poolGroup"),
+      difficulty: num("difficulty"),
+      section: text("section"),
+      numericMode: text("numericMode") as ImportDraft["numericMode"],
+      numericAnswer: num("numericAnswer"),
+      numericTolerance: num("numericTolerance"),
+      numericMin: num("numericMin"),
+      numericMax: num("numericMax"),
+      // Choices keep their listed order; for ORDERING that order is the key.
+      choices: (choices as Record<string, unknown>[]).map((c, order) => ({
+        text: c.text as string,
+        isCorrect: Boolean(c.isCorrect),
+        isAnchored: Boolean(c.isAnchored),
+        order,
+        ...(typeof c.match === "string" ? { match: c.match } : {}),
+      })),
+      acceptedAnswers: (acceptedAnswers as Record<string, unknown>[]).map((a) => ({
+        text: a.text as string,
+        isRegex: Boolean(a.isRegex),
+      })),
+      distractors: distractors as string[],
+    },
+  };
+}
+
+// Settings for sections the import creates; a JSON export lists the quiz's sections.
+export type SectionSpec = {
+  title: string;
+  instructions?: string | null;
+  timeLimitSeconds?: number | null;
+  allowReturn?: boolean;
+};
+
+export type ParsedImport =
+  | { ok: true; rows: ImportRow[]; errors: RowError[]; sections: SectionSpec[] }
+  | { ok: false; message: string };
+
+function shapeSections(value: unknown): SectionSpec[] | undefined {
+  if (value == null) return [];
+  if (!Array.isArray(value)) return undefined;
+  const valid = value.every(
+    (s) =>
+      isRecord(s) &&
+      typeof s.title === "string" &&
+      (s.instructions == null || typeof s.instructions === "string") &&
+      (s.timeLimitSeconds == null || (Number.isInteger(s.timeLimitSeconds) && (s.timeLimitSeconds as number) >= 1)) &&
+      (s.allowReturn == null || typeof s.allowReturn === "boolean")
+  );
+  return valid ? (value as SectionSpec[]) : undefined;
+}
+
+// Our JSON schema: { questions: [...] } as exported, or a bare list of questions.
+export function parseJsonImport(content: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { ok: false, message: "The file is not valid JSON." };
+  }
+  const questions = Array.isArray(data) ? data : isRecord(data) ? data.questions : undefined;
+  if (!Array.isArray(questions)) return { ok: false, message: "Expected a list of questions." };
+  const sections = shapeSections(isRecord(data) ? data.sections : undefined);
+  if (!sections) return { ok: false, message: "sections must be a list of titled sections." };
+
+  const rows: ImportRow[] = [];
+  const errors: RowError[] = [];
+  questions.forEach((value, idx) => {
+    const shaped = shapeDraft(value);
+    if (shaped.ok) rows.push({ row: idx + 1, draft: shaped.draft });
+    else errors.push({ row: idx + 1, message: shaped.message });
+  });
+  return { ok: true, rows, errors, sections };
+}
+
+// Flat CSV, one question per record. Numbered columns hold the lists: choiceN (with
+// matchN for MATCHING), answerN (SHORT_TEXT) and distractorN; correct, anchored and
+// regex list the numbers they apply to, e.g. "1;3".
+export const CSV_COLUMNS = [
+  "type",
+  "prompt",
+  "hint",
+  "rationale",
+  "points",
+  "difficulty",
+  "poolGroup",
+  "scoringPolicy",
+  "section",
+  "numericMode",
+  "numericAnswer",
+  "numericTolerance",
+  "numericMin",
+  "numericMax",
+  "correct",
+  "anchored",
+  "regex",
+] as const;
+
+const NUMBERED_COLUMN = /^(choice|match|answer|distractor)(\d+)$/;
+
+const CSV_NUMBER_COLUMNS = new Set<string>(OPTIONAL_NUMBERS);
+
+// "1;3" -> [0, 2]; undefined when the list can't be read.
+function parseNumberList(value: string) {
+  if (!value.trim()) return [];
+  const numbers = value.split(";").map((n) => Number(n.trim()));
+  return numbers.every((n) => Number.isInteger(n) && n >= 1) ? numbers.map((n) => n - 1) : undefined;
+}
+
+export function parseCsvImport(content: string): ParsedImport {
+  const parsed = parseCsv(content);
+  if (!parsed.ok) return { ok: false, message: `Line ${parsed.line}: ${parsed.message}` };
+  const [header, ...records] = parsed.records;
+  if (!header) return { ok: false, message: "The file is empty." };
+
+  const columns = header.fields.map((f) => f.trim());
+  const unknown = columns.find(
+    (c) => !(CSV_COLUMNS as readonly string[]).includes(c) && !NUMBERED_COLUMN.test(c)
+  );
+  if (unknown !== undefined) return { ok: false, message: `Unknown column "${unknown}".` };
+  if (!columns.includes("prompt")) return { ok: false, message: 'The header needs a "prompt" column.' };
+
+  const rows: ImportRow[] = [];
+  const errors: RowError[] = [];
+  records.forEach((record, idx) => {
+    const row = idx + 1;
+    const cells = new Map(columns.map((c, i) => [c, record.fields[i] ?? ""] as const));
+    const listed = (prefix: string) =>
+      columns
+        .flatMap((c) => {
+          const m = NUMBERED_COLUMN.exec(c);
+          return m && m[1] === prefix ? [{ n: Number(m[2]), value: cells.get(c) ?? "" }] : [];
+        })
+        .sort((a, b) => a.n - b.n)
+        .map((x) => x.value);
+
+    const correct = parseNumberList(cells.get("correct") ?? "");
+    const anchored = parseNumberList(cells.get("anchored") ?? "");
+    const regex = parseNumberList(cells.get("regex") ?? "");
+    if (!correct || !anchored || !regex) {
+      errors.push({ row, line: record.line, message: "correct, anchored and regex list numbers, e.g. 1;3." });
+      return;
+    }
+
+    // Blank cells are left out; numbers are read as numbers.
+    const value: Record<string, unknown> = {};
+    for (const c of CSV_COLUMNS) {
+      const cell = cells.get(c)?.trim();
+      if (!cell || c === "correct" || c === "anchored" || c === "regex") continue;
+      value[c] = CSV_NUMBER_COLUMNS.has(c) ? Number(cell) : cell;
+    }
+    value.prompt = cells.get("prompt") ?? "";
+
+    const matches = listed("match");
+    // Empty choice cells are dropped by the authoring rules, so numbering follows the columns.
+    value.choices = listed("choice").map((text, i) => ({
+      text,
+      isCorrect: correct.includes(i),
+      isAnchored: anchored.includes(i),
+      ...(matches[i]?.trim() ? { match: matches[i] } : {}),
+    }));
+    value.acceptedAnswers = listed("answer").map((text, i) => ({ text, isRegex: regex.includes(i) }));
+    value.distractors = listed("distractor");
+
+    const shaped = shapeDraft(value);
+    if (shaped.ok) rows.push({ row, line: record.line, draft: shaped.draft });
+    else errors.push({ row, line: record.line, message: shaped.message });
+  });
+  return { ok: true, rows, errors, sections: [] };
+}
+
+export function parseImport(format: ImportFormat, content: string) {
+  switch (format) {
+    case "CSV":
+      return parseCsvImport(content);
+    case "GIFT":
+      return parseGift(content);
+    case "AIKEN":
+      return parseAiken(content);
+    default:
+      return parseJsonImport(content);
+  }
+}
+
+export type ValidImportRow = { row: number; question: ValidQuestion; section: string | null };
+
+// Runs every row through the question editor's rules; a file imports only when all pass.
+export function validateImportRows(rows: readonly ImportRow[]) {
+  const valid: ValidImportRow[] = [];
+  const errors: RowError[] = [];
+  for (const { row, line, draft } of rows) {
+    const { section, ...question } = draft;
+    const checked = validateNewQuestion(question);
+    if (checked.ok) valid.push({ row, question: checked.question, section: section?.trim() || null });
+    else errors.push({ row, ...(line ? { line } : {}), message: checked.message });
+  }
+  return { valid, errors };
+}
+
+// Sections named in the file that the quiz doesn't have yet; the import creates them.
+export async function newSectionTitles(db: Prisma.TransactionClient, quizId: string, rows: readonly ValidImportRow[]) {
+  const existing = await db.section.findMany({ where: { quizId }, select: { title: true } });
+  const titles = new Set(existing.map((s) => s.title));
+  return [...new Set(rows.flatMap((r) => (r.section && !titles.has(r.section) ? [r.section] : [])))];
+}
+
+// Writes the rows after the version's existing questions, creating missing sections
+// after the quiz's existing ones, with their settings from specs when listed there.
+export async function importQuestions(
+  tx: Prisma.TransactionClient,
+  quizId: string,
+  versionId: string,
+  rows: readonly ValidImportRow[],
+  specs: readonly SectionSpec[] = []
+) {
+  const sections = await tx.section.findMany({ where: { quizId }, select: { id: true, title: true, order: true } });
+  const sectionIdByTitle = new Map(sections.map((s) => [s.title, s.id] as const));
+  let sectionOrder = sections.reduce((max, s) => Math.max(max, s.order), -1) + 1;
+
+  let order = await tx.question
+    .aggregate({ where: { versionId }, _max: { order: true } })
+    .then((r) => (r._max.order ?? -1) + 1);
+
+  const ids: string[] = [];
+  for (const { question, section } of rows) {
+    let sectionId = section ? sectionIdByTitle.get(section) : undefined;
+    if (section && !sectionId) {
+      const spec = specs.find((s) => s.title.trim() === section);
+      const created = await tx.section.create({
+        data: {
+          quizId,
+          title: section,
+          order: sectionOrder++,
+          instructions: spec?.instructions?.trim() || null,
+          timeLimitSeconds: spec?.timeLimitSeconds ?? null,
+          allowReturn: spec?.allowReturn ?? true,
+        },
+        select: { id: true },
+      });
+      sectionId = created.id;
+      sectionIdByTitle.set(section, sectionId);
+    }
+    ids.push(await createQuestion(tx, quizId, versionId, { ...question, sectionId: sectionId ?? null }, order++));
+  }
+  return ids;
+}
@@ -0,0 +1,289 @@
+import type { NumericMode, Prisma, ScoringPolicy } from "@prisma/client";
+
+import { DEFAULT_DIFFICULTY, MAX_DIFFICULTY, MIN_DIFFICULTY, isDifficulty } from "@/lib/adaptive";
+import { compileAnswerPattern, isScoringPolicy } from "@/lib/grading";
+
+// Authoring rules for questions, shared by the question editor and bulk imports.
+
+export type QuestionType = "SINGLE_CHOICE" | "MULTIPLE_CHOICE" | "NUMERIC" | "SHORT_TEXT" | "ORDERING" | "MATCHING";
+
+export type ChoiceInput = {
+  id?: string;
+  text: string;
+  isCorrect?: boolean;
+  // Choice types only: stays in place when choices are shuffled.
+  isAnchored?: boolean;
+  order?: number;
+  // MATCHING: text of the right-hand item this choice pairs with.
+  match?: string;
+};
+
+export type AcceptedAnswerInput = {
+  text: string;
+  isRegex?: boolean;
+};
+
+export type NumericKeyInput = {
+  numericMode?: NumericMode | null;
+  numericAnswer?: number | null;
+  numericTolerance?: number | null;
+  numericMin?: number | null;
+  numericMax?: number | null;
+};
+
+export function isChoiceType(type: QuestionType) {
+  return type === "SINGLE_CHOICE" || type === "MULTIPLE_CHOICE";
+}
+
+// Types whose answer key lives in Choice rows (ORDERING uses Choice.order as its
+// key, MATCHING uses the choices as left-hand items).
+export function usesChoices(type: QuestionType) {
+  return isChoiceType(type) || type === "ORDERING" || type === "MATCHING";
+}
+
+export function normalizeChoices(inputs: ChoiceInput[]) {
+  const trimmed = inputs
+    .map((c, idx) => ({ ...c, text: c.text.trim(), order: c.order ?? idx, match: c.match?.trim() }))
+    .filter((c) => c.text.length > 0);
+  return trimmed;
+}
+
+export function validateCorrectChoices(type: QuestionType, choices: ChoiceInput[]) {
+  const correctCount = choices.filter((c) => Boolean(c.isCorrect)).length;
+  if (correctCount < 1) return "At least 1 correct choice is required.";
+  if (type === "SINGLE_CHOICE" && correctCount !== 1) {
+    return "Single-choice questions must have exactly 1 correct choice.";
+  }
+  return null;
+}
+
+export function validateMatchingChoices(choices: ChoiceInput[]) {
+  return choices.every((c) => c.match) ? null : "Every item needs a match.";
+}
+
+export function normalizeDistractors(inputs: unknown[]) {
+  return inputs.map((d) => (typeof d === "string" ? d.trim() : "")).filter((d) => d.length > 0);
+}
+
+// Reuses targets by text so pairings in existing answers survive edits; returns
+// the target id for each right-hand text.
+export async function syncMatchTargets(
+  tx: Prisma.TransactionClient,
+  questionId: string,
+  choices: ChoiceInput[],
+  distractors: string[]
+) {
+  const texts = [...new Set([...choices.map((c) => c.match ?? ""), ...distractors])];
+  const existing = await tx.matchTarget.findMany({ where: { questionId }, select: { id: true, text: true } });
+
+  const idByText = new Map<string, string>();
+  for (const t of existing) {
+    if (texts.includes(t.text) && !idByText.has(t.text)) idByText.set(t.text, t.id);
+  }
+
+  const kept = new Set(idByText.values());
+  const toDelete = existing.filter((t) => !kept.has(t.id)).map((t) => t.id);
+  if (toDelete.length) await tx.matchTarget.deleteMany({ where: { id: { in: toDelete } } });
+
+  for (const [order, text] of texts.entries()) {
+    const id = idByText.get(text);
+    if (id) {
+      await tx.matchTarget.update({ where: { id }, data: { order } });
+    } else {
+      const created = await tx.matchTarget.create({ data: { questionId, text, order }, select: { id: true } });
+      idByText.set(text, created.id);
+    }
+  }
+
+  return idByText;
+}
+
+export function normalizeAcceptedAnswers(inputs: AcceptedAnswerInput[]) {
+  return inputs
+    .map((a) => ({ text: (a.text ?? "").trim(), isRegex: Boolean(a.isRegex) }))
+    .filter((a) => a.text.length > 0)
+    .map((a, idx) => ({ ...a, order: idx }));
+}
+
+export function validateAcceptedAnswers(answers: AcceptedAnswerInput[]) {
+  if (answers.length < 1) return "At least 1 accepted answer is required.";
+  for (const a of answers) {
+    if (a.isRegex && !compileAnswerPattern(a.text)) return `Invalid pattern: ${a.text}`;
+  }
+  return null;
+}
+
+export function isValidPoints(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function validateNumericKey(key: NumericKeyInput) {
+  switch (key.numericMode) {
+    case "EXACT":
+      return isFiniteNumber(key.numericAnswer) ? null : "numericAnswer is required.";
+    case "ABSOLUTE":
+    case "RELATIVE":
+      if (!isFiniteNumber(key.numericAnswer)) return "numericAnswer is required.";
+      if (!isFiniteNumber(key.numericTolerance) || key.numericTolerance < 0) {
+        return "numericTolerance must be a non-negative number.";
+      }
+      return null;
+    case "RANGE":
+      if (!isFiniteNumber(key.numericMin) || !isFiniteNumber(key.numericMax)) {
+        return "numericMin and numericMax are required.";
+      }
+      if (key.numericMin > key.numericMax) return "numericMin must not exceed numericMax.";
+      return null;
+    default:
+      return "numericMode must be EXACT, ABSOLUTE, RELATIVE or RANGE.";
+  }
+}
+
+// Keep only the columns the mode uses, so stale values never affect grading.
+export function numericKeyData(key: NumericKeyInput) {
+  const mode = key.numericMode ?? null;
+  return {
+    numericMode: mode,
+    numericAnswer: mode && mode !== "RANGE" ? (key.numericAnswer ?? null) : null,
+    numericTolerance: mode === "ABSOLUTE" || mode === "RELATIVE" ? (key.numericTolerance ?? null) : null,
+    numericMin: mode === "RANGE" ? (key.numericMin ?? null) : null,
+    numericMax: mode === "RANGE" ? (key.numericMax ?? null) : null,
+  };
+}
+
+export const questionInclude = {
+  choices: { orderBy: { order: "asc" } },
+  acceptedAnswers: { orderBy: { order: "asc" } },
+  matchTargets: { orderBy: { order: "asc" } },
+} satisfies Prisma.QuestionInclude;
+
+export const QUESTION_TYPES: readonly QuestionType[] = [
+  "SINGLE_CHOICE",
+  "MULTIPLE_CHOICE",
+  "NUMERIC",
+  "SHORT_TEXT",
+  "ORDERING",
+  "MATCHING",
+];
+
+export function isQuestionType(value: unknown): value is QuestionType {
+  return typeof value === "string" && (QUESTION_TYPES as readonly string[]).includes(value);
+}
+
+// A new question as authored, before validation.
+export type QuestionDraft = NumericKeyInput & {
+  prompt: string;
+  hint?: string | null;
+  rationale?: string | null;
+  type?: QuestionType;
+  scoringPolicy?: ScoringPolicy | null;
+  points?: number;
+  poolGroup?: string | null;
+  difficulty?: number;
+  // null leaves the question outside every section.
+  sectionId?: string | null;
+  choices?: ChoiceInput[];
+  acceptedAnswers?: AcceptedAnswerInput[];
+  distractors?: string[];
+};
+
+// Checks a new question against the rules above. Returns it with its choices and
+// accepted answers cleaned up, or the first problem found.
+export function validateNewQuestion(draft: QuestionDraft) {
+  const invalid = (message: string) => ({ ok: false as const, message });
+  if (typeof draft.prompt !== "string" || !draft.prompt.trim()) return invalid("prompt is required.");
+
+  const type = draft.type ?? "SINGLE_CHOICE";
+  if (!isQuestionType(type)) return invalid("Invalid type.");
+  let choices: ChoiceInput[] = [];
+  let acceptedAnswers: ReturnType<typeof normalizeAcceptedAnswers> = [];
+
+  if (type === "NUMERIC") {
+    const numericMessage = validateNumericKey(draft);
+    if (numericMessage) return invalid(numericMessage);
+  } else if (type === "SHORT_TEXT") {
+    acceptedAnswers = normalizeAcceptedAnswers(draft.acceptedAnswers ?? []);
+    const acceptedMessage = validateAcceptedAnswers(acceptedAnswers);
+    if (acceptedMessage) return invalid(acceptedMessage);
+  } else {
+    if (!Array.isArray(draft.choices) || draft.choices.length < 2) return invalid("At least 2 choices are required.");
+
+    choices = normalizeChoices(draft.choices);
+    if (choices.length < 2) return invalid("At least 2 non-empty choices are required.");
+
+    if (isChoiceType(type)) {
+      const validationMessage = validateCorrectChoices(type, choices);
+      if (validationMessage) return invalid(validationMessage);
+    }
+    if (type === "MATCHING") {
+      const matchingMessage = validateMatchingChoices(choices);
+      if (matchingMessage) return invalid(matchingMessage);
+    }
+  }
+
+  if (draft.scoringPolicy != null && !isScoringPolicy(draft.scoringPolicy)) return invalid("Invalid scoringPolicy.");
+  if (draft.points !== undefined && !isValidPoints(draft.points)) return invalid("points must be a positive number.");
+  if (draft.difficulty !== undefined && !isDifficulty(draft.difficulty)) {
+    return invalid(`difficulty must be a whole number from ${MIN_DIFFICULTY} to ${MAX_DIFFICULTY}.`);
+  }
+
+  return {
+    ok: true as const,
+    question: { ...draft, type, choices, acceptedAnswers, distractors: normalizeDistractors(draft.distractors ?? []) },
+  };
+}
+
+export type ValidQuestion = Extract<ReturnType<typeof validateNewQuestion>, { ok: true }>["question"];
+
+// Writes a validated question into a version at the given order; returns its id.
+export async function createQuestion(
+  tx: Prisma.TransactionClient,
+  quizId: string,
+  versionId: string,
+  question: ValidQuestion,
+  order: number
+) {
+  const { type } = question;
+  const created = await tx.question.create({
+    data: {
+      quizId,
+      versionId,
+      prompt: question.prompt.trim(),
+      hint: question.hint?.trim() || null,
+      poolGroup: question.poolGroup?.trim() || null,
+      difficulty: question.difficulty ?? DEFAULT_DIFFICULTY,
+      sectionId: question.sectionId ?? null,
+      rationale: question.rationale?.trim() || null,
+      type,
+      order,
+      scoringPolicy: question.scoringPolicy ?? null,
+      points: question.points ?? 1,
+      ...numericKeyData(type === "NUMERIC" ? question : {}),
+      acceptedAnswers: { create: question.acceptedAnswers },
+    },
+    select: { id: true },
+  });
+
+  // Choices are written after the targets they may point at.
+  const targetIds =
+    type === "MATCHING"
+      ? await syncMatchTargets(tx, created.id, question.choices, question.distractors)
+      : new Map<string, string>();
+
+  await tx.choice.createMany({
+    data: question.choices.map((c) => ({
+      questionId: created.id,
+      text: c.text,
+      order: c.order ?? 0,
+      isCorrect: isChoiceType(type) && Boolean(c.isCorrect),
+      isAnchored: isChoiceType(type) && Boolean(c.isAnchored),
+      matchTargetId: targetIds.get(c.match ?? "") ?? null,
+    })),
+  });
+
+  return created.id;
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  parseCsvImport,
+  parseJsonImport,
+  validateImportRows,
+  type ParsedImport,
+  type ValidImportRow,
+} from "@/lib/questionImport";
+import {
+  buildCsvExport,
+  buildJsonExport,
+  questionToDraft,
+  type ExportQuestion,
+  type ExportQuiz,
+} from "@/lib/quizExport";
+
+type Fixture = {
+  type: ExportQuestion["type"];
+  prompt: string;
+  section?: string;
+  choices?: { text: string; isCorrect?: boolean; isAnchored?: boolean; match?: string }[];
+  acceptedAnswers?: { text: string; isRegex?: boolean }[];
+  distractors?: string[];
+} & Partial<Pick<ExportQuestion, "hint" | "rationale" | "points" | "poolGroup" | "scoringPolicy" | "numericMode">> &
+  Partial<Pick<ExportQuestion, "numericAnswer" | "numericTolerance" | "numericMin" | "numericMax">>;
+
+// A stored question as the export reads it, with only the fields the export uses.
+function stored(id: string, f: Fixture): ExportQuestion {
+  const targets = [...new Set([...(f.choices ?? []).flatMap((c) => c.match ?? []), ...(f.distractors ?? [])])];
+  return {
+    id,
+    type: f.type,
+    prompt: f.prompt,
+    hint: f.hint ?? null,
+    rationale: f.rationale ?? null,
+    points: f.points ?? 1,
+    difficulty: 3,
+    poolGroup: f.poolGroup ?? null,
+    scoringPolicy: f.scoringPolicy ?? null,
+    numericMode: f.numericMode ?? null,
+    numericAnswer: f.numericAnswer ?? null,
+    numericTolerance: f.numericTolerance ?? null,
+    numericMin: f.numericMin ?? null,
+    numericMax: f.numericMax ?? null,
+    section: f.section ? { title: f.section } : null,
+    choices: (f.choices ?? []).map((c, order) => ({
+      id: `${id}-c${order}`,
+      text: c.text,
+      isCorrect: Boolean(c.isCorrect),
+      isAnchored: Boolean(c.isAnchored),
+      order,
+      matchTargetId: c.match ? `${id}-t${targets.indexOf(c.match)}` : null,
+    })),
+    acceptedAnswers: (f.acceptedAnswers ?? []).map((a, order) => ({
+      id: `${id}-a${order}`,
+      text: a.text,
+      isRegex: Boolean(a.isRegex),
+      order,
+    })),
+    matchTargets: targets.map((text, order) => ({ id: `${id}-t${order}`, text, order })),
+  } as unknown as ExportQuestion;
+}
+
+const questions = [
+  stored("q1", {
+    type: "SINGLE_CHOICE",
+    prompt: "Capital of France?",
+    hint: 'Think "Eiffel", then commas, too',
+    section: "Geography",
+    choices: [{ text: "Paris", isCorrect: true }, { text: "Lyon" }, { text: "None of these", isAnchored: true }],
+  }),
+  stored("q2", {
+    type: "MULTIPLE_CHOICE",
+    prompt: "Pick the primes.",
+    points: 2,
+    scoringPolicy: "PROPORTIONAL",
+    poolGroup: "maths",
+    choices: [{ text: "2", isCorrect: true }, { text: "3", isCorrect: true }, { text: "4" }],
+  }),
+  stored("q3", {
+    type: "NUMERIC",
+    prompt: "Roughly pi?",
+    rationale: "3.14159…",
+    numericMode: "ABSOLUTE",
+    numericAnswer: 3.14,
+    numericTolerance: 0.01,
+  }),
+  stored("q4", {
+    type: "SHORT_TEXT",
+    prompt: "Name a colour of the French flag.",
+    section: "Geography",
+    acceptedAnswers: [{ text: "blue" }, { text: "(white|red)", isRegex: true }],
+  }),
+  stored("q5", {
+    type: "ORDERING",
+    prompt: "Smallest first.",
+    choices: [{ text: "1" }, { text: "10" }, { text: "100" }],
+  }),
+  stored("q6", {
+    type: "MATCHING",
+    prompt: "Match the capitals.",
+    choices: [
+      { text: "France", match: "Paris" },
+      { text: "Spain", match: "Madrid" },
+    ],
+    distractors: ["Lisbon"],
+  }),
+];
+
+const quiz = {
+  title: "Round trip",
+  description: null,
+  timeLimitSeconds: 600,
+  scoringPolicy: "ALL_OR_NOTHING",
+  wrongAnswerPenalty: 0.25,
+  revealPolicy: "AFTER_SUBMISSION",
+  maxAttempts: 3,
+  attemptCooldownSeconds: null,
+  finalScorePolicy: "BEST",
+  shuffleQuestions: true,
+  shuffleChoices: false,
+  drawCount: null,
+  deliveryMode: "ALL_AT_ONCE",
+  allowBackNavigation: true,
+  allowPractice: false,
+  passPercent: 70,
+  category: null,
+  sections: [{ id: "s1", title: "Geography", instructions: "Maps away.", timeLimitSeconds: 120, allowReturn: false }],
+} satisfies ExportQuiz;
+
+// Each row's question and section, as the editor's rules leave them. Unset fields are
+// null or missing depending on the file; the import writes both the same way.
+function written(rows: readonly ValidImportRow[]) {
+  return JSON.parse(
+    JSON.stringify(
+      rows.map(({ question, section }) => ({ question, section })),
+      (_, v) => v ?? undefined
+    )
+  );
+}
+
+function imported(parsed: ParsedImport) {
+  if (!parsed.ok) throw new Error(parsed.message);
+  expect(parsed.errors).toEqual([]);
+  const { valid, errors } = validateImportRows(parsed.rows);
+  expect(errors).toEqual([]);
+  return written(valid);
+}
+
+const expected = validateImportRows(questions.map((q, idx) => ({ row: idx + 1, draft: questionToDraft(q) })));
+
+describe("quiz export round trip", () => {
+  it("exports every question in a shape the import accepts", () => {
+    expect(expected.errors).toEqual([]);
+    expect(expected.valid).toHaveLength(questions.length);
+  });
+
+  it("imports a JSON export back to the same questions, sections and settings", () => {
+    const file = JSON.stringify(buildJsonExport(quiz, questions));
+    const parsed = parseJsonImport(file);
+
+    expect(imported(parsed)).toEqual(written(expected.valid));
+    expect(parsed.ok && parsed.sections).toEqual([
+      { title: "Geography", instructions: "Maps away.", timeLimitSeconds: 120, allowReturn: false },
+    ]);
+    expect(JSON.parse(file).quiz).toEqual({ ...quiz, sections: undefined });
+  });
+
+  it("imports a CSV export back to the same questions", () => {
+    const parsed = parseCsvImport(buildCsvExport(questions));
+    expect(imported(parsed)).toEqual(written(expected.valid));
+  });
+
+  it("keeps the MATCHING key and its distractors", () => {
+    const draft = questionToDraft(questions[5]);
+    expect(draft.choices).toEqual([
+      { text: "France", isCorrect: false, isAnchored: false, match: "Paris" },
+      { text: "Spain", isCorrect: false, isAnchored: false, match: "Madrid" },
+    ]);
+    expect(draft.distractors).toEqual(["Lisbon"]);
+  });
+});
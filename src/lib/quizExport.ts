@@ -0,0 +1,408 @@
+import type { Prisma } from "@prisma/client";
+
+import { formatCsv } from "@/lib/csv";
+import { CSV_COLUMNS, type ImportDraft, type SectionSpec } from "@/lib/questionImport";
+import { questionInclude } from "@/lib/questions";
+import { createZip } from "@/lib/zip";
+
+// Quiz export as our JSON schema (which the question import reads back), flat CSV in
+// the import's columns, Moodle GIFT and Aiken text, and an IMS QTI 2.1 content package
+// for LMS hand-offs.
+
+export const EXPORT_FORMATS = ["JSON", "CSV", "GIFT", "AIKEN", "QTI"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export const EXPORT_SCHEMA = "quiz-export";
+export const EXPORT_SCHEMA_VERSION = 1;
+
+// Settings that travel with the content. Visibility, access codes and the schedule
+// belong to one deployment and are left behind. Exports take the draft's.
+export const exportSettingsSelect = {
+  timeLimitSeconds: true,
+  scoringPolicy: true,
+  wrongAnswerPenalty: true,
+  revealPolicy: true,
+  maxAttempts: true,
+  attemptCooldownSeconds: true,
+  finalScorePolicy: true,
+  shuffleQuestions: true,
+  shuffleChoices: true,
+  drawCount: true,
+  deliveryMode: true,
+  allowBackNavigation: true,
+  allowPractice: true,
+  passPercent: true,
+} satisfies Prisma.QuizSelect & Prisma.QuizVersionSelect;
+
+export const exportQuizSelect = {
+  title: true,
+  description: true,
+  ...exportSettingsSelect,
+  category: { select: { name: true, slug: true } },
+  sections: {
+    orderBy: { order: "asc" },
+    select: { id: true, title: true, instructions: true, timeLimitSeconds: true, allowReturn: true },
+  },
+} satisfies Prisma.QuizSelect;
+
+export const exportQuestionInclude = {
+  ...questionInclude,
+  section: { select: { title: true } },
+} satisfies Prisma.QuestionInclude;
+
+export type ExportQuiz = Prisma.QuizGetPayload<{ select: typeof exportQuizSelect }>;
+
+export type ExportQuestion = Prisma.QuestionGetPayload<{ include: typeof exportQuestionInclude }>;
+
+// A stored question in the import's shape, so importing it recreates the same question.
+export function questionToDraft(q: ExportQuestion): ImportDraft {
+  const targetText = new Map(q.matchTargets.map((t) => [t.id, t.text] as const));
+  const matched = new Set(q.choices.map((c) => c.matchTargetId));
+
+  return {
+    type: q.type,
+    prompt: q.prompt,
+    hint: q.hint,
+    rationale: q.rationale,
+    points: q.points,
+    difficulty: q.difficulty,
+    poolGroup: q.poolGroup,
+    scoringPolicy: q.scoringPolicy,
+    section: q.section?.title ?? null,
+    ...(q.type === "NUMERIC"
+      ? {
+          numericMode: q.numericMode,
+          numericAnswer: q.numericAnswer,
+          numericTolerance: q.numericTolerance,
+          numericMin: q.numericMin,
+          numericMax: q.numericMax,
+        }
+      : {}),
+    choices: q.choices.map((c) => ({
+      text: c.text,
+      isCorrect: c.isCorrect,
+      isAnchored: c.isAnchored,
+      ...(q.type === "MATCHING" ? { match: targetText.get(c.matchTargetId ?? "") ?? "" } : {}),
+    })),
+    acceptedAnswers: q.acceptedAnswers.map((a) => ({ text: a.text, isRegex: a.isRegex })),
+    distractors: q.matchTargets.filter((t) => !matched.has(t.id)).map((t) => t.text),
+  };
+}
+
+export function buildJsonExport(quiz: ExportQuiz, questions: readonly ExportQuestion[], exportedAt = new Date()) {
+  const { sections, ...settings } = quiz;
+  const sectionSpecs: SectionSpec[] = sections.map((s) => ({
+    title: s.title,
+    instructions: s.instructions,
+    timeLimitSeconds: s.timeLimitSeconds,
+    allowReturn: s.allowReturn,
+  }));
+  return {
+    format: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    quiz: settings,
+    sections: sectionSpecs,
+    questions: questions.map(questionToDraft),
+  };
+}
+
+// Numbers in a list column, e.g. "1;3".
+function numberList(flags: readonly boolean[]) {
+  return flags.flatMap((flag, i) => (flag ? [String(i + 1)] : [])).join(";");
+}
+
+function cell(value: string | number | null | undefined) {
+  return value == null ? "" : String(value);
+}
+
+export function buildCsvExport(questions: readonly ExportQuestion[]) {
+  const drafts = questions.map(questionToDraft);
+  const width = (list: (d: ImportDraft) => readonly unknown[] | undefined) =>
+    drafts.reduce((max, d) => Math.max(max, list(d)?.length ?? 0), 0);
+  const numbered = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`);
+
+  const choiceCount = width((d) => d.choices);
+  const matchCount = drafts.some((d) => d.type === "MATCHING") ? choiceCount : 0;
+  const answerCount = width((d) => d.acceptedAnswers);
+  const distractorCount = width((d) => d.distractors);
+
+  const header = [
+    ...CSV_COLUMNS,
+    ...numbered("choice", choiceCount),
+    ...numbered("match", matchCount),
+    ...numbered("answer", answerCount),
+    ...numbered("distractor", distractorCount),
+  ];
+
+  const pad = (values: readonly string[], count: number) =>
+    Array.from({ length: count }, (_, i) => values[i] ?? "");
+
+  const rows = drafts.map((d) => {
+    const choices = d.choices ?? [];
+    const answers = d.acceptedAnswers ?? [];
+    const fixed: Record<(typeof CSV_COLUMNS)[number], string> = {
+      type: cell(d.type),
+      prompt: d.prompt,
+      hint: cell(d.hint),
+      rationale: cell(d.rationale),
+      points: cell(d.points),
+      difficulty: cell(d.difficulty),
+      poolGroup: cell(d.poolGroup),
+      scoringPolicy: cell(d.scoringPolicy),
+      section: cell(d.section),
+      numericMode: cell(d.numericMode),
+      numericAnswer: cell(d.numericAnswer),
+      numericTolerance: cell(d.numericTolerance),
+      numericMin: cell(d.numericMin),
+      numericMax: cell(d.numericMax),
+      correct: numberList(choices.map((c) => Boolean(c.isCorrect))),
+      anchored: numberList(choices.map((c) => Boolean(c.isAnchored))),
+      regex: numberList(answers.map((a) => Boolean(a.isRegex))),
+    };
+    return [
+      ...CSV_COLUMNS.map((c) => fixed[c]),
+      ...pad(choices.map((c) => c.text), choiceCount),
+      ...pad(choices.map((c) => c.match ?? ""), matchCount),
+      ...pad(answers.map((a) => a.text), answerCount),
+      ...pad(d.distractors ?? [], distractorCount),
+    ];
+  });
+
+  return formatCsv([header, ...rows]);
+}
+
+function xml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+const QTI_NS = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const QTI_NAMESPACE =
+  `xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ` +
+  `xsi:schemaLocation="${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`;
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+function value(baseType: string, v: string | number) {
+  return `<baseValue baseType="${baseType}">${xml(String(v))}</baseValue>`;
+}
+
+const RESPONSE = '<variable identifier="RESPONSE"/>';
+
+// The interaction, the response declaration's cardinality, base type and correct
+// values, and the condition under which the response earns the points.
+function qtiInteraction(q: ExportQuestion) {
+  const prompt = `<prompt>${xml(q.prompt)}</prompt>`;
+  const choiceId = (i: number) => `C${i + 1}`;
+  const simpleChoice = (i: number, text: string, attrs = "") =>
+    `<simpleChoice identifier="${choiceId(i)}"${attrs}>${xml(text)}</simpleChoice>`;
+  const associable = (id: string, text: string, matchMax: number) =>
+    `<simpleAssociableChoice identifier="${id}" matchMax="${matchMax}">${xml(text)}</simpleAssociableChoice>`;
+  const matchesKey = `<match>${RESPONSE}<correct identifier="RESPONSE"/></match>`;
+
+  switch (q.type) {
+    case "SINGLE_CHOICE":
+    case "MULTIPLE_CHOICE": {
+      const single = q.type === "SINGLE_CHOICE";
+      const choices = q.choices.map((c, i) => simpleChoice(i, c.text, ` fixed="${c.isAnchored}"`)).join("");
+      return {
+        cardinality: single ? "single" : "multiple",
+        baseType: "identifier",
+        correct: q.choices.flatMap((c, i) => (c.isCorrect ? [choiceId(i)] : [])),
+        interaction:
+          `<choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${single ? 1 : 0}">` +
+          `${prompt}${choices}</choiceInteraction>`,
+        condition: matchesKey,
+      };
+    }
+    case "ORDERING": {
+      const choices = q.choices.map((c, i) => simpleChoice(i, c.text)).join("");
+      return {
+        cardinality: "ordered",
+        baseType: "identifier",
+        // Choices are stored in their correct order.
+        correct: q.choices.map((_, i) => choiceId(i)),
+        interaction:
+          `<orderInteraction responseIdentifier="RESPONSE" shuffle="true">${prompt}${choices}</orderInteraction>`,
+        condition: matchesKey,
+      };
+    }
+    case "MATCHING": {
+      const targetId = new Map(q.matchTargets.map((t, i) => [t.id, `T${i + 1}`] as const));
+      const items = q.choices.map((c, i) => associable(choiceId(i), c.text, 1)).join("");
+      const targets = q.matchTargets.map((t) => associable(targetId.get(t.id) ?? "", t.text, 0)).join("");
+      return {
+        cardinality: "multiple",
+        baseType: "directedPair",
+        correct: q.choices.flatMap((c, i) =>
+          c.matchTargetId && targetId.has(c.matchTargetId) ? [`${choiceId(i)} ${targetId.get(c.matchTargetId)}`] : []
+        ),
+        interaction:
+          `<matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${q.choices.length}">` +
+          `${prompt}<simpleMatchSet>${items}</simpleMatchSet><simpleMatchSet>${targets}</simpleMatchSet>` +
+          "</matchInteraction>",
+        condition: matchesKey,
+      };
+    }
+    case "SHORT_TEXT": {
+      // Regex answers become patternMatch; the pattern is anchored as in grading.
+      const tests = q.acceptedAnswers.map((a) =>
+        a.isRegex
+          ? `<patternMatch pattern="${xml(a.text)}">${RESPONSE}</patternMatch>`
+          : `<stringMatch caseSensitive="false">${RESPONSE}${value("string", a.text)}</stringMatch>`
+      );
+      return {
+        cardinality: "single",
+        baseType: "string",
+        correct: q.acceptedAnswers.filter((a) => !a.isRegex).map((a) => a.text).slice(0, 1),
+        interaction: `<p>${xml(q.prompt)}</p><p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`,
+        condition: tests.length === 1 ? tests[0] : `<or>${tests.join("")}</or>`,
+      };
+    }
+    case "NUMERIC": {
+      const answer = q.numericAnswer ?? 0;
+      const tolerance = q.numericTolerance ?? 0;
+      const equal = (attrs: string) => `<equal ${attrs}>${RESPONSE}${value("float", answer)}</equal>`;
+      const condition =
+        q.numericMode === "RANGE"
+          ? `<and><gte>${RESPONSE}${value("float", q.numericMin ?? 0)}</gte>` +
+            `<lte>${RESPONSE}${value("float", q.numericMax ?? 0)}</lte></and>`
+          : q.numericMode === "ABSOLUTE"
+            ? equal(`toleranceMode="absolute" tolerance="${tolerance}"`)
+            : q.numericMode === "RELATIVE"
+              ? // QTI's relative tolerance is a percentage; ours is a fraction.
+                equal(`toleranceMode="relative" tolerance="${tolerance * 100}"`)
+              : equal('toleranceMode="exact"');
+      return {
+        cardinality: "single",
+        baseType: "float",
+        correct: q.numericMode === "RANGE" ? [] : [String(answer)],
+        interaction: `<p>${xml(q.prompt)}</p><p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`,
+        condition,
+      };
+    }
+  }
+}
+
+// One assessmentItem. Scoring is all-or-nothing, as QTI has no standard for our partial
+// credit policies; the rationale becomes feedback shown after responding. Hints are
+// left out.
+function qtiItem(q: ExportQuestion, identifier: string) {
+  const { cardinality, baseType, correct, interaction, condition } = qtiInteraction(q);
+  const correctResponse = correct.length
+    ? `<correctResponse>${correct.map((v) => `<value>${xml(v)}</value>`).join("")}</correctResponse>`
+    : "";
+  const title = q.prompt.length > 60 ? `${q.prompt.slice(0, 57)}...` : q.prompt;
+  const setFeedback = q.rationale
+    ? `<setOutcomeValue identifier="FEEDBACK">${value("identifier", "RATIONALE")}</setOutcomeValue>`
+    : "";
+
+  return [
+    XML_DECLARATION,
+    `<assessmentItem ${QTI_NAMESPACE} identifier="${identifier}" title="${xml(title)}" adaptive="false" ` +
+      'timeDependent="false">',
+    `<responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="${baseType}">` +
+      `${correctResponse}</responseDeclaration>`,
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">' +
+      "<defaultValue><value>0</value></defaultValue></outcomeDeclaration>",
+    '<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">' +
+      `<defaultValue><value>${q.points}</value></defaultValue></outcomeDeclaration>`,
+    q.rationale ? '<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>' : "",
+    `<itemBody>${interaction}</itemBody>`,
+    "<responseProcessing><responseCondition><responseIf>" +
+      `${condition}<setOutcomeValue identifier="SCORE">${value("float", q.points)}</setOutcomeValue>` +
+      `</responseIf></responseCondition>${setFeedback}</responseProcessing>`,
+    q.rationale
+      ? '<modalFeedback outcomeIdentifier="FEEDBACK" identifier="RATIONALE" showHide="show">' +
+        `${xml(q.rationale)}</modalFeedback>`
+      : "",
+    "</assessmentItem>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// The assessmentTest: one assessmentSection per quiz section in order, then one for
+// questions outside every section, as the quiz delivers them.
+function qtiTest(quiz: ExportQuiz, questions: readonly ExportQuestion[], itemIds: Map<string, string>) {
+  const groups = [
+    ...quiz.sections.map((s) => ({ ...s, questions: questions.filter((q) => q.sectionId === s.id) })),
+    {
+      title: quiz.sections.length ? "Other questions" : quiz.title,
+      instructions: null,
+      timeLimitSeconds: null,
+      questions: questions.filter((q) => !q.sectionId),
+    },
+  ].filter((g) => g.questions.length);
+
+  const linear = quiz.deliveryMode === "PAGED" && !quiz.allowBackNavigation;
+  const sections = groups.map((g, i) =>
+    [
+      `<assessmentSection identifier="S${i + 1}" title="${xml(g.title)}" visible="true">`,
+      g.timeLimitSeconds ? `<timeLimits maxTime="${g.timeLimitSeconds}"/>` : "",
+      quiz.shuffleQuestions ? '<ordering shuffle="true"/>' : "",
+      g.instructions ? `<rubricBlock view="candidate"><p>${xml(g.instructions)}</p></rubricBlock>` : "",
+      ...g.questions.map((q) => {
+        const id = itemIds.get(q.id);
+        return `<assessmentItemRef identifier="${id}" href="items/${id}.xml"/>`;
+      }),
+      "</assessmentSection>",
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+
+  return [
+    XML_DECLARATION,
+    `<assessmentTest ${QTI_NAMESPACE} identifier="TEST" title="${xml(quiz.title)}">`,
+    quiz.timeLimitSeconds ? `<timeLimits maxTime="${quiz.timeLimitSeconds}"/>` : "",
+    `<testPart identifier="P1" navigationMode="${linear ? "linear" : "nonlinear"}" submissionMode="simultaneous">`,
+    ...sections,
+    "</testPart>",
+    "</assessmentTest>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function qtiManifest(itemIds: readonly string[]) {
+  const items = itemIds.map(
+    (id) =>
+      `<resource identifier="${id}" type="imsqti_item_xmlv2p1" href="items/${id}.xml">` +
+      `<file href="items/${id}.xml"/></resource>`
+  );
+  return [
+    XML_DECLARATION,
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST">',
+    "<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>",
+    "<organizations/>",
+    "<resources>",
+    '<resource identifier="TEST" type="imsqti_test_xmlv2p1" href="test.xml"><file href="test.xml"/>' +
+      `${itemIds.map((id) => `<dependency identifierref="${id}"/>`).join("")}</resource>`,
+    ...items,
+    "</resources>",
+    "</manifest>",
+  ].join("\n");
+}
+
+// A QTI 2.1 content package: imsmanifest.xml, test.xml and one item file per question.
+export function buildQtiPackage(quiz: ExportQuiz, questions: readonly ExportQuestion[]) {
+  const itemIds = new Map(questions.map((q, i) => [q.id, `Q${i + 1}`] as const));
+  const ids = [...itemIds.values()];
+
+  return createZip([
+    { name: "imsmanifest.xml", data: qtiManifest(ids) },
+    { name: "test.xml", data: qtiTest(quiz, questions, itemIds) },
+    ...questions.map((q) => ({ name: `items/${itemIds.get(q.id)}.xml`, data: qtiItem(q, itemIds.get(q.id) ?? "") })),
+  ]);
+}
@@ -0,0 +1,33 @@
+import type { AttemptStatus, RevealPolicy } from "@prisma/client";
+
+export const REVEAL_POLICIES: readonly RevealPolicy[] = ["NEVER", "AFTER_SUBMISSION", "AFTER_CLOSE", "IMMEDIATE"];
+
+export function isRevealPolicy(value: unknown): value is RevealPolicy {
+  return typeof value === "string" && (REVEAL_POLICIES as readonly string[]).includes(value);
+}
+
+export type RevealContext = {
+  revealPolicy: RevealPolicy;
+  isPublished: boolean;
+  closesAt: Date | null;
+};
+
+// A quiz is closed once it is taken down or its closing time has passed.
+export function isQuizClosed(quiz: RevealContext, now = new Date()) {
+  return !quiz.isPublished || (quiz.closesAt !== null && quiz.closesAt.getTime() <= now.getTime());
+}
+
+// Whether a learner may see rationales, answer keys and per-question results for an
+// attempt in this state (null: no attempt, e.g. while the quiz is being taken).
+export function canRevealAnswers(quiz: RevealContext, attemptStatus: AttemptStatus | null) {
+  switch (quiz.revealPolicy) {
+    case "IMMEDIATE":
+      return true;
+    case "AFTER_SUBMISSION":
+      return attemptStatus !== null && attemptStatus !== "IN_PROGRESS";
+    case "AFTER_CLOSE":
+      return isQuizClosed(quiz);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,61 @@
+import type { Prisma } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+
+import { MAX_REVIEW_BOX, reviewOutcome, scheduleMissedQuestions } from "@/lib/review";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-05-01T09:00:00Z");
+
+const daysLater = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+describe("reviewOutcome", () => {
+  it("moves a correct card up a box, doubling the wait", () => {
+    expect(reviewOutcome(1, true, now)).toEqual({ box: 2, dueAt: daysLater(2) });
+    expect(reviewOutcome(3, true, now)).toEqual({ box: 4, dueAt: daysLater(8) });
+  });
+
+  it("keeps a correct card in the last box", () => {
+    expect(reviewOutcome(MAX_REVIEW_BOX, true, now)).toEqual({ box: MAX_REVIEW_BOX, dueAt: daysLater(16) });
+  });
+
+  it("sends a missed card back to the first box", () => {
+    expect(reviewOutcome(4, false, now)).toEqual({ box: 1, dueAt: daysLater(1) });
+  });
+});
+
+describe("scheduleMissedQuestions", () => {
+  function fakeTx() {
+    const upsert = vi.fn();
+    return { tx: { reviewCard: { upsert } } as unknown as Prisma.TransactionClient, upsert };
+  }
+  const results = [
+    { questionId: "q1", correct: true },
+    { questionId: "q2", correct: false },
+    { questionId: "q3", correct: false },
+  ];
+
+  it("queues each missed question, due right away", async () => {
+    const { tx, upsert } = fakeTx();
+    const quiz = { revealPolicy: "AFTER_SUBMISSION" as const, isPublished: true, closesAt: null };
+    await scheduleMissedQuestions(tx, "u1", quiz, results, now);
+
+    expect(upsert).toHaveBeenCalledTimes(2);
+    expect(upsert).toHaveBeenCalledWith({
+      where: { userId_questionId: { userId: "u1", questionId: "q2" } },
+      create: { userId: "u1", questionId: "q2", box: 1, dueAt: now },
+      update: { box: 1, dueAt: now, lapses: { increment: 1 } },
+    });
+  });
+
+  it("leaves out quizzes that withhold results", async () => {
+    const { tx, upsert } = fakeTx();
+    await scheduleMissedQuestions(tx, "u1", { revealPolicy: "NEVER", isPublished: true, closesAt: null }, results);
+    await scheduleMissedQuestions(
+      tx,
+      "u1",
+      { revealPolicy: "AFTER_CLOSE", isPublished: true, closesAt: null },
+      results
+    );
+    expect(upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+import type { Prisma } from "@prisma/client";
+
+import { canRevealAnswers, type RevealContext } from "@/lib/reveal";
+
+// Leitner boxes 1..5 and the days until a card in each comes back.
+export const REVIEW_INTERVAL_DAYS = [1, 2, 4, 8, 16] as const;
+export const MAX_REVIEW_BOX = REVIEW_INTERVAL_DAYS.length;
+
+// Cards handed out per review session.
+export const REVIEW_SESSION_SIZE = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where a card goes after a review: up a box when correct, back to the first on a miss.
+export function reviewOutcome(box: number, correct: boolean, now = new Date()) {
+  const nextBox = correct ? Math.min(MAX_REVIEW_BOX, box + 1) : 1;
+  return { box: nextBox, dueAt: new Date(now.getTime() + REVIEW_INTERVAL_DAYS[nextBox - 1] * DAY_MS) };
+}
+
+// Puts the questions an attempt missed into the learner's review queue, due right away;
+// a card already queued goes back to the first box. Quizzes that withhold results after
+// submission are left out, since the queue would tell the learner what they missed.
+export async function scheduleMissedQuestions(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  quiz: RevealContext,
+  results: readonly { questionId: string; correct: boolean }[],
+  now = new Date()
+) {
+  if (!canRevealAnswers(quiz, "SUBMITTED")) return;
+
+  for (const r of results) {
+    if (r.correct) continue;
+    await tx.reviewCard.upsert({
+      where: { userId_questionId: { userId, questionId: r.questionId } },
+      create: { userId, questionId: r.questionId, box: 1, dueAt: now },
+      update: { box: 1, dueAt: now, lapses: { increment: 1 } },
+    });
+  }
+}
@@ -0,0 +1,164 @@
+import type { DeliveryMode, Prisma } from "@prisma/client";
+
+import { roundScore } from "@/lib/grading";
+
+export const sectionRulesSelect = {
+  id: true,
+  title: true,
+  instructions: true,
+  order: true,
+  timeLimitSeconds: true,
+  allowReturn: true,
+} satisfies Prisma.SectionSelect;
+
+export type SectionRules = Prisma.SectionGetPayload<{ select: typeof sectionRulesSelect }>;
+
+// The paper's question order: section by section, then by question order. Questions
+// without a section sort last (Postgres puts NULLs last when ascending).
+export const paperOrderBy = [
+  { section: { order: "asc" } },
+  { order: "asc" },
+] satisfies Prisma.QuestionOrderByWithRelationInput[];
+
+export const sectionVisitSelect = {
+  sectionId: true,
+  startedAt: true,
+  leftAt: true,
+} satisfies Prisma.AttemptSectionSelect;
+
+type SectionVisit = Prisma.AttemptSectionGetPayload<{ select: typeof sectionVisitSelect }>;
+
+// Sections only bind graded, non-adaptive attempts: practice runs free, and adaptive
+// quizzes pick their own questions.
+export function sectionsApply(
+  quiz: { deliveryMode: DeliveryMode; sections: readonly unknown[] },
+  isPractice: boolean
+) {
+  return quiz.sections.length > 0 && quiz.deliveryMode !== "ADAPTIVE" && !isPractice;
+}
+
+// The sections a version's questions are in. One added since the version was published
+// only comes into play once the next version goes out.
+export function versionSections<S extends { id: string }>(
+  sections: readonly S[],
+  questions: readonly { sectionId: string | null }[]
+): S[] {
+  const used = new Set(questions.map((q) => q.sectionId));
+  return sections.filter((s) => used.has(s.id));
+}
+
+export function sectionDeadline(section: SectionRules, startedAt: Date): Date | null {
+  return section.timeLimitSeconds ? new Date(startedAt.getTime() + section.timeLimitSeconds * 1000) : null;
+}
+
+// Sections the learner can no longer work in: left without a way back, or out of time
+// (graceMs after the deadline).
+export function closedSectionIds(
+  sections: readonly SectionRules[],
+  visits: readonly SectionVisit[],
+  now: Date,
+  graceMs = 0
+) {
+  const visitBySectionId = new Map(visits.map((v) => [v.sectionId, v] as const));
+  const closed = sections.filter((s) => {
+    const visit = visitBySectionId.get(s.id);
+    if (!visit) return false;
+    if (visit.leftAt && !s.allowReturn) return true;
+    const deadline = sectionDeadline(s, visit.startedAt);
+    return deadline !== null && now.getTime() > deadline.getTime() + graceMs;
+  });
+  return new Set(closed.map((s) => s.id));
+}
+
+// Questions that can't be answered right now: those of every section but the current
+// one, and all of a closed section's. Questions without a section are always open.
+export function sectionLockedQuestionIds(
+  questions: readonly { id: string; sectionId: string | null }[],
+  currentSectionId: string | null,
+  closed: ReadonlySet<string>
+) {
+  const locked = questions.filter(
+    (q) => q.sectionId !== null && (q.sectionId !== currentSectionId || closed.has(q.sectionId))
+  );
+  return new Set(locked.map((q) => q.id));
+}
+
+// Moves an attempt into a section: stamps the first visit (which starts the section's
+// clock) and marks the section being left. Refused when the section is closed.
+export async function enterSection(
+  tx: Prisma.TransactionClient,
+  attempt: { id: string; sectionId: string | null },
+  sections: readonly SectionRules[],
+  sectionId: string,
+  now = new Date()
+) {
+  if (sectionId === attempt.sectionId) return { ok: true as const };
+  if (!sections.some((s) => s.id === sectionId)) {
+    return { ok: false as const, code: "INVALID_SECTION", message: "That section is not part of this quiz." };
+  }
+
+  const visits = await tx.attemptSection.findMany({ where: { attemptId: attempt.id }, select: sectionVisitSelect });
+  if (closedSectionIds(sections, visits, now).has(sectionId)) {
+    return { ok: false as const, code: "SECTION_CLOSED", message: "That section is closed." };
+  }
+
+  if (attempt.sectionId) {
+    await tx.attemptSection.updateMany({
+      where: { attemptId: attempt.id, sectionId: attempt.sectionId },
+      data: { leftAt: now },
+    });
+  }
+  await tx.attemptSection.upsert({
+    where: { attemptId_sectionId: { attemptId: attempt.id, sectionId } },
+    create: { attemptId: attempt.id, sectionId, startedAt: now },
+    update: { leftAt: null },
+  });
+  await tx.attempt.update({ where: { id: attempt.id }, data: { sectionId } });
+  return { ok: true as const };
+}
+
+// Where the learner is in a sectioned attempt, for the client's section bar and timers.
+// Practice attempts run without section clocks or closures.
+export async function sectionState(
+  tx: Prisma.TransactionClient,
+  attempt: { id: string; sectionId: string | null; isPractice: boolean },
+  sections: readonly SectionRules[],
+  now = new Date()
+) {
+  const visits = attempt.isPractice
+    ? []
+    : await tx.attemptSection.findMany({ where: { attemptId: attempt.id }, select: sectionVisitSelect });
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const deadlines = visits.flatMap((v) => {
+    const section = sectionById.get(v.sectionId);
+    const deadline = section ? sectionDeadline(section, v.startedAt) : null;
+    return deadline ? [{ sectionId: v.sectionId, deadline: deadline.toISOString() }] : [];
+  });
+
+  return {
+    currentSectionId: attempt.sectionId,
+    closedSectionIds: [...closedSectionIds(sections, visits, now)],
+    deadlines,
+  };
+}
+
+// Per-section score subtotals for a graded attempt; sections it drew nothing from are left out.
+export function sectionSubtotals(
+  sections: readonly SectionRules[],
+  questions: readonly { id: string; sectionId: string | null }[],
+  results: readonly { questionId: string; points: number; maxPoints: number }[]
+) {
+  const sectionIdByQuestionId = new Map(questions.map((q) => [q.id, q.sectionId] as const));
+  return sections.flatMap((s) => {
+    const own = results.filter((r) => sectionIdByQuestionId.get(r.questionId) === s.id);
+    if (own.length === 0) return [];
+    return [
+      {
+        sectionId: s.id,
+        title: s.title,
+        score: roundScore(own.reduce((sum, r) => sum + r.points, 0)),
+        maxScore: roundScore(own.reduce((sum, r) => sum + r.maxPoints, 0)),
+      },
+    ];
+  });
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  keyScrambleSeed,
+  layoutQuestions,
+  orderQuestions,
+  seededScramble,
+  seededShuffle,
+  seededShuffleAnchored,
+} from "@/lib/shuffle";
+
+const letters = "abcdefghij".split("");
+
+describe("seededShuffle", () => {
+  it("gives the same permutation for the same seed", () => {
+    expect(seededShuffle(letters, "attempt-1")).toEqual(seededShuffle(letters, "attempt-1"));
+  });
+
+  it("gives another permutation for another seed", () => {
+    expect(seededShuffle(letters, "attempt-1")).not.toEqual(seededShuffle(letters, "attempt-2"));
+  });
+
+  it("keeps every item and leaves the input alone", () => {
+    const input = letters.slice();
+    expect(seededShuffle(input, "attempt-1").sort()).toEqual(letters);
+    expect(input).toEqual(letters);
+  });
+});
+
+describe("seededScramble", () => {
+  it("never returns the input order", () => {
+    for (let i = 0; i < 50; i += 1) {
+      expect(seededScramble(["a", "b"], `seed-${i}`)).toEqual(["b", "a"]);
+    }
+  });
+});
+
+describe("seededShuffleAnchored", () => {
+  it("keeps anchored items in place", () => {
+    const items = ["a", "b", "c", "d", "None of the above"];
+    for (let i = 0; i < 20; i += 1) {
+      expect(seededShuffleAnchored(items, `seed-${i}`, (item) => item.startsWith("None"))[4]).toBe("None of the above");
+    }
+  });
+});
+
+describe("keyScrambleSeed", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("depends on the server secret", () => {
+    vi.stubEnv("NEXTAUTH_SECRET", "one");
+    const first = keyScrambleSeed("q1", "attempt-1");
+    expect(keyScrambleSeed("q1", "attempt-1")).toBe(first);
+    vi.stubEnv("NEXTAUTH_SECRET", "two");
+    expect(keyScrambleSeed("q1", "attempt-1")).not.toBe(first);
+  });
+
+  it("refuses to run without a secret", () => {
+    vi.stubEnv("NEXTAUTH_SECRET", "");
+    expect(() => keyScrambleSeed("q1", null)).toThrow(/NEXTAUTH_SECRET/);
+  });
+});
+
+describe("layoutQuestions", () => {
+  const choices = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `c${i}`, isAnchored: false }));
+  const questions = [
+    ...["1", "2", "3", "4"].map((id) => ({ id, sectionId: "s1", type: "SINGLE_CHOICE", choices: choices(6) })),
+    ...["5", "6", "7", "8"].map((id) => ({ id, sectionId: "s2", type: "SINGLE_CHOICE", choices: choices(6) })),
+    { id: "9", sectionId: "s2", type: "ORDERING", choices: choices(6) },
+  ];
+  const ids = (list: readonly { id: string }[]) => list.map((q) => q.id);
+
+  it("keeps the stored order without a seed or with shuffling off", () => {
+    expect(ids(layoutQuestions(questions, { shuffleQuestions: true, shuffleChoices: true }, null))).toEqual(
+      ids(questions)
+    );
+    expect(layoutQuestions(questions, { shuffleQuestions: false, shuffleChoices: false }, "seed")).toEqual(questions);
+  });
+
+  it("lays the same seed out the same way", () => {
+    const settings = { shuffleQuestions: true, shuffleChoices: true };
+    expect(layoutQuestions(questions, settings, "seed")).toEqual(layoutQuestions(questions, settings, "seed"));
+  });
+
+  it("shuffles questions only within their section", () => {
+    for (let i = 0; i < 20; i += 1) {
+      const order = ids(orderQuestions(questions, true, `seed-${i}`));
+      expect(order.slice(0, 4).sort()).toEqual(["1", "2", "3", "4"]);
+      expect(order.slice(4).sort()).toEqual(["5", "6", "7", "8", "9"]);
+    }
+  });
+
+  it("shuffles choices without touching ORDERING questions", () => {
+    const laidOut = layoutQuestions(questions, { shuffleQuestions: false, shuffleChoices: true }, "seed");
+    expect(laidOut.find((q) => q.id === "9")?.choices).toEqual(choices(6));
+    expect(laidOut.some((q) => ids(q.choices).join() !== ids(choices(6)).join())).toBe(true);
+  });
+});
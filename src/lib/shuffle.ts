@@ -0,0 +1,111 @@
+import { createHmac } from "node:crypto";
+
+// Deterministic shuffling: the same seed always yields the same permutation, so
+// a layout can be reproduced later without storing it.
+
+function hashSeed(seed: string): number {
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i += 1) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32
+function createRandom(seed: string) {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seededShuffle<T>(items: readonly T[], seed: string): T[] {
+  const random = createRandom(seed);
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Like seededShuffle, but never returns the input order (for two or more items),
+// e.g. so an ORDERING question is never presented already solved.
+export function seededScramble<T>(items: readonly T[], seed: string): T[] {
+  const out = seededShuffle(items, seed);
+  if (out.length > 1 && out.every((item, idx) => item === items[idx])) {
+    out.push(out.shift() as T);
+  }
+  return out;
+}
+
+// Shuffles the unanchored items among themselves; anchored items keep their index.
+export function seededShuffleAnchored<T>(items: readonly T[], seed: string, isAnchored: (item: T) => boolean): T[] {
+  const shuffled = seededShuffle(items.filter((item) => !isAnchored(item)), seed);
+  return items.map((item) => (isAnchored(item) ? item : (shuffled.shift() as T)));
+}
+
+// A seed only the server can compute: `value` run through an HMAC keyed with the app
+// secret. For orders that would give something away if a client could reproduce them.
+export function secretSeed(value: string) {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("Server misconfigured: missing NEXTAUTH_SECRET.");
+  return createHmac("sha256", secret).update(value).digest("hex");
+}
+
+// Seed for presenting a question's key scrambled (ORDERING choices, MATCHING targets),
+// per attempt when there is one.
+export function keyScrambleSeed(questionId: string, attemptSeed: string | null) {
+  return secretSeed(`${attemptSeed ?? ""}:scramble:${questionId}`);
+}
+
+export type ShuffleSettings = { shuffleQuestions: boolean; shuffleChoices: boolean };
+
+type ShufflableQuestion = {
+  id: string;
+  sectionId?: string | null;
+  type: string;
+  choices: ReadonlyArray<{ isAnchored: boolean }>;
+};
+
+// Question order alone, for checks that don't need the choices laid out. Sections keep
+// their place: questions are only shuffled within their own section.
+export function orderQuestions<Q extends { id: string; sectionId?: string | null }>(
+  questions: readonly Q[],
+  shuffleQuestions: boolean,
+  seed: string | null
+): Q[] {
+  if (!seed || !shuffleQuestions) return questions.slice();
+
+  const runs: Q[][] = [];
+  for (const q of questions) {
+    const run = runs[runs.length - 1];
+    if (run && run[0].sectionId === q.sectionId) run.push(q);
+    else runs.push([q]);
+  }
+  return runs.flatMap((run) =>
+    seededShuffle(run, run[0].sectionId ? `${seed}:questions:${run[0].sectionId}` : `${seed}:questions`)
+  );
+}
+
+// The paper one attempt sees. ORDERING choices are left alone: they are always
+// scrambled (the stored order is the key), independent of these settings.
+export function layoutQuestions<Q extends ShufflableQuestion>(
+  questions: readonly Q[],
+  settings: ShuffleSettings,
+  seed: string | null
+): Q[] {
+  const ordered = orderQuestions(questions, settings.shuffleQuestions, seed);
+  if (!seed || !settings.shuffleChoices) return ordered;
+
+  return ordered.map((q) =>
+    q.type === "ORDERING"
+      ? q
+      : { ...q, choices: seededShuffleAnchored(q.choices, `${seed}:${q.id}`, (c) => c.isAnchored) }
+  );
+}
@@ -0,0 +1,228 @@
+import type { Prisma } from "@prisma/client";
+
+import { questionInclude } from "@/lib/questions";
+import { exportQuestionInclude, questionToDraft } from "@/lib/quizExport";
+
+// Questions are edited in a quiz's draft (version 0) and published as numbered copies
+// of it that never change again. Attempts keep the version they started on, and the
+// settings it was published with, for answering, grading and review alike. Once a quiz
+// is live, settings edits wait in the draft as well; the quiz itself carries the live
+// version's, which is what learners' listings, windows and access checks go by.
+
+export const DRAFT_VERSION = 0;
+
+// The questions admins edit.
+export const draftQuestionsWhere = { version: { number: DRAFT_VERSION } } satisfies Prisma.QuestionWhereInput;
+
+export const versionChanged = {
+  message: "This quiz has been updated. Reload it to continue.",
+  code: "QUIZ_VERSION_CHANGED",
+};
+
+// The settings an attempt is delivered and graded under. Publishing copies the draft's
+// into the new version, so an edit only reaches attempts started after the next publish.
+export const versionSettingsSelect = {
+  timeLimitSeconds: true,
+  scoringPolicy: true,
+  wrongAnswerPenalty: true,
+  drawCount: true,
+  deliveryMode: true,
+  allowBackNavigation: true,
+  shuffleQuestions: true,
+  shuffleChoices: true,
+} satisfies Prisma.QuizVersionSelect & Prisma.QuizSelect;
+
+export type VersionSettings = Prisma.QuizVersionGetPayload<{ select: typeof versionSettingsSelect }>;
+
+export async function versionSettings(db: Prisma.TransactionClient, versionId: string): Promise<VersionSettings> {
+  return db.quizVersion.findUniqueOrThrow({ where: { id: versionId }, select: versionSettingsSelect });
+}
+
+// Everything a review signs off on besides the questions: the settings above, and who
+// may take the quiz, when, how often and what they see afterwards. Title, description,
+// category and prerequisites are catalogue details and change straight away.
+export const draftSettingsSelect = {
+  ...versionSettingsSelect,
+  revealPolicy: true,
+  maxAttempts: true,
+  attemptCooldownSeconds: true,
+  finalScorePolicy: true,
+  allowPractice: true,
+  opensAt: true,
+  closesAt: true,
+  visibility: true,
+  accessCodeHash: true,
+  passPercent: true,
+} satisfies Prisma.QuizVersionSelect & Prisma.QuizSelect;
+
+export type DraftSettings = Prisma.QuizVersionGetPayload<{ select: typeof draftSettingsSelect }>;
+
+// The settings admins see and edit: the draft's, which match the quiz's own until the
+// first publish.
+export async function draftSettings(db: Prisma.TransactionClient, quizId: string): Promise<DraftSettings> {
+  const draft = await db.quizVersion.findUnique({
+    where: { quizId_number: { quizId, number: DRAFT_VERSION } },
+    select: draftSettingsSelect,
+  });
+  return draft ?? db.quiz.findUniqueOrThrow({ where: { id: quizId }, select: draftSettingsSelect });
+}
+
+// The quiz's draft, created on first use with the quiz's settings.
+export async function draftVersionId(tx: Prisma.TransactionClient, quizId: string) {
+  const draft = await tx.quizVersion.findUnique({
+    where: { quizId_number: { quizId, number: DRAFT_VERSION } },
+    select: { id: true },
+  });
+  if (draft) return draft.id;
+
+  const settings = await tx.quiz.findUniqueOrThrow({ where: { id: quizId }, select: draftSettingsSelect });
+  const created = await tx.quizVersion.create({
+    data: { quizId, number: DRAFT_VERSION, ...settings },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+// The latest published version, which new attempts start on; null before the first publish.
+export async function liveVersion(db: Prisma.TransactionClient, quizId: string) {
+  return db.quizVersion.findFirst({
+    where: { quizId, number: { gt: DRAFT_VERSION } },
+    orderBy: { number: "desc" },
+    select: { id: true, number: true, publishedAt: true },
+  });
+}
+
+// The live version, or the draft of a quiz that has never been published.
+export async function currentVersionId(db: Prisma.TransactionClient, quizId: string) {
+  const version =
+    (await liveVersion(db, quizId)) ??
+    (await db.quizVersion.findUnique({
+      where: { quizId_number: { quizId, number: DRAFT_VERSION } },
+      select: { id: true },
+    }));
+  return version?.id ?? null;
+}
+
+// The version a learner's request works on: their open attempt's, or the live one for a
+// new attempt. Routes check it again against the attempt they resolve in their transaction.
+export async function learnerVersionId(
+  db: Prisma.TransactionClient,
+  lookup: { userId: string; quizId: string; isPractice: boolean; attemptId?: string }
+) {
+  const open = await db.attempt.findFirst({
+    where: {
+      ...(lookup.attemptId ? { id: lookup.attemptId } : {}),
+      userId: lookup.userId,
+      quizId: lookup.quizId,
+      status: "IN_PROGRESS",
+      isPractice: lookup.isPractice,
+    },
+    orderBy: { startedAt: "desc" },
+    select: { versionId: true },
+  });
+  return open?.versionId ?? (await liveVersion(db, lookup.quizId))?.id ?? null;
+}
+
+// New attempts only start on the live version.
+export async function isLiveVersion(tx: Prisma.TransactionClient, quizId: string, versionId: string) {
+  return (await liveVersion(tx, quizId))?.id === versionId;
+}
+
+// A version's settings, and its questions in the import's shape, in order, for comparing
+// two versions.
+async function versionContent(db: Prisma.TransactionClient, versionId: string) {
+  const questions = await db.question.findMany({
+    where: { versionId },
+    orderBy: { order: "asc" },
+    include: exportQuestionInclude,
+  });
+  return JSON.stringify({
+    settings: await db.quizVersion.findUniqueOrThrow({ where: { id: versionId }, select: draftSettingsSelect }),
+    questions: questions.map((q) => ({ ...questionToDraft(q), sectionId: q.sectionId })),
+  });
+}
+
+// The live version, and whether the draft has been changed since it was published.
+export async function versionStatus(db: Prisma.TransactionClient, quizId: string) {
+  const [live, draft] = await Promise.all([
+    liveVersion(db, quizId),
+    db.quizVersion.findUnique({
+      where: { quizId_number: { quizId, number: DRAFT_VERSION } },
+      select: { id: true },
+    }),
+  ]);
+  const draftContent = draft ? await versionContent(db, draft.id) : "[]";
+  return {
+    live: live ? { number: live.number, publishedAt: live.publishedAt } : null,
+    hasUnpublishedChanges: !live || draftContent !== (await versionContent(db, live.id)),
+  };
+}
+
+async function copyQuestions(tx: Prisma.TransactionClient, fromVersionId: string, toVersionId: string) {
+  const questions = await tx.question.findMany({ where: { versionId: fromVersionId }, include: questionInclude });
+  for (const q of questions) {
+    const copy = await tx.question.create({
+      data: {
+        versionId: toVersionId,
+        quizId: q.quizId,
+        sectionId: q.sectionId,
+        prompt: q.prompt,
+        hint: q.hint,
+        rationale: q.rationale,
+        type: q.type,
+        order: q.order,
+        scoringPolicy: q.scoringPolicy,
+        points: q.points,
+        poolGroup: q.poolGroup,
+        difficulty: q.difficulty,
+        numericMode: q.numericMode,
+        numericAnswer: q.numericAnswer,
+        numericTolerance: q.numericTolerance,
+        numericMin: q.numericMin,
+        numericMax: q.numericMax,
+        acceptedAnswers: {
+          create: q.acceptedAnswers.map((a) => ({ text: a.text, isRegex: a.isRegex, order: a.order })),
+        },
+      },
+      select: { id: true },
+    });
+
+    // Choices are written after the targets they point at.
+    const targetIds = new Map<string, string>();
+    for (const t of q.matchTargets) {
+      const target = await tx.matchTarget.create({
+        data: { questionId: copy.id, text: t.text, order: t.order },
+        select: { id: true },
+      });
+      targetIds.set(t.id, target.id);
+    }
+    await tx.choice.createMany({
+      data: q.choices.map((c) => ({
+        questionId: copy.id,
+        text: c.text,
+        isCorrect: c.isCorrect,
+        isAnchored: c.isAnchored,
+        order: c.order,
+        matchTargetId: targetIds.get(c.matchTargetId ?? "") ?? null,
+      })),
+    });
+  }
+}
+
+// Freezes the draft, questions and settings, as the next version, unless it is
+// unchanged since the live one, and puts its settings into effect on the quiz.
+// Returns the live version's number.
+export async function publishDraft(tx: Prisma.TransactionClient, quizId: string) {
+  const draftId = await draftVersionId(tx, quizId);
+  const live = await liveVersion(tx, quizId);
+  if (live && (await versionContent(tx, draftId)) === (await versionContent(tx, live.id))) return live.number;
+
+  const settings = await tx.quizVersion.findUniqueOrThrow({ where: { id: draftId }, select: draftSettingsSelect });
+  const version = await tx.quizVersion.create({
+    data: { quizId, number: (live?.number ?? DRAFT_VERSION) + 1, publishedAt: new Date(), ...settings },
+    select: { id: true, number: true },
+  });
+  await copyQuestions(tx, draftId, version.id);
+  await tx.quiz.update({ where: { id: quizId }, data: settings });
+  return version.number;
+}